@@ -0,0 +1,52 @@
+import { NextRequest, NextResponse } from "next/server";
+import { isAdminRequest } from "@/lib/admin";
+import { clearEmbeddingCache } from "@/lib/embedding-cache";
+import {
+  invalidateCachedExtractions,
+  listCachedExtractions,
+} from "@/lib/extraction-cache";
+
+export async function GET(request: NextRequest) {
+  if (!isAdminRequest(request)) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const entries = await listCachedExtractions();
+  return NextResponse.json({ count: entries.length, entries });
+}
+
+/**
+ * Invalidate cached extractions. Filter by ?key=, ?filename= or
+ * ?promptVersion=; without a filter the whole cache is cleared, including
+ * the embedding cache.
+ */
+export async function DELETE(request: NextRequest) {
+  if (!isAdminRequest(request)) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  try {
+    const searchParams = request.nextUrl.searchParams;
+    const filter = {
+      key: searchParams.get("key") ?? undefined,
+      filename: searchParams.get("filename") ?? undefined,
+      promptVersion: searchParams.get("promptVersion") ?? undefined,
+    };
+    const removed = await invalidateCachedExtractions(filter);
+
+    // Embeddings are keyed by text, not by file, so only a full clear
+    // reaches them
+    const removedEmbeddings =
+      !filter.key && !filter.filename && !filter.promptVersion
+        ? await clearEmbeddingCache()
+        : 0;
+
+    return NextResponse.json({ removed, removedEmbeddings });
+  } catch (error) {
+    console.error("Error invalidating cache:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,22 @@
+import { NextRequest, NextResponse } from "next/server";
+import { exportCatalogue, getCatalogue } from "@/lib/question-catalogues";
+
+// JSON file of the current version, importable via /api/catalogues/import
+export async function GET(
+  _request: NextRequest,
+  { params }: { params: Promise<{ catalogueId: string }> }
+) {
+  const { catalogueId } = await params;
+  const catalogue = await getCatalogue(catalogueId);
+
+  if (!catalogue) {
+    return NextResponse.json({ error: "Catalogue not found" }, { status: 404 });
+  }
+
+  return new NextResponse(JSON.stringify(exportCatalogue(catalogue), null, 2), {
+    headers: {
+      "Content-Type": "application/json; charset=utf-8",
+      "Content-Disposition": `attachment; filename="fragenkatalog-${catalogueId}.json"`,
+    },
+  });
+}
@@ -0,0 +1,48 @@
+import { NextRequest, NextResponse } from "next/server";
+import { restoreCatalogueVersion } from "@/lib/question-catalogues";
+
+/**
+ * Restore an earlier version as the new current one. Body: { version: number }
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ catalogueId: string }> }
+) {
+  const { catalogueId } = await params;
+
+  let body: { version?: unknown };
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json(
+      { error: "Request body must be JSON" },
+      { status: 400 }
+    );
+  }
+
+  if (typeof body.version !== "number") {
+    return NextResponse.json(
+      { error: "A version number is required" },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const catalogue = await restoreCatalogueVersion(catalogueId, body.version);
+
+    if (!catalogue) {
+      return NextResponse.json(
+        { error: "Catalogue or version not found" },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ catalogue });
+  } catch (error) {
+    console.error(`Error restoring catalogue ${catalogueId}:`, error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
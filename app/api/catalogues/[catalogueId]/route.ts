@@ -0,0 +1,94 @@
+import { NextRequest, NextResponse } from "next/server";
+import {
+  CatalogueValidationError,
+  deleteCatalogue,
+  getCatalogue,
+  parseCatalogueInput,
+  updateCatalogue,
+} from "@/lib/question-catalogues";
+
+// Current state of a catalogue including its version history
+export async function GET(
+  _request: NextRequest,
+  { params }: { params: Promise<{ catalogueId: string }> }
+) {
+  const { catalogueId } = await params;
+  const catalogue = await getCatalogue(catalogueId);
+
+  if (!catalogue) {
+    return NextResponse.json({ error: "Catalogue not found" }, { status: 404 });
+  }
+
+  return NextResponse.json({ catalogue });
+}
+
+/**
+ * Replace the content of a catalogue, saved as a new version
+ */
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ catalogueId: string }> }
+) {
+  const { catalogueId } = await params;
+
+  let body: unknown;
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json(
+      { error: "Request body must be JSON" },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const catalogue = await updateCatalogue(
+      catalogueId,
+      parseCatalogueInput(body)
+    );
+
+    if (!catalogue) {
+      return NextResponse.json(
+        { error: "Catalogue not found" },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ catalogue });
+  } catch (error) {
+    if (error instanceof CatalogueValidationError) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+    console.error(`Error updating catalogue ${catalogueId}:`, error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
+
+export async function DELETE(
+  _request: NextRequest,
+  { params }: { params: Promise<{ catalogueId: string }> }
+) {
+  const { catalogueId } = await params;
+
+  try {
+    const deleted = await deleteCatalogue(catalogueId);
+
+    if (!deleted) {
+      return NextResponse.json(
+        { error: "Catalogue not found" },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ deleted: catalogueId });
+  } catch (error) {
+    console.error(`Error deleting catalogue ${catalogueId}:`, error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,46 @@
+import { NextRequest, NextResponse } from "next/server";
+import {
+  CatalogueValidationError,
+  createCatalogue,
+  parseCatalogueInput,
+  type CatalogueInput,
+} from "@/lib/question-catalogues";
+
+/**
+ * Import exported catalogue files as new catalogues.
+ * Body: one exported catalogue or an array of them.
+ */
+export async function POST(request: NextRequest) {
+  let body: unknown;
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json(
+      { error: "Request body must be JSON" },
+      { status: 400 }
+    );
+  }
+
+  try {
+    // Validate everything first so a bad entry imports nothing
+    const inputs: CatalogueInput[] = (Array.isArray(body) ? body : [body]).map(
+      (entry) => parseCatalogueInput(entry)
+    );
+
+    const catalogues = [];
+    for (const input of inputs) {
+      catalogues.push(await createCatalogue(input));
+    }
+
+    return NextResponse.json({ catalogues }, { status: 201 });
+  } catch (error) {
+    if (error instanceof CatalogueValidationError) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+    console.error("Error importing catalogues:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,49 @@
+import { NextRequest, NextResponse } from "next/server";
+import {
+  CatalogueValidationError,
+  createCatalogue,
+  listCatalogues,
+  parseCatalogueInput,
+} from "@/lib/question-catalogues";
+
+export async function GET() {
+  try {
+    const catalogues = await listCatalogues();
+    return NextResponse.json({ catalogues });
+  } catch (error) {
+    console.error("Error listing catalogues:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * Create a catalogue. Body: { name, description?, entries: { text, type?, category? }[] }
+ */
+export async function POST(request: NextRequest) {
+  let body: unknown;
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json(
+      { error: "Request body must be JSON" },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const catalogue = await createCatalogue(parseCatalogueInput(body));
+    return NextResponse.json({ catalogue }, { status: 201 });
+  } catch (error) {
+    if (error instanceof CatalogueValidationError) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+    console.error("Error creating catalogue:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,45 @@
+import { NextRequest, NextResponse } from "next/server";
+import {
+  deleteStoredDocument,
+  getStoredDocument,
+} from "@/lib/document-library";
+
+export async function GET(
+  _request: NextRequest,
+  { params }: { params: Promise<{ documentId: string }> }
+) {
+  const { documentId } = await params;
+  const document = await getStoredDocument(documentId);
+
+  if (!document) {
+    return NextResponse.json({ error: "Document not found" }, { status: 404 });
+  }
+
+  return NextResponse.json({ document });
+}
+
+export async function DELETE(
+  _request: NextRequest,
+  { params }: { params: Promise<{ documentId: string }> }
+) {
+  const { documentId } = await params;
+
+  try {
+    const deleted = await deleteStoredDocument(documentId);
+
+    if (!deleted) {
+      return NextResponse.json(
+        { error: "Document not found" },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ deleted: documentId });
+  } catch (error) {
+    console.error(`Error deleting document ${documentId}:`, error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
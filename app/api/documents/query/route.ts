@@ -0,0 +1,141 @@
+import { NextRequest, NextResponse } from "next/server";
+import { queryStoredDocuments, resolveQueryInputs } from "@/lib";
+import {
+  getStoredDocument,
+  hasDocumentVectors,
+  isDocumentQueryable,
+} from "@/lib/document-library";
+import { submitJob } from "@/lib/jobs";
+import { isLanguage } from "@/lib/language";
+import { resolveLocale, validateQueryLimits } from "@/lib/limits";
+import type { AnalysisMode, QueryInput, StoredDocument } from "@/lib/types";
+import config from "@/lib/config";
+
+/**
+ * Answer new queries against documents from the library as a background job.
+ * Body: { documentIds: string[], queries: { text, type? }[], mode?: AnalysisMode,
+ *   outputLanguage?: Language }
+ */
+export async function POST(request: NextRequest) {
+  try {
+    let body: {
+      documentIds?: unknown;
+      queries?: unknown;
+      mode?: unknown;
+      outputLanguage?: unknown;
+    };
+    try {
+      body = await request.json();
+    } catch {
+      return NextResponse.json(
+        { error: "Request body must be JSON" },
+        { status: 400 }
+      );
+    }
+
+    const documentIds = Array.isArray(body.documentIds)
+      ? Array.from(
+          new Set(
+            body.documentIds.filter(
+              (id): id is string => typeof id === "string"
+            )
+          )
+        )
+      : [];
+
+    if (documentIds.length === 0) {
+      return NextResponse.json(
+        { error: "At least one document ID is required" },
+        { status: 400 }
+      );
+    }
+
+    // Queries without an explicit type are classified like uploaded ones
+    const queries: QueryInput[] = resolveQueryInputs(
+      (Array.isArray(body.queries) ? body.queries : [])
+        .filter(
+          (query): query is { text: string; type?: unknown } =>
+            typeof query?.text === "string" && query.text.trim().length > 0
+        )
+        .map((query) => ({ text: query.text.trim(), type: query.type }))
+    );
+
+    const locale = resolveLocale(request.headers.get("accept-language"));
+    const violations = validateQueryLimits(queries.length, locale);
+    if (violations.length > 0) {
+      return NextResponse.json(
+        {
+          error: violations.map((violation) => violation.message).join(" "),
+          code: violations[0].code,
+          violations,
+        },
+        { status: 400 }
+      );
+    }
+
+    const documents: StoredDocument[] = [];
+    for (const documentId of documentIds) {
+      const document = await getStoredDocument(documentId);
+      if (!document) {
+        return NextResponse.json(
+          { error: `Document not found: ${documentId}` },
+          { status: 404 }
+        );
+      }
+      if (!isDocumentQueryable(document)) {
+        return NextResponse.json(
+          {
+            error: `Document ${document.filename} was indexed with a different embedding model or vector store and must be uploaded again`,
+          },
+          { status: 409 }
+        );
+      }
+      if (!(await hasDocumentVectors(document))) {
+        return NextResponse.json(
+          {
+            error: `Document ${document.filename} has no stored embeddings and must be uploaded again`,
+          },
+          { status: 409 }
+        );
+      }
+      documents.push(document);
+    }
+
+    const mode: AnalysisMode =
+      body.mode === "per_file" ? "per_file" : "package";
+
+    const estimatedTotalSteps =
+      queries.length * (mode === "package" ? 1 : documents.length) +
+      config.getProcessingConfig().extraction.baseStepsCount;
+
+    console.log(
+      `Queueing ${queries.length} queries against ${documents.length} stored documents in ${mode} mode`
+    );
+
+    const job = submitJob(
+      {
+        mode,
+        filenames: documents.map((document) => document.filename),
+        queryCount: queries.length,
+        estimatedTotalSteps,
+      },
+      (onProgress, signal) =>
+        queryStoredDocuments(documentIds, queries, onProgress, {
+          mode,
+          signal,
+          // Unsupported languages fall back to the configured default
+          outputLanguage: isLanguage(body.outputLanguage)
+            ? body.outputLanguage
+            : undefined,
+        })
+    );
+
+    return NextResponse.json({ jobId: job.id, job }, { status: 202 });
+  } catch (error) {
+    console.error("Error in document query route:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
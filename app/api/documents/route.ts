@@ -0,0 +1,15 @@
+import { NextResponse } from "next/server";
+import { listStoredDocuments } from "@/lib/document-library";
+
+export async function GET() {
+  try {
+    const documents = await listStoredDocuments();
+    return NextResponse.json({ documents });
+  } catch (error) {
+    console.error("Error listing documents:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
@@ -1,22 +1,9 @@
 import { NextRequest, NextResponse } from "next/server";
-import { parseDocuments } from "@/lib";
-import type { ProcessingResult } from "@/lib/types";
-
-export const maxDuration = 120;
-
-// Simple progress streaming interface
-interface ProgressUpdate {
-  type: "progress" | "completion" | "error";
-  step: string;
-  message: string;
-  filename?: string;
-  chunkId?: string;
-  currentStep: number;
-  totalSteps: number;
-  timestamp: number;
-  results?: ProcessingResult;
-  error?: string;
-}
+import { parseDocuments, resolveQueryInputs } from "@/lib";
+import { submitJob } from "@/lib/jobs";
+import { isLanguage } from "@/lib/language";
+import { resolveLocale, validateSessionLimits } from "@/lib/limits";
+import type { AnalysisMode } from "@/lib/types";
 
 export async function POST(request: NextRequest) {
   try {
@@ -31,153 +18,101 @@ export async function POST(request: NextRequest) {
     // Session ID is generated internally by parseDocuments
     // const sessionId = formData.get("sessionId") as string;
 
-    // Extract questions from form data
-    const questions: string[] = [];
+    // Extract questions and their optional types from form data
+    const rawQuestions: { text: string; type?: unknown }[] = [];
     let questionIndex = 0;
     while (formData.has(`questions.${questionIndex}.question`)) {
       const question = formData.get(
         `questions.${questionIndex}.question`
       ) as string;
       if (question?.trim()) {
-        questions.push(question.trim());
+        rawQuestions.push({
+          text: question.trim(),
+          type: formData.get(`questions.${questionIndex}.type`),
+        });
       }
       questionIndex++;
     }
+    // An explicit type wins over the detected one
+    const questions = resolveQueryInputs(rawQuestions);
+
+    // Package mode answers every query once across all files
+    const mode: AnalysisMode =
+      formData.get("mode") === "per_file" ? "per_file" : "package";
+    // Checklist mode also works without questions
+    const createChecklist = formData.get("checklist") === "true";
+    // Unsupported languages fall back to config.languages.defaultOutputLanguage
+    const outputLanguage = formData.get("outputLanguage");
 
     // Extract PDF files
     const files: File[] = [];
     const fileEntries = formData.getAll("files");
 
     for (const fileEntry of fileEntries) {
-      if (fileEntry instanceof File && fileEntry.type === "application/pdf") {
+      if (fileEntry instanceof File) {
         files.push(fileEntry);
       }
     }
 
-    // Validate input
-    if (questions.length === 0) {
-      return NextResponse.json(
-        { error: "At least one question is required" },
-        { status: 400 }
+    // Validate input against config.limits (file type, size, counts)
+    const locale = resolveLocale(request.headers.get("accept-language"));
+    const violations = await validateSessionLimits(
+      files,
+      questions,
+      locale,
+      !createChecklist
+    );
+
+    if (violations.length > 0) {
+      const tooLarge = violations.some(
+        (violation) =>
+          violation.code === "FILE_TOO_LARGE" ||
+          violation.code === "TOTAL_SIZE_EXCEEDED"
       );
-    }
 
-    if (files.length === 0) {
       return NextResponse.json(
-        { error: "At least one PDF file is required" },
-        { status: 400 }
+        {
+          error: violations.map((violation) => violation.message).join(" "),
+          code: violations[0].code,
+          violations,
+        },
+        { status: tooLarge ? 413 : 400 }
       );
     }
 
     // Initial estimate for total steps (will be updated during processing)
-    let totalSteps = files.length * 2 + questions.length * files.length + 2; // Updated estimate
-
-    // Create streaming response
-    const encoder = new TextEncoder();
-    let currentStep = 0;
-
-    const stream = new ReadableStream({
-      async start(controller) {
-        try {
-          // Progress callback with ability to update total steps
-          const onProgress = (
-            step: string,
-            message: string,
-            filename?: string,
-            chunkId?: string,
-            updateTotalSteps?: number
-          ) => {
-            currentStep++;
-
-            // Update total steps if provided
-            if (updateTotalSteps !== undefined) {
-              totalSteps = updateTotalSteps;
-            }
-
-            const update: ProgressUpdate = {
-              type: "progress",
-              step,
-              message,
-              filename,
-              chunkId,
-              currentStep,
-              totalSteps,
-              timestamp: Date.now(),
-            };
-
-            const chunk = encoder.encode(JSON.stringify(update) + "\n");
-
-            // Check if controller is still open before enqueueing
-            try {
-              controller.enqueue(chunk);
-            } catch (error) {
-              console.warn(
-                "Controller already closed, skipping progress update:",
-                error
-              );
-            }
-          };
-
-          // Process documents with progress callback
-          console.log(
-            `Processing ${files.length} files with ${questions.length} questions each`
-          );
-
-          const processingResult = await parseDocuments(
-            files,
-            questions,
-            onProgress
-          );
-
-          // Send completion update
-          const completionUpdate: ProgressUpdate = {
-            type: "completion",
-            step: "completed",
-            message: "Processing completed successfully",
-            currentStep: totalSteps,
-            totalSteps,
-            timestamp: Date.now(),
-            results: processingResult,
-          };
-
-          const chunk = encoder.encode(JSON.stringify(completionUpdate) + "\n");
-
-          try {
-            controller.enqueue(chunk);
-            controller.close();
-          } catch (error) {
-            console.warn(
-              "Controller already closed, skipping completion update:",
-              error
-            );
-          }
-        } catch (error) {
-          console.error("Error processing documents:", error);
-
-          const errorUpdate: ProgressUpdate = {
-            type: "error",
-            step: "error",
-            message: "Processing failed",
-            currentStep: currentStep,
-            totalSteps,
-            timestamp: Date.now(),
-            error: error instanceof Error ? error.message : "Unknown error",
-          };
+    const estimatedTotalSteps =
+      files.length * 2 +
+      questions.length * (mode === "package" ? 1 : files.length) +
+      2; // Updated estimate
+
+    console.log(
+      `Queueing ${files.length} files with ${
+        questions.length
+      } questions in ${mode} mode${createChecklist ? " with checklist" : ""}`
+    );
 
-          const chunk = encoder.encode(JSON.stringify(errorUpdate) + "\n");
-          controller.enqueue(chunk);
-          controller.close();
-        }
+    // Processing happens in the background; clients poll or stream by job ID
+    const job = submitJob(
+      {
+        mode,
+        filenames: files.map((file) => file.name),
+        queryCount: questions.length,
+        estimatedTotalSteps,
       },
-    });
+      (onProgress, signal) =>
+        parseDocuments(files, questions, onProgress, {
+          mode,
+          signal,
+          locale,
+          createChecklist,
+          outputLanguage: isLanguage(outputLanguage)
+            ? outputLanguage
+            : undefined,
+        })
+    );
 
-    return new Response(stream, {
-      headers: {
-        "Content-Type": "text/plain",
-        "Cache-Control": "no-cache",
-        Connection: "keep-alive",
-      },
-    });
+    return NextResponse.json({ jobId: job.id, job }, { status: 202 });
   } catch (error) {
     console.error("Error in ingest route:", error);
     return NextResponse.json(
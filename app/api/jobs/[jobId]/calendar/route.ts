@@ -0,0 +1,41 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getJob, getJobResult } from "@/lib/jobs";
+import { buildDeadlineCalendar } from "@/lib/calendar";
+
+// iCalendar export of the deadlines found by a finished job
+export async function GET(
+  _request: NextRequest,
+  { params }: { params: Promise<{ jobId: string }> }
+) {
+  const { jobId } = await params;
+  const job = getJob(jobId);
+
+  if (!job) {
+    return NextResponse.json({ error: "Job not found" }, { status: 404 });
+  }
+
+  const result = getJobResult(jobId);
+  if (!result) {
+    return NextResponse.json(
+      { error: "Job has not finished yet", job },
+      { status: 409 }
+    );
+  }
+
+  const deadlines = (result.deadlines ?? []).filter(
+    (deadline) => deadline.dateTime
+  );
+  if (deadlines.length === 0) {
+    return NextResponse.json(
+      { error: "No dated deadlines found" },
+      { status: 404 }
+    );
+  }
+
+  return new NextResponse(buildDeadlineCalendar(deadlines), {
+    headers: {
+      "Content-Type": "text/calendar; charset=utf-8",
+      "Content-Disposition": `attachment; filename="fristen-${jobId}.ics"`,
+    },
+  });
+}
@@ -0,0 +1,17 @@
+import { NextRequest, NextResponse } from "next/server";
+import { cancelJob } from "@/lib/jobs";
+
+export async function POST(
+  _request: NextRequest,
+  { params }: { params: Promise<{ jobId: string }> }
+) {
+  const { jobId } = await params;
+  const job = cancelJob(jobId);
+
+  if (!job) {
+    return NextResponse.json({ error: "Job not found" }, { status: 404 });
+  }
+
+  // Running jobs report "cancelled" on their event stream once work stops
+  return NextResponse.json({ job }, { status: 202 });
+}
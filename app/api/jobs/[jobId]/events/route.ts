@@ -0,0 +1,72 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getJob, subscribeToJob } from "@/lib/jobs";
+import type { ProgressUpdate } from "@/lib/types";
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ jobId: string }> }
+) {
+  const { jobId } = await params;
+
+  if (!getJob(jobId)) {
+    return NextResponse.json({ error: "Job not found" }, { status: 404 });
+  }
+
+  const encoder = new TextEncoder();
+  let unsubscribe: (() => void) | null = null;
+
+  const stream = new ReadableStream({
+    start(controller) {
+      let closed = false;
+
+      const close = () => {
+        if (closed) return;
+        closed = true;
+        unsubscribe?.();
+        try {
+          controller.close();
+        } catch (error) {
+          console.warn("Controller already closed:", error);
+        }
+      };
+
+      // Replays past events, then streams new ones as NDJSON
+      unsubscribe = subscribeToJob(jobId, (update: ProgressUpdate) => {
+        if (closed) return;
+
+        try {
+          controller.enqueue(encoder.encode(JSON.stringify(update) + "\n"));
+        } catch (error) {
+          console.warn(
+            "Controller already closed, skipping progress update:",
+            error
+          );
+        }
+
+        if (
+          update.type === "completion" ||
+          update.type === "error" ||
+          update.type === "cancelled"
+        ) {
+          // Defer so subscribeToJob can return before we unsubscribe
+          queueMicrotask(close);
+        }
+      });
+
+      // Detaching does not stop the job at once; it is cancelled only if
+      // no client re-attaches within the grace period
+      request.signal.addEventListener("abort", close);
+    },
+    cancel() {
+      unsubscribe?.();
+    },
+  });
+
+  return new Response(stream, {
+    headers: {
+      "Content-Type": "text/plain",
+      "Cache-Control": "no-cache",
+      Connection: "keep-alive",
+    },
+  });
+}
@@ -0,0 +1,39 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getJob, getJobResult } from "@/lib/jobs";
+
+export async function GET(
+  _request: NextRequest,
+  { params }: { params: Promise<{ jobId: string }> }
+) {
+  const { jobId } = await params;
+  const job = getJob(jobId);
+
+  if (!job) {
+    return NextResponse.json({ error: "Job not found" }, { status: 404 });
+  }
+
+  if (job.status === "failed") {
+    return NextResponse.json(
+      { error: job.error || "Processing failed", job },
+      { status: 500 }
+    );
+  }
+
+  // Cancelled jobs never produce a result, so pollers can stop here
+  if (job.status === "cancelled") {
+    return NextResponse.json(
+      { error: "Processing was cancelled", job },
+      { status: 410 }
+    );
+  }
+
+  const result = getJobResult(jobId);
+  if (!result) {
+    return NextResponse.json(
+      { error: "Job has not finished yet", job },
+      { status: 409 }
+    );
+  }
+
+  return NextResponse.json({ job, result });
+}
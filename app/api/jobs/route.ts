@@ -0,0 +1,16 @@
+import { NextRequest, NextResponse } from "next/server";
+import { listJobs } from "@/lib/jobs";
+
+export async function GET(request: NextRequest) {
+  const limitParam = request.nextUrl.searchParams.get("limit");
+  const limit = limitParam ? parseInt(limitParam, 10) : undefined;
+
+  if (limit !== undefined && (isNaN(limit) || limit <= 0)) {
+    return NextResponse.json(
+      { error: "limit must be a positive number" },
+      { status: 400 }
+    );
+  }
+
+  return NextResponse.json({ jobs: listJobs(limit) });
+}
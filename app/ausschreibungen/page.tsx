@@ -0,0 +1,239 @@
+"use client";
+
+import { useCallback, useState } from "react";
+import Link from "next/link";
+import { DocumentLibrary } from "@/components/document-library";
+import { LibraryQueryForm } from "@/components/library-query-form";
+import type { QueryTypeChoice } from "@/components/query-type-select";
+import { ProgressTimeline } from "@/components/progress-timeline";
+import { ResultsDisplay } from "@/components/results-display";
+import { TenderProfileCard } from "@/components/tender-profile-card";
+import { DeadlineTimeline } from "@/components/deadline-timeline";
+import { Button } from "@/components/ui/button";
+import { AlertCircle, ArrowLeft, Ban, Clock, Upload } from "lucide-react";
+import type {
+  AnalysisMode,
+  FileResult,
+  Deadline,
+  FileTenderExtraction,
+  Language,
+  PackageResult,
+  ProcessingResult,
+  ProcessingStatus,
+} from "@/lib/types";
+
+export default function MyTendersPage() {
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+  const [fileResults, setFileResults] = useState<FileResult[]>([]);
+  const [packageResult, setPackageResult] = useState<PackageResult | null>(
+    null
+  );
+  const [tenderExtractions, setTenderExtractions] = useState<
+    FileTenderExtraction[]
+  >([]);
+  const [deadlines, setDeadlines] = useState<Deadline[]>([]);
+  const [resultStatus, setResultStatus] =
+    useState<ProcessingStatus>("completed");
+  const [showResults, setShowResults] = useState(false);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string>("");
+  const [jobId, setJobId] = useState<string | null>(null);
+  // Finished job whose deadlines can be exported as a calendar
+  const [resultJobId, setResultJobId] = useState<string | null>(null);
+  const [cancelledStages, setCancelledStages] = useState<string[] | null>(null);
+
+  const handleQuerySubmit = async (data: {
+    questions: { question: string; type: QueryTypeChoice }[];
+    mode: AnalysisMode;
+    outputLanguage: Language;
+  }) => {
+    setIsLoading(true);
+    setError("");
+    setCancelledStages(null);
+    setShowResults(false);
+
+    try {
+      const response = await fetch("/api/documents/query", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          documentIds: selectedIds,
+          queries: data.questions.map((q) => ({
+            text: q.question,
+            type: q.type === "auto" ? undefined : q.type,
+          })),
+          mode: data.mode,
+          outputLanguage: data.outputLanguage,
+        }),
+      });
+      const body = await response.json();
+
+      if (!response.ok) {
+        throw new Error(body.error || `HTTP error! status: ${response.status}`);
+      }
+
+      setJobId(body.jobId);
+      setResultJobId(body.jobId);
+    } catch (error) {
+      console.error("Error submitting query job:", error);
+      setError(error instanceof Error ? error.message : "Failed to submit job");
+      setIsLoading(false);
+    }
+  };
+
+  const handleProgressComplete = useCallback((results: ProcessingResult) => {
+    setFileResults(results.fileResults || []);
+    setPackageResult(results.packageResult || null);
+    setTenderExtractions(results.tenderExtractions || []);
+    setDeadlines(results.deadlines || []);
+    setResultStatus(results.status || "completed");
+    setShowResults(true);
+    setJobId(null);
+    setIsLoading(false);
+  }, []);
+
+  const handleProgressError = useCallback((errorMessage: string) => {
+    setError(errorMessage);
+    setJobId(null);
+    setIsLoading(false);
+  }, []);
+
+  const handleProgressCancelled = useCallback((stages: string[]) => {
+    setCancelledStages(stages);
+    setJobId(null);
+    setIsLoading(false);
+  }, []);
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <div className="container mx-auto px-4 py-8">
+        <div className="max-w-6xl mx-auto space-y-8">
+          {/* Header */}
+          <div className="flex items-center justify-between">
+            <div>
+              <h1 className="text-4xl font-bold text-gray-900 mb-2">
+                Meine Ausschreibungen
+              </h1>
+              <p className="text-lg text-gray-600">
+                Bereits analysierte Dokumente erneut befragen
+              </p>
+            </div>
+            <Button asChild variant="outline">
+              <Link href="/" className="flex items-center gap-2">
+                <Upload className="h-4 w-4" />
+                Neue Dokumente hochladen
+              </Link>
+            </Button>
+          </div>
+
+          {/* Error Alert */}
+          {error && (
+            <div className="p-4 bg-red-50 border border-red-200 rounded-lg">
+              <div className="flex items-center">
+                <AlertCircle className="h-4 w-4 text-red-600 mr-2" />
+                <div className="text-sm text-red-800">{error}</div>
+              </div>
+            </div>
+          )}
+
+          {/* Cancellation Notice */}
+          {cancelledStages && (
+            <div className="p-4 bg-yellow-50 border border-yellow-200 rounded-lg">
+              <div className="flex items-center">
+                <Ban className="h-4 w-4 text-yellow-600 mr-2" />
+                <div className="text-sm text-yellow-800">
+                  Verarbeitung abgebrochen.
+                  {cancelledStages.length > 0 &&
+                    ` Nicht abgeschlossen: ${cancelledStages.join(", ")}`}
+                </div>
+              </div>
+            </div>
+          )}
+
+          {/* Library and Questions */}
+          {!jobId && !showResults && (
+            <div className="grid gap-8 lg:grid-cols-2">
+              <DocumentLibrary
+                selectedIds={selectedIds}
+                onSelectionChange={setSelectedIds}
+              />
+              <LibraryQueryForm
+                onSubmit={handleQuerySubmit}
+                selectedCount={selectedIds.length}
+                isLoading={isLoading}
+              />
+            </div>
+          )}
+
+          {/* Processing Timeline */}
+          {jobId && (
+            <ProgressTimeline
+              jobId={jobId}
+              onComplete={handleProgressComplete}
+              onError={handleProgressError}
+              onCancelled={handleProgressCancelled}
+            />
+          )}
+
+          {/* Results */}
+          {showResults && fileResults.length > 0 && (
+            <div>
+              <div className="flex items-center justify-between mb-4">
+                <h2 className="text-2xl font-bold text-gray-900">Ergebnisse</h2>
+                <Button
+                  onClick={() => setShowResults(false)}
+                  variant="outline"
+                  className="flex items-center gap-2"
+                >
+                  <ArrowLeft className="h-4 w-4" />
+                  Weitere Fragen stellen
+                </Button>
+              </div>
+
+              {resultStatus === "time_limit_reached" && (
+                <div className="mb-6 p-4 bg-yellow-50 border border-yellow-200 rounded-lg">
+                  <div className="flex items-center">
+                    <Clock className="h-4 w-4 text-yellow-600 mr-2" />
+                    <div className="text-sm text-yellow-800">
+                      Zeitlimit erreicht: Die Verarbeitung wurde vorzeitig
+                      beendet, die Ergebnisse sind unvollständig.
+                    </div>
+                  </div>
+                </div>
+              )}
+
+              {deadlines.length > 0 && (
+                <div className="mb-8">
+                  <DeadlineTimeline
+                    deadlines={deadlines}
+                    calendarUrl={
+                      resultJobId
+                        ? `/api/jobs/${resultJobId}/calendar`
+                        : undefined
+                    }
+                  />
+                </div>
+              )}
+
+              {tenderExtractions.length > 0 && (
+                <div className="mb-8 space-y-4">
+                  {tenderExtractions.map((tenderExtraction) => (
+                    <TenderProfileCard
+                      key={tenderExtraction.filename}
+                      tenderExtraction={tenderExtraction}
+                    />
+                  ))}
+                </div>
+              )}
+
+              <ResultsDisplay
+                fileResults={fileResults}
+                packageResult={packageResult}
+              />
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
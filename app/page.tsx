@@ -1,36 +1,99 @@
 "use client";
 
-import { useState } from "react";
+import { useCallback, useEffect, useState } from "react";
+import Link from "next/link";
 import { UploadForm } from "@/components/upload-form";
+import type { QueryTypeChoice } from "@/components/query-type-select";
 import { ProgressTimeline } from "@/components/progress-timeline";
 import { ResultsDisplay } from "@/components/results-display";
+import { TenderProfileCard } from "@/components/tender-profile-card";
+import { DeadlineTimeline } from "@/components/deadline-timeline";
+import { BidderChecklist } from "@/components/bidder-checklist";
 import { DebugDisplay } from "@/components/debug-display";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
-import { CheckCircle, AlertCircle, ArrowLeft, Bug } from "lucide-react";
+import {
+  CheckCircle,
+  AlertCircle,
+  ArrowLeft,
+  Bug,
+  Ban,
+  Clock,
+  Library,
+} from "lucide-react";
 import type {
+  AnalysisMode,
+  ChecklistResult,
   FileResult,
+  Deadline,
+  FileTenderExtraction,
+  Language,
+  PackageResult,
+  ProcessingStatus,
   DocumentExtractionDebug,
   ProcessingResult,
 } from "@/lib/types";
 
+// Remembers the running job so a page reload re-attaches to it
+const ACTIVE_JOB_STORAGE_KEY = "tender-active-job";
+
 export default function Home() {
   const [fileResults, setFileResults] = useState<FileResult[]>([]);
+  const [packageResult, setPackageResult] = useState<PackageResult | null>(
+    null
+  );
+  const [tenderExtractions, setTenderExtractions] = useState<
+    FileTenderExtraction[]
+  >([]);
+  const [deadlines, setDeadlines] = useState<Deadline[]>([]);
+  const [checklist, setChecklist] = useState<ChecklistResult | null>(null);
+  const [resultStatus, setResultStatus] =
+    useState<ProcessingStatus>("completed");
   const [debugInfo, setDebugInfo] = useState<DocumentExtractionDebug[]>([]);
+  const [storedDocumentCount, setStoredDocumentCount] = useState(0);
   const [showResults, setShowResults] = useState(false);
   const [showTimeline, setShowTimeline] = useState(false);
   const [showDebug, setShowDebug] = useState(false);
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState<string>("");
-  const [formData, setFormData] = useState<FormData | null>(null);
+  const [jobId, setJobId] = useState<string | null>(null);
+  const [cancelledStages, setCancelledStages] = useState<string[] | null>(null);
+
+  // Re-attach to a job that was still known when the page was left
+  useEffect(() => {
+    const storedJobId = localStorage.getItem(ACTIVE_JOB_STORAGE_KEY);
+    if (!storedJobId) return;
+
+    fetch(`/api/jobs/${storedJobId}`)
+      .then((response) => {
+        if (!response.ok) {
+          localStorage.removeItem(ACTIVE_JOB_STORAGE_KEY);
+          return;
+        }
+        setJobId(storedJobId);
+        setShowTimeline(true);
+        setIsLoading(true);
+      })
+      .catch((error) => {
+        console.error("Error restoring job:", error);
+      });
+  }, []);
 
   const handleFormSubmit = async (data: {
-    questions: { question: string }[];
+    questions: { question: string; type: QueryTypeChoice }[];
     files: File[];
+    mode: AnalysisMode;
+    createChecklist: boolean;
+    outputLanguage: Language;
   }) => {
     setIsLoading(true);
     setError("");
+    setCancelledStages(null);
     setFileResults([]);
+    setPackageResult(null);
+    setTenderExtractions([]);
+    setDeadlines([]);
+    setChecklist(null);
     setDebugInfo([]);
     setShowResults(false);
     setShowDebug(false);
@@ -44,47 +107,87 @@ export default function Home() {
       // Add questions to form data
       data.questions.forEach((q, index) => {
         newFormData.append(`questions.${index}.question`, q.question);
+        if (q.type !== "auto") {
+          newFormData.append(`questions.${index}.type`, q.type);
+        }
       });
 
+      // Add analysis mode
+      newFormData.append("mode", data.mode);
+      newFormData.append("checklist", String(data.createChecklist));
+      newFormData.append("outputLanguage", data.outputLanguage);
+
       // Add files to form data
       data.files.forEach((file) => {
         newFormData.append("files", file);
       });
 
-      // Set form data and show timeline
-      setFormData(newFormData);
+      // Submit the job, then follow its progress in the timeline
+      const response = await fetch("/api/ingest", {
+        method: "POST",
+        body: newFormData,
+      });
+      const body = await response.json();
+
+      if (!response.ok) {
+        throw new Error(body.error || `HTTP error! status: ${response.status}`);
+      }
+
+      localStorage.setItem(ACTIVE_JOB_STORAGE_KEY, body.jobId);
+      setJobId(body.jobId);
       setShowTimeline(true);
     } catch (error) {
-      console.error("Error preparing form data:", error);
-      setError(
-        error instanceof Error ? error.message : "Failed to prepare form data"
-      );
+      console.error("Error submitting job:", error);
+      setError(error instanceof Error ? error.message : "Failed to submit job");
       setIsLoading(false);
     }
   };
 
-  const handleProgressComplete = (completedData: ProcessingResult) => {
-    setFileResults(completedData.fileResults || []);
-    setDebugInfo(completedData.debugInfo || []);
-    setShowResults(true);
+  const handleProgressComplete = useCallback(
+    (completedData: ProcessingResult) => {
+      setFileResults(completedData.fileResults || []);
+      setPackageResult(completedData.packageResult || null);
+      setTenderExtractions(completedData.tenderExtractions || []);
+      setDeadlines(completedData.deadlines || []);
+      setChecklist(completedData.checklist || null);
+      setResultStatus(completedData.status || "completed");
+      setDebugInfo(completedData.debugInfo || []);
+      setStoredDocumentCount(completedData.documentIds?.length ?? 0);
+      setShowResults(true);
+      setShowTimeline(false);
+      setIsLoading(false);
+    },
+    []
+  );
+
+  const handleProgressError = useCallback((errorMessage: string) => {
+    localStorage.removeItem(ACTIVE_JOB_STORAGE_KEY);
+    setError(errorMessage);
     setShowTimeline(false);
     setIsLoading(false);
-  };
+  }, []);
 
-  const handleProgressError = (errorMessage: string) => {
-    setError(errorMessage);
+  const handleProgressCancelled = useCallback((stages: string[]) => {
+    localStorage.removeItem(ACTIVE_JOB_STORAGE_KEY);
+    setCancelledStages(stages);
     setShowTimeline(false);
     setIsLoading(false);
-  };
+  }, []);
 
   const handleStartNew = () => {
     setFileResults([]);
+    setPackageResult(null);
+    setTenderExtractions([]);
+    setDeadlines([]);
+    setChecklist(null);
     setDebugInfo([]);
     setShowResults(false);
     setShowTimeline(false);
     setShowDebug(false);
     setError("");
-    setFormData(null);
+    setCancelledStages(null);
+    setJobId(null);
+    localStorage.removeItem(ACTIVE_JOB_STORAGE_KEY);
     setIsLoading(false);
   };
 
@@ -100,6 +203,15 @@ export default function Home() {
             <p className="text-lg text-gray-600">
               Upload PDF documents and get AI-powered answers to your questions
             </p>
+            <Button asChild variant="link" className="mt-2">
+              <Link
+                href="/ausschreibungen"
+                className="inline-flex items-center gap-2"
+              >
+                <Library className="h-4 w-4" />
+                Meine Ausschreibungen
+              </Link>
+            </Button>
           </div>
 
           {/* Error Alert */}
@@ -112,6 +224,20 @@ export default function Home() {
             </div>
           )}
 
+          {/* Cancellation Notice */}
+          {cancelledStages && (
+            <div className="mb-6 p-4 bg-yellow-50 border border-yellow-200 rounded-lg">
+              <div className="flex items-center">
+                <Ban className="h-4 w-4 text-yellow-600 mr-2" />
+                <div className="text-sm text-yellow-800">
+                  Verarbeitung abgebrochen.
+                  {cancelledStages.length > 0 &&
+                    ` Nicht abgeschlossen: ${cancelledStages.join(", ")}`}
+                </div>
+              </div>
+            </div>
+          )}
+
           {/* Upload Form */}
           {!showTimeline && !showResults && (
             <Card className="mb-8">
@@ -125,12 +251,13 @@ export default function Home() {
           )}
 
           {/* Processing Timeline */}
-          {showTimeline && formData && (
+          {showTimeline && jobId && (
             <div className="mb-8">
               <ProgressTimeline
-                formData={formData}
+                jobId={jobId}
                 onComplete={handleProgressComplete}
                 onError={handleProgressError}
+                onCancelled={handleProgressCancelled}
               />
             </div>
           )}
@@ -162,16 +289,69 @@ export default function Home() {
                 </div>
               </div>
 
-              <div className="mb-6 p-4 bg-green-50 border border-green-200 rounded-lg">
-                <div className="flex items-center">
-                  <CheckCircle className="h-4 w-4 text-green-600 mr-2" />
-                  <div className="text-sm text-green-800">
-                    Successfully processed and analyzed your documents!
+              {resultStatus === "time_limit_reached" ? (
+                <div className="mb-6 p-4 bg-yellow-50 border border-yellow-200 rounded-lg">
+                  <div className="flex items-center">
+                    <Clock className="h-4 w-4 text-yellow-600 mr-2" />
+                    <div className="text-sm text-yellow-800">
+                      Zeitlimit erreicht: Die Verarbeitung wurde vorzeitig
+                      beendet, die Ergebnisse sind unvollständig.
+                    </div>
                   </div>
                 </div>
-              </div>
+              ) : (
+                <div className="mb-6 p-4 bg-green-50 border border-green-200 rounded-lg">
+                  <div className="flex items-center">
+                    <CheckCircle className="h-4 w-4 text-green-600 mr-2" />
+                    <div className="text-sm text-green-800">
+                      Successfully processed and analyzed your documents!
+                      {storedDocumentCount > 0 &&
+                        ` ${storedDocumentCount} Dokument${
+                          storedDocumentCount === 1 ? " ist" : "e sind"
+                        } unter „Meine Ausschreibungen“ gespeichert.`}
+                    </div>
+                  </div>
+                </div>
+              )}
 
-              <ResultsDisplay fileResults={fileResults} />
+              {checklist && (
+                <div className="mb-8">
+                  <BidderChecklist
+                    checklist={checklist}
+                    storageKey={jobId ?? undefined}
+                  />
+                </div>
+              )}
+
+              {deadlines.length > 0 && (
+                <div className="mb-8">
+                  <DeadlineTimeline
+                    deadlines={deadlines}
+                    calendarUrl={
+                      jobId ? `/api/jobs/${jobId}/calendar` : undefined
+                    }
+                  />
+                </div>
+              )}
+
+              {tenderExtractions.length > 0 && (
+                <div className="mb-8 space-y-4">
+                  {tenderExtractions.map((tenderExtraction) => (
+                    <TenderProfileCard
+                      key={tenderExtraction.filename}
+                      tenderExtraction={tenderExtraction}
+                    />
+                  ))}
+                </div>
+              )}
+
+              {/* Checklist-only runs have no answers to show */}
+              {fileResults.some((file) => file.answers.length > 0) && (
+                <ResultsDisplay
+                  fileResults={fileResults}
+                  packageResult={packageResult}
+                />
+              )}
 
               {/* Debug Display */}
               {showDebug && debugInfo.length > 0 && (
@@ -181,7 +361,11 @@ export default function Home() {
                   </h3>
                   <DebugDisplay
                     debugInfo={debugInfo}
-                    results={fileResults.flatMap((file) => file.answers)}
+                    results={
+                      packageResult
+                        ? packageResult.answers
+                        : fileResults.flatMap((file) => file.answers)
+                    }
                   />
                 </div>
               )}
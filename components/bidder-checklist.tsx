@@ -0,0 +1,170 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { CalendarClock, FileText, ListChecks, Send } from "lucide-react";
+import type { ChecklistItem, ChecklistResult } from "@/lib/types";
+import { CHECKLIST_CATEGORY_LABELS } from "@/lib/tender-extraction";
+
+interface BidderChecklistProps {
+  checklist: ChecklistResult;
+  // Key under which the ticked items are remembered, e.g. the job ID
+  storageKey?: string;
+}
+
+function formatItemDeadline(item: ChecklistItem): string | null {
+  if (item.deadlineDateTime) {
+    return new Date(item.deadlineDateTime).toLocaleDateString("de-DE", {
+      dateStyle: "medium",
+      timeZone: "Europe/Berlin",
+    });
+  }
+  return item.deadline;
+}
+
+// Ticked item IDs, [] if nothing or something unreadable is stored
+function readCheckedIds(key: string): string[] {
+  try {
+    const stored: unknown = JSON.parse(localStorage.getItem(key) ?? "[]");
+    return Array.isArray(stored) && stored.every((id) => typeof id === "string")
+      ? stored
+      : [];
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * Checklist of everything the bidder must deliver or do, with tick-off state
+ */
+export function BidderChecklist({
+  checklist,
+  storageKey,
+}: BidderChecklistProps) {
+  const [checkedIds, setCheckedIds] = useState<string[]>([]);
+  const [mandatoryOnly, setMandatoryOnly] = useState(false);
+  const localStorageKey = storageKey
+    ? `tender-checklist-${storageKey}`
+    : undefined;
+
+  useEffect(() => {
+    if (!localStorageKey) return;
+    setCheckedIds(readCheckedIds(localStorageKey));
+  }, [localStorageKey]);
+
+  const toggleItem = (id: string) => {
+    const next = checkedIds.includes(id)
+      ? checkedIds.filter((checkedId) => checkedId !== id)
+      : [...checkedIds, id];
+    setCheckedIds(next);
+    if (localStorageKey) {
+      localStorage.setItem(localStorageKey, JSON.stringify(next));
+    }
+  };
+
+  const items = mandatoryOnly
+    ? checklist.items.filter((item) => item.mandatory)
+    : checklist.items;
+  const doneCount = checklist.items.filter((item) =>
+    checkedIds.includes(item.id)
+  ).length;
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <CardTitle className="flex items-center gap-2">
+            <ListChecks className="h-5 w-5" />
+            Checkliste für Bieter
+            <Badge variant="secondary" className="ml-2">
+              {doneCount} von {checklist.items.length} erledigt
+            </Badge>
+          </CardTitle>
+          <Button
+            variant={mandatoryOnly ? "default" : "outline"}
+            size="sm"
+            onClick={() => setMandatoryOnly(!mandatoryOnly)}
+          >
+            Nur Pflicht
+          </Button>
+        </div>
+        <p className="text-sm text-gray-500">
+          {checklist.filenames.join(", ")}
+        </p>
+      </CardHeader>
+      <CardContent>
+        {items.length === 0 ? (
+          <p className="text-sm text-gray-500">
+            Keine Anforderungen an Bieter gefunden
+          </p>
+        ) : (
+          <ul className="space-y-3">
+            {items.map((item) => {
+              const isChecked = checkedIds.includes(item.id);
+              const deadline = formatItemDeadline(item);
+
+              return (
+                <li key={item.id} className="border rounded-lg p-4">
+                  <label className="flex cursor-pointer items-start gap-3">
+                    <input
+                      type="checkbox"
+                      checked={isChecked}
+                      onChange={() => toggleItem(item.id)}
+                      className="mt-1 h-4 w-4"
+                    />
+                    <div className="flex-1">
+                      <div className="flex flex-wrap items-center gap-2">
+                        <span
+                          className={`font-medium ${
+                            isChecked ? "text-gray-400" : "text-gray-900"
+                          }`}
+                        >
+                          {item.title}
+                        </span>
+                        <Badge
+                          variant={item.mandatory ? "destructive" : "outline"}
+                        >
+                          {item.mandatory ? "Pflicht" : "Optional"}
+                        </Badge>
+                        <Badge variant="secondary">
+                          {CHECKLIST_CATEGORY_LABELS[item.category]}
+                        </Badge>
+                      </div>
+                      {item.description && (
+                        <p className="mt-1 text-sm text-gray-700">
+                          {item.description}
+                        </p>
+                      )}
+                      <div className="mt-2 flex flex-wrap gap-x-4 gap-y-1 text-xs text-gray-500">
+                        {deadline && (
+                          <span className="flex items-center gap-1">
+                            <CalendarClock className="h-3 w-3" />
+                            Frist: {deadline}
+                          </span>
+                        )}
+                        {item.channel && (
+                          <span className="flex items-center gap-1">
+                            <Send className="h-3 w-3" />
+                            {item.channel}
+                          </span>
+                        )}
+                        {item.sources.map((source, index) => (
+                          <span key={index} className="flex items-center gap-1">
+                            <FileText className="h-3 w-3" />
+                            {source.filename}, S. {source.pageStart}
+                          </span>
+                        ))}
+                      </div>
+                    </div>
+                  </label>
+                </li>
+              );
+            })}
+          </ul>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,239 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { BookOpen, Download, Loader2, Save, Upload } from "lucide-react";
+
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import type { CatalogueEntry, QueryType, QuestionCatalogue } from "@/lib/types";
+
+interface CataloguePickerProps {
+  // Adds the entries of the selected catalogues to the form
+  onLoad: (entries: CatalogueEntry[]) => void;
+  // Queries currently in the form, saved as a new catalogue
+  getCurrentQueries: () => { text: string; type?: QueryType }[];
+  disabled?: boolean;
+}
+
+/**
+ * Load, save, import and export question catalogues ("Fragenkataloge")
+ */
+export function CataloguePicker({
+  onLoad,
+  getCurrentQueries,
+  disabled = false,
+}: CataloguePickerProps) {
+  const [catalogues, setCatalogues] = useState<QuestionCatalogue[]>([]);
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+  const [newName, setNewName] = useState("");
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState("");
+
+  const loadCatalogues = useCallback(async () => {
+    setIsLoading(true);
+    setError("");
+
+    try {
+      const response = await fetch("/api/catalogues");
+      const body = await response.json();
+
+      if (!response.ok) {
+        throw new Error(body.error || `HTTP error! status: ${response.status}`);
+      }
+
+      setCatalogues(body.catalogues);
+    } catch (error) {
+      console.error("Error loading catalogues:", error);
+      setError("Die Fragenkataloge konnten nicht geladen werden.");
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadCatalogues();
+  }, [loadCatalogues]);
+
+  const toggleCatalogue = (catalogueId: string) => {
+    setSelectedIds((current) =>
+      current.includes(catalogueId)
+        ? current.filter((id) => id !== catalogueId)
+        : [...current, catalogueId]
+    );
+  };
+
+  const handleLoad = () => {
+    onLoad(
+      catalogues
+        .filter((catalogue) => selectedIds.includes(catalogue.id))
+        .flatMap((catalogue) => catalogue.entries)
+    );
+    setSelectedIds([]);
+  };
+
+  const postCatalogues = async (url: string, payload: unknown) => {
+    setIsSaving(true);
+    setError("");
+
+    try {
+      const response = await fetch(url, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(payload),
+      });
+      const body = await response.json();
+
+      if (!response.ok) {
+        throw new Error(body.error || `HTTP error! status: ${response.status}`);
+      }
+
+      await loadCatalogues();
+      return true;
+    } catch (error) {
+      console.error("Error saving catalogue:", error);
+      setError(
+        `Der Fragenkatalog konnte nicht gespeichert werden${
+          error instanceof Error ? `: ${error.message}` : "."
+        }`
+      );
+      return false;
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleSave = async () => {
+    const entries = getCurrentQueries().filter((query) => query.text.trim());
+    const saved = await postCatalogues("/api/catalogues", {
+      name: newName,
+      entries,
+    });
+    if (saved) {
+      setNewName("");
+    }
+  };
+
+  const handleImport = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = "";
+    if (!file) return;
+
+    try {
+      await postCatalogues(
+        "/api/catalogues/import",
+        JSON.parse(await file.text())
+      );
+    } catch (error) {
+      console.error("Error reading catalogue file:", error);
+      setError(`"${file.name}" ist keine gültige JSON-Datei.`);
+    }
+  };
+
+  return (
+    <div className="space-y-3 rounded-lg border p-4">
+      <div className="flex items-center justify-between">
+        <span className="flex items-center gap-2 text-sm font-medium">
+          <BookOpen className="h-4 w-4" />
+          Fragenkataloge
+        </span>
+        <Button variant="outline" size="sm" asChild>
+          <label className="flex cursor-pointer items-center gap-2">
+            <Upload className="h-4 w-4" />
+            Importieren
+            <input
+              type="file"
+              accept=".json,application/json"
+              onChange={handleImport}
+              disabled={disabled || isSaving}
+              className="hidden"
+            />
+          </label>
+        </Button>
+      </div>
+
+      {error && <p className="text-sm text-red-600">{error}</p>}
+
+      {isLoading ? (
+        <div className="flex items-center gap-2 text-sm text-gray-500">
+          <Loader2 className="h-4 w-4 animate-spin" />
+          Lade Fragenkataloge...
+        </div>
+      ) : catalogues.length === 0 ? (
+        <p className="text-sm text-gray-500">
+          Noch keine Fragenkataloge gespeichert.
+        </p>
+      ) : (
+        <>
+          <ul className="space-y-1">
+            {catalogues.map((catalogue) => (
+              <li
+                key={catalogue.id}
+                className="flex items-center justify-between gap-2"
+              >
+                <label className="flex flex-1 cursor-pointer items-center gap-3">
+                  <input
+                    type="checkbox"
+                    checked={selectedIds.includes(catalogue.id)}
+                    onChange={() => toggleCatalogue(catalogue.id)}
+                    disabled={disabled}
+                    className="h-4 w-4"
+                  />
+                  <span className="text-sm text-gray-900">
+                    {catalogue.name}
+                  </span>
+                  <span className="text-xs text-gray-500">
+                    {catalogue.entries.length} Fragen · Version{" "}
+                    {catalogue.version}
+                  </span>
+                </label>
+                <Button variant="ghost" size="sm" asChild>
+                  <a
+                    href={`/api/catalogues/${catalogue.id}/export`}
+                    download
+                    title="Exportieren"
+                  >
+                    <Download className="h-4 w-4" />
+                  </a>
+                </Button>
+              </li>
+            ))}
+          </ul>
+          <Button
+            type="button"
+            variant="outline"
+            size="sm"
+            onClick={handleLoad}
+            disabled={disabled || selectedIds.length === 0}
+          >
+            Ausgewählte laden
+          </Button>
+        </>
+      )}
+
+      <div className="flex items-center gap-2 border-t pt-3">
+        <Input
+          value={newName}
+          onChange={(event) => setNewName(event.target.value)}
+          placeholder="Name für neuen Katalog, z. B. Formale Prüfung"
+          disabled={disabled || isSaving}
+        />
+        <Button
+          type="button"
+          variant="outline"
+          size="sm"
+          onClick={handleSave}
+          disabled={disabled || isSaving || !newName.trim()}
+          className="flex items-center gap-2 whitespace-nowrap"
+        >
+          {isSaving ? (
+            <Loader2 className="h-4 w-4 animate-spin" />
+          ) : (
+            <Save className="h-4 w-4" />
+          )}
+          Fragen speichern
+        </Button>
+      </div>
+    </div>
+  );
+}
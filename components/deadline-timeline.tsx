@@ -0,0 +1,125 @@
+"use client";
+
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { CalendarClock, CalendarPlus, FileText } from "lucide-react";
+import type { Deadline } from "@/lib/types";
+import { DEADLINE_KIND_LABELS } from "@/lib/tender-extraction";
+
+interface DeadlineTimelineProps {
+  deadlines: Deadline[];
+  // Download URL of the .ics export, hidden when not available
+  calendarUrl?: string;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function formatDeadline(deadline: Deadline): string {
+  const date = new Date(deadline.dateTime!);
+  return deadline.allDay
+    ? date.toLocaleDateString("de-DE", {
+        dateStyle: "full",
+        timeZone: "Europe/Berlin",
+      })
+    : `${date.toLocaleString("de-DE", {
+        dateStyle: "full",
+        timeStyle: "short",
+        timeZone: "Europe/Berlin",
+      })} Uhr`;
+}
+
+function formatRemaining(dateTime: string): string {
+  const days = Math.ceil((Date.parse(dateTime) - Date.now()) / DAY_MS);
+  if (days < 0) return "abgelaufen";
+  if (days === 0) return "heute";
+  if (days === 1) return "morgen";
+  return `in ${days} Tagen`;
+}
+
+/**
+ * Chronological view of the deadlines found in the documents
+ */
+export function DeadlineTimeline({
+  deadlines,
+  calendarUrl,
+}: DeadlineTimelineProps) {
+  const hasDatedDeadlines = deadlines.some((deadline) => deadline.dateTime);
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <CardTitle className="flex items-center gap-2">
+            <CalendarClock className="h-5 w-5" />
+            Fristen ({deadlines.length})
+          </CardTitle>
+          {calendarUrl && hasDatedDeadlines && (
+            <Button asChild variant="outline" size="sm">
+              <a
+                href={calendarUrl}
+                download
+                className="flex items-center gap-2"
+              >
+                <CalendarPlus className="h-4 w-4" />
+                Kalender (.ics)
+              </a>
+            </Button>
+          )}
+        </div>
+      </CardHeader>
+      <CardContent>
+        <ol className="relative space-y-6 border-l border-gray-200 pl-6">
+          {deadlines.map((deadline, index) => {
+            const isPast =
+              !!deadline.dateTime && Date.parse(deadline.dateTime) < Date.now();
+
+            return (
+              <li key={index} className="relative">
+                <span
+                  className={`absolute -left-[31px] top-1 h-3 w-3 rounded-full border-2 border-white ${
+                    !deadline.dateTime
+                      ? "bg-gray-300"
+                      : isPast
+                      ? "bg-gray-400"
+                      : "bg-blue-600"
+                  }`}
+                />
+                <div className="flex flex-wrap items-center gap-2">
+                  <Badge variant={isPast ? "outline" : "secondary"}>
+                    {DEADLINE_KIND_LABELS[deadline.kind]}
+                  </Badge>
+                  <span className="text-sm font-medium text-gray-900">
+                    {deadline.label}
+                  </span>
+                </div>
+                <p
+                  className={`mt-1 text-sm ${
+                    isPast ? "text-gray-400" : "text-gray-700"
+                  }`}
+                >
+                  {deadline.dateTime
+                    ? formatDeadline(deadline)
+                    : `Datum unklar: ${deadline.sourceText}`}
+                  {deadline.dateTime && (
+                    <span className="ml-2 text-xs text-gray-500">
+                      ({formatRemaining(deadline.dateTime)})
+                    </span>
+                  )}
+                </p>
+                {deadline.location && (
+                  <p className="text-xs text-gray-500">{deadline.location}</p>
+                )}
+                <p className="mt-1 flex items-center gap-1 text-xs text-gray-400">
+                  <FileText className="h-3 w-3" />
+                  {deadline.filename}
+                  {deadline.page && `, S. ${deadline.page}`}
+                </p>
+              </li>
+            );
+          })}
+        </ol>
+      </CardContent>
+    </Card>
+  );
+}
@@ -12,12 +12,31 @@ import {
   Code,
   Database,
 } from "lucide-react";
+import { QUERY_TYPE_LABELS } from "@/components/query-type-select";
 import type {
+  ContextChunk,
+  ContextDropReason,
   QuestionAnswer,
   DocumentExtractionDebug,
+  Retriever,
+  RetrieverHit,
   VectorSearchResult,
 } from "@/lib/types";
 
+const RETRIEVER_LABELS: Record<Retriever, string> = {
+  vector: "Vector",
+  lexical: "Keyword",
+};
+
+const DROP_REASON_LABELS: Record<ContextDropReason, string> = {
+  low_score: "Below min score",
+  budget: "Over token budget",
+};
+
+function formatPages({ pageStart, pageEnd }: ContextChunk): string {
+  return pageStart === pageEnd ? `${pageStart}` : `${pageStart}–${pageEnd}`;
+}
+
 interface DebugDisplayProps {
   debugInfo: DocumentExtractionDebug[];
   results: QuestionAnswer[];
@@ -140,12 +159,13 @@ export function DebugDisplay({ debugInfo, results }: DebugDisplayProps) {
                 <div className="flex items-center justify-between mb-2">
                   <div className="flex items-center gap-2">
                     <Badge variant="outline">
-                      {result.type === "question" ? "Frage" : "Bedingung"}{" "}
-                      {index + 1}
+                      {QUERY_TYPE_LABELS[result.type]} {index + 1}
                     </Badge>
                     <Badge variant="secondary">
-                      {result.debugInfo?.relevantChunks?.length || 0} chunks
-                      used
+                      {result.debugInfo?.contextSelection?.selected.length ??
+                        result.debugInfo?.relevantChunks?.length ??
+                        0}{" "}
+                      chunks used
                     </Badge>
                     <Badge variant="secondary">
                       {(result.confidence * 100).toFixed(1)}% confidence
@@ -165,9 +185,7 @@ export function DebugDisplay({ debugInfo, results }: DebugDisplayProps) {
                 </div>
 
                 <div className="mb-2">
-                  <strong>
-                    {result.type === "question" ? "Frage" : "Bedingung"}:
-                  </strong>{" "}
+                  <strong>{QUERY_TYPE_LABELS[result.type]}:</strong>{" "}
                   {result.query}
                 </div>
 
@@ -202,11 +220,71 @@ export function DebugDisplay({ debugInfo, results }: DebugDisplayProps) {
                       </div>
                     </div>
 
+                    {/* Chunks chosen for and dropped from the prompt */}
+                    {result.debugInfo.contextSelection && (
+                      <div>
+                        <h4 className="font-medium mb-2 flex items-center gap-2">
+                          <Database className="h-4 w-4" />
+                          Context Selection (reranker:{" "}
+                          {result.debugInfo.contextSelection.reranker},{" "}
+                          {result.debugInfo.contextSelection.tokensUsed}/
+                          {result.debugInfo.contextSelection.tokenBudget}{" "}
+                          tokens)
+                        </h4>
+                        <div className="space-y-1">
+                          {[
+                            ...result.debugInfo.contextSelection.selected,
+                            ...result.debugInfo.contextSelection.dropped,
+                          ].map((chunk: ContextChunk) => (
+                            <div
+                              key={chunk.id}
+                              className={`flex items-center justify-between border rounded px-3 py-1 text-xs ${
+                                chunk.dropReason ? "bg-gray-50" : "bg-blue-50"
+                              }`}
+                            >
+                              <span>
+                                {chunk.filename} (Page {formatPages(chunk)}) ·{" "}
+                                {chunk.id}
+                              </span>
+                              <div className="flex items-center gap-1">
+                                {chunk.mergedInto && (
+                                  <Badge
+                                    variant="secondary"
+                                    className="text-xs"
+                                  >
+                                    Merged into {chunk.mergedInto}
+                                  </Badge>
+                                )}
+                                <Badge
+                                  variant={
+                                    chunk.dropReason ? "outline" : "secondary"
+                                  }
+                                  className="text-xs"
+                                >
+                                  {chunk.dropReason
+                                    ? DROP_REASON_LABELS[chunk.dropReason]
+                                    : "Selected"}
+                                </Badge>
+                                <Badge variant="outline" className="text-xs">
+                                  Rerank: {(chunk.rerankScore * 100).toFixed(1)}
+                                  %
+                                </Badge>
+                                <Badge variant="outline" className="text-xs">
+                                  ~{chunk.tokens} tokens
+                                </Badge>
+                              </div>
+                            </div>
+                          ))}
+                        </div>
+                      </div>
+                    )}
+
                     {/* Relevant chunks with scores */}
                     <div>
                       <h4 className="font-medium mb-2 flex items-center gap-2">
                         <Database className="h-4 w-4" />
-                        Relevant Chunks Found (by similarity)
+                        Relevant Chunks Found (vector + keyword ranking,
+                        reranked)
                       </h4>
                       <div className="space-y-2">
                         {result.debugInfo.relevantChunks.map(
@@ -219,11 +297,53 @@ export function DebugDisplay({ debugInfo, results }: DebugDisplayProps) {
                                 <div className="text-xs text-green-600">
                                   Chunk from{" "}
                                   {chunk.metadata?.filename || "Unknown"}
-                                  (Page {chunk.metadata?.page || "Unknown"})
+                                  (Page{" "}
+                                  {chunk.metadata?.pageStart ===
+                                  chunk.metadata?.pageEnd
+                                    ? chunk.metadata?.pageStart
+                                    : `${chunk.metadata?.pageStart}–${chunk.metadata?.pageEnd}`}
+                                  )
+                                </div>
+                                <div className="flex items-center gap-1">
+                                  {chunk.metadata?.tags?.map((tag) => (
+                                    <Badge
+                                      key={tag}
+                                      variant="outline"
+                                      className="text-xs"
+                                    >
+                                      {tag}
+                                    </Badge>
+                                  ))}
+                                  {(
+                                    Object.entries(chunk.retrievers ?? {}) as [
+                                      Retriever,
+                                      RetrieverHit
+                                    ][]
+                                  ).map(([retriever, hit]) => (
+                                    <Badge
+                                      key={retriever}
+                                      variant="secondary"
+                                      className="text-xs"
+                                      title={`${
+                                        RETRIEVER_LABELS[retriever]
+                                      } score: ${hit.score.toFixed(3)}`}
+                                    >
+                                      {RETRIEVER_LABELS[retriever]} #{hit.rank}
+                                    </Badge>
+                                  ))}
+                                  <Badge variant="outline" className="text-xs">
+                                    Score: {(chunk.score * 100).toFixed(1)}%
+                                  </Badge>
+                                  {chunk.rerankScore !== undefined && (
+                                    <Badge
+                                      variant="outline"
+                                      className="text-xs"
+                                    >
+                                      Rerank:{" "}
+                                      {(chunk.rerankScore * 100).toFixed(1)}%
+                                    </Badge>
+                                  )}
                                 </div>
-                                <Badge variant="outline" className="text-xs">
-                                  Score: {(chunk.score * 100).toFixed(1)}%
-                                </Badge>
                               </div>
                               <div className="text-sm whitespace-pre-wrap">
                                 {chunk.metadata?.text || "No text available"}
@@ -0,0 +1,192 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { FileText, Loader2, RefreshCw, Trash2 } from "lucide-react";
+
+import { Button } from "@/components/ui/button";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { LANGUAGE_NAMES } from "@/lib/language";
+import type { StoredDocument } from "@/lib/types";
+
+interface DocumentLibraryProps {
+  selectedIds: string[];
+  onSelectionChange: (selectedIds: string[]) => void;
+}
+
+function formatDate(timestamp: number): string {
+  return new Date(timestamp).toLocaleString("de-DE", {
+    dateStyle: "medium",
+    timeStyle: "short",
+  });
+}
+
+export function DocumentLibrary({
+  selectedIds,
+  onSelectionChange,
+}: DocumentLibraryProps) {
+  const [documents, setDocuments] = useState<StoredDocument[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [deletingId, setDeletingId] = useState<string | null>(null);
+  const [error, setError] = useState("");
+
+  const loadDocuments = useCallback(async () => {
+    setIsLoading(true);
+    setError("");
+
+    try {
+      const response = await fetch("/api/documents");
+      const body = await response.json();
+
+      if (!response.ok) {
+        throw new Error(body.error || `HTTP error! status: ${response.status}`);
+      }
+
+      setDocuments(body.documents);
+    } catch (error) {
+      console.error("Error loading documents:", error);
+      setError(
+        "Die gespeicherten Ausschreibungen konnten nicht geladen werden."
+      );
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadDocuments();
+  }, [loadDocuments]);
+
+  const toggleDocument = (documentId: string) => {
+    onSelectionChange(
+      selectedIds.includes(documentId)
+        ? selectedIds.filter((id) => id !== documentId)
+        : [...selectedIds, documentId]
+    );
+  };
+
+  const handleDelete = async (document: StoredDocument) => {
+    if (
+      !window.confirm(
+        `"${document.filename}" und alle zugehörigen Daten löschen?`
+      )
+    ) {
+      return;
+    }
+
+    setDeletingId(document.id);
+    try {
+      const response = await fetch(`/api/documents/${document.id}`, {
+        method: "DELETE",
+      });
+
+      if (!response.ok) {
+        throw new Error(`HTTP error! status: ${response.status}`);
+      }
+
+      setDocuments((current) =>
+        current.filter((entry) => entry.id !== document.id)
+      );
+      onSelectionChange(selectedIds.filter((id) => id !== document.id));
+    } catch (error) {
+      console.error("Error deleting document:", error);
+      setError(`"${document.filename}" konnte nicht gelöscht werden.`);
+    } finally {
+      setDeletingId(null);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <div>
+            <CardTitle className="flex items-center gap-2">
+              <FileText className="h-5 w-5" />
+              Gespeicherte Dokumente
+            </CardTitle>
+            <CardDescription>
+              Wählen Sie die Dokumente aus, zu denen Sie neue Fragen stellen
+              möchten.
+            </CardDescription>
+          </div>
+          <Button
+            type="button"
+            variant="outline"
+            size="sm"
+            onClick={loadDocuments}
+            disabled={isLoading}
+            className="flex items-center gap-2"
+          >
+            <RefreshCw className="h-4 w-4" />
+            Aktualisieren
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent>
+        {error && <p className="mb-4 text-sm text-red-600">{error}</p>}
+
+        {isLoading ? (
+          <div className="flex items-center gap-2 text-sm text-gray-500">
+            <Loader2 className="h-4 w-4 animate-spin" />
+            Lade Dokumente...
+          </div>
+        ) : documents.length === 0 ? (
+          <p className="text-sm text-gray-500">
+            Noch keine Ausschreibungen gespeichert. Analysierte Dokumente
+            erscheinen hier automatisch.
+          </p>
+        ) : (
+          <ul className="divide-y divide-gray-200">
+            {documents.map((document) => (
+              <li
+                key={document.id}
+                className="flex items-center justify-between gap-4 py-3"
+              >
+                <label className="flex flex-1 cursor-pointer items-center gap-3">
+                  <input
+                    type="checkbox"
+                    checked={selectedIds.includes(document.id)}
+                    onChange={() => toggleDocument(document.id)}
+                    className="h-4 w-4"
+                  />
+                  <div>
+                    <p className="text-sm font-medium text-gray-900">
+                      {document.filename}
+                    </p>
+                    <p className="text-xs text-gray-500">
+                      {(document.size / 1024 / 1024).toFixed(2)} MB ·{" "}
+                      {document.language &&
+                        `${LANGUAGE_NAMES[document.language]} · `}
+                      {document.paragraphCount} Abschnitte · zuletzt verwendet{" "}
+                      {formatDate(document.lastUsedAt)}
+                    </p>
+                  </div>
+                </label>
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => handleDelete(document)}
+                  disabled={deletingId === document.id}
+                  className="text-red-600 hover:text-red-700 hover:bg-red-50"
+                >
+                  {deletingId === document.id ? (
+                    <Loader2 className="h-4 w-4 animate-spin" />
+                  ) : (
+                    <Trash2 className="h-4 w-4" />
+                  )}
+                </Button>
+              </li>
+            ))}
+          </ul>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
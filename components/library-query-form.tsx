@@ -0,0 +1,218 @@
+"use client";
+
+import { useFieldArray, useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { z } from "zod";
+import { Plus, Trash2, Files, Layers, MessageSquare } from "lucide-react";
+
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import {
+  Form,
+  FormControl,
+  FormField,
+  FormItem,
+  FormMessage,
+} from "@/components/ui/form";
+import { QueryTypeSelect } from "@/components/query-type-select";
+import { OutputLanguageSelect } from "@/components/output-language-select";
+
+// Form schema
+const formSchema = z.object({
+  questions: z
+    .array(
+      z.object({
+        question: z.string().min(1, "Frage ist erforderlich"),
+        type: z.enum([
+          "auto",
+          "question",
+          "condition",
+          "date",
+          "amount",
+          "list",
+          "yes_no",
+        ]),
+      })
+    )
+    .min(1, "Mindestens eine Frage oder Bedingung ist erforderlich"),
+  mode: z.enum(["package", "per_file"]),
+  outputLanguage: z.enum(["de", "en", "fr"]),
+});
+
+type FormData = z.infer<typeof formSchema>;
+
+interface LibraryQueryFormProps {
+  onSubmit: (data: FormData) => Promise<void>;
+  selectedCount: number;
+  isLoading?: boolean;
+}
+
+export function LibraryQueryForm({
+  onSubmit,
+  selectedCount,
+  isLoading = false,
+}: LibraryQueryFormProps) {
+  const form = useForm<FormData>({
+    resolver: zodResolver(formSchema),
+    defaultValues: {
+      questions: [{ question: "", type: "auto" }],
+      mode: "package",
+      outputLanguage: "de",
+    },
+  });
+
+  const mode = form.watch("mode");
+
+  const { fields, append, remove } = useFieldArray({
+    control: form.control,
+    name: "questions",
+  });
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <MessageSquare className="h-5 w-5" />
+          Neue Fragen stellen
+        </CardTitle>
+        <CardDescription>
+          Die ausgewählten Dokumente werden nicht erneut hochgeladen oder
+          extrahiert.
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-6">
+            {/* Questions Section */}
+            <div className="space-y-4">
+              <div className="flex items-center justify-between">
+                <Label className="text-base font-medium">
+                  Fragen & Bedingungen
+                </Label>
+                <Button
+                  type="button"
+                  variant="outline"
+                  size="sm"
+                  onClick={() => append({ question: "", type: "auto" })}
+                  className="flex items-center gap-2"
+                >
+                  <Plus className="h-4 w-4" />
+                  Hinzufügen
+                </Button>
+              </div>
+
+              <div className="space-y-3">
+                {fields.map((field, index) => (
+                  <div key={field.id} className="flex items-center gap-2">
+                    <FormField
+                      control={form.control}
+                      name={`questions.${index}.question`}
+                      render={({ field }) => (
+                        <FormItem className="flex-1">
+                          <FormControl>
+                            <Input
+                              placeholder={`Frage oder Bedingung ${
+                                index + 1
+                              }...`}
+                              {...field}
+                              className="flex-1"
+                            />
+                          </FormControl>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+                    <FormField
+                      control={form.control}
+                      name={`questions.${index}.type`}
+                      render={({ field }) => (
+                        <QueryTypeSelect
+                          value={field.value}
+                          onChange={field.onChange}
+                          disabled={isLoading}
+                        />
+                      )}
+                    />
+                    {fields.length > 1 && (
+                      <Button
+                        type="button"
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => remove(index)}
+                        className="text-red-600 hover:text-red-700 hover:bg-red-50"
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    )}
+                  </div>
+                ))}
+              </div>
+            </div>
+
+            {/* Analysis Mode Section */}
+            <div className="space-y-2">
+              <Label className="text-base font-medium">Auswertung</Label>
+              <div className="grid grid-cols-2 gap-2">
+                <Button
+                  type="button"
+                  variant={mode === "package" ? "default" : "outline"}
+                  onClick={() => form.setValue("mode", "package")}
+                  className="flex items-center gap-2"
+                >
+                  <Layers className="h-4 w-4" />
+                  Gesamtes Paket
+                </Button>
+                <Button
+                  type="button"
+                  variant={mode === "per_file" ? "default" : "outline"}
+                  onClick={() => form.setValue("mode", "per_file")}
+                  className="flex items-center gap-2"
+                >
+                  <Files className="h-4 w-4" />
+                  Je Datei
+                </Button>
+              </div>
+            </div>
+
+            {/* Output Language Section */}
+            <FormField
+              control={form.control}
+              name="outputLanguage"
+              render={({ field }) => (
+                <OutputLanguageSelect
+                  value={field.value}
+                  onChange={field.onChange}
+                  disabled={isLoading}
+                />
+              )}
+            />
+
+            {/* Submit Button */}
+            <Button
+              type="submit"
+              disabled={isLoading || selectedCount === 0}
+              className="w-full"
+              size="lg"
+            >
+              {isLoading
+                ? "Verarbeitung..."
+                : selectedCount === 0
+                ? "Bitte Dokumente auswählen"
+                : `${selectedCount} Dokument${
+                    selectedCount === 1 ? "" : "e"
+                  } abfragen`}
+            </Button>
+          </form>
+        </Form>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,45 @@
+"use client";
+
+import { Label } from "@/components/ui/label";
+import { LANGUAGE_NAMES, SUPPORTED_LANGUAGES } from "@/lib/language";
+import type { Language } from "@/lib/types";
+
+interface OutputLanguageSelectProps {
+  value: Language;
+  onChange: (value: Language) => void;
+  disabled?: boolean;
+}
+
+/**
+ * Language the answers are written in, independent of the documents
+ */
+export function OutputLanguageSelect({
+  value,
+  onChange,
+  disabled = false,
+}: OutputLanguageSelectProps) {
+  return (
+    <div className="space-y-2">
+      <Label htmlFor="output-language" className="text-base font-medium">
+        Antwortsprache
+      </Label>
+      <select
+        id="output-language"
+        value={value}
+        onChange={(event) => onChange(event.target.value as Language)}
+        disabled={disabled}
+        className="border-input h-9 w-full rounded-md border bg-transparent px-2 text-sm shadow-xs outline-none focus-visible:border-ring focus-visible:ring-[3px] focus-visible:ring-ring/50 disabled:opacity-50"
+      >
+        {SUPPORTED_LANGUAGES.map((language) => (
+          <option key={language} value={language}>
+            {LANGUAGE_NAMES[language]}
+          </option>
+        ))}
+      </select>
+      <p className="text-xs text-gray-500">
+        Die Dokumente können in einer anderen Sprache verfasst sein; Zitate
+        bleiben in der Originalsprache.
+      </p>
+    </div>
+  );
+}
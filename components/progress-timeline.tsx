@@ -3,6 +3,7 @@
 import { useState, useEffect, useRef } from "react";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
 import {
   CheckCircle,
   Circle,
@@ -13,26 +14,21 @@ import {
   Database,
   MessageSquare,
   Trash2,
+  Ban,
+  RotateCw,
+  Zap,
+  Archive,
+  ListChecks,
 } from "lucide-react";
-import type { ProcessingResult } from "@/lib/types";
-
-interface ProgressEvent {
-  type: "progress" | "completion" | "error";
-  step: string;
-  message: string;
-  filename?: string;
-  chunkId?: string;
-  currentStep: number;
-  totalSteps: number;
-  timestamp: number;
-  results?: ProcessingResult;
-  error?: string;
-}
+import type { ProcessingResult, ProgressUpdate } from "@/lib/types";
+
+type ProgressEvent = ProgressUpdate;
 
 interface ProgressTimelineProps {
-  formData: FormData;
+  jobId: string;
   onComplete: (results: ProcessingResult) => void;
   onError: (error: string) => void;
+  onCancelled: (cancelledStages: string[]) => void;
 }
 
 function getStepIcon(step: string, isCompleted: boolean, isError: boolean) {
@@ -47,14 +43,21 @@ function getStepIcon(step: string, isCompleted: boolean, isError: boolean) {
     processing_file: <FileText className="h-4 w-4 text-blue-500" />,
     processing: <Loader2 className="h-4 w-4 text-blue-500 animate-spin" />,
     embedding_prep: <Database className="h-4 w-4 text-blue-500" />,
+    cache_hit: <Zap className="h-4 w-4 text-green-500" />,
     chunk_processed: <CheckCircle className="h-4 w-4 text-green-500" />,
     embeddings_ready: <Database className="h-4 w-4 text-green-500" />,
     storing_embeddings: <Database className="h-4 w-4 text-blue-500" />,
     embeddings_stored: <Database className="h-4 w-4 text-green-500" />,
+    document_reused: <Archive className="h-4 w-4 text-green-500" />,
+    document_stored: <Archive className="h-4 w-4 text-green-500" />,
     answering: <MessageSquare className="h-4 w-4 text-blue-500" />,
     question_answered: <CheckCircle className="h-4 w-4 text-green-500" />,
+    checklist_created: <ListChecks className="h-4 w-4 text-green-500" />,
     cleaning_up: <Trash2 className="h-4 w-4 text-yellow-500" />,
     completed: <CheckCircle className="h-4 w-4 text-green-500" />,
+    cancelled: <Ban className="h-4 w-4 text-yellow-600" />,
+    retrying: <RotateCw className="h-4 w-4 text-yellow-600" />,
+    time_limit: <Clock className="h-4 w-4 text-yellow-600" />,
     error: <AlertCircle className="h-4 w-4 text-red-500" />,
   };
 
@@ -70,20 +73,22 @@ function formatTimestamp(timestamp: number): string {
 }
 
 export function ProgressTimeline({
-  formData,
+  jobId,
   onComplete,
   onError,
+  onCancelled,
 }: ProgressTimelineProps) {
   const [events, setEvents] = useState<ProgressEvent[]>([]);
   const [isProcessing, setIsProcessing] = useState(false);
   const [isCompleted, setIsCompleted] = useState(false);
+  const [isCancelling, setIsCancelling] = useState(false);
   const [currentStep, setCurrentStep] = useState(0);
   const [totalSteps, setTotalSteps] = useState(0);
   const eventsEndRef = useRef<HTMLDivElement>(null);
   const abortControllerRef = useRef<AbortController | null>(null);
 
   useEffect(() => {
-    if (!formData) return;
+    if (!jobId) return;
 
     const startProcessing = async () => {
       setIsProcessing(true);
@@ -96,11 +101,10 @@ export function ProgressTimeline({
       abortControllerRef.current = new AbortController();
 
       try {
-        console.log("Starting processing with streaming...");
+        console.log(`Attaching to job ${jobId}...`);
 
-        const response = await fetch("/api/ingest", {
-          method: "POST",
-          body: formData,
+        // Replays all events so far, so a reload re-attaches seamlessly
+        const response = await fetch(`/api/jobs/${jobId}/events`, {
           signal: abortControllerRef.current.signal,
         });
 
@@ -146,11 +150,20 @@ export function ProgressTimeline({
                   setIsCompleted(true);
                   setIsProcessing(false);
                   onComplete(
-                    event.results || { fileResults: [], debugInfo: [] }
+                    event.results || {
+                      status: "completed",
+                      mode: "package",
+                      fileResults: [],
+                      debugInfo: [],
+                    }
                   );
                 } else if (event.type === "error") {
                   setIsProcessing(false);
                   onError(event.error || "Processing failed");
+                } else if (event.type === "cancelled") {
+                  setIsProcessing(false);
+                  setIsCancelling(false);
+                  onCancelled(event.cancelledStages || []);
                 }
               } catch (error) {
                 console.error("Error parsing event:", error, "Line:", line);
@@ -175,13 +188,31 @@ export function ProgressTimeline({
     startProcessing();
 
     return () => {
-      // Clean up abort controller if it exists
+      // Detach from the event stream; the job keeps running on the server
       if (abortControllerRef.current) {
-        // abortControllerRef.current.abort();
+        abortControllerRef.current.abort();
         abortControllerRef.current = null;
       }
     };
-  }, [formData, onComplete, onError]);
+  }, [jobId, onComplete, onError, onCancelled]);
+
+  // Ask the server to stop the job; the stream then reports "cancelled"
+  const handleCancel = async () => {
+    setIsCancelling(true);
+
+    try {
+      const response = await fetch(`/api/jobs/${jobId}/cancel`, {
+        method: "POST",
+      });
+
+      if (!response.ok) {
+        throw new Error(`HTTP error! status: ${response.status}`);
+      }
+    } catch (error) {
+      console.error("Error cancelling job:", error);
+      setIsCancelling(false);
+    }
+  };
 
   // Auto-scroll to latest event
   useEffect(() => {
@@ -194,6 +225,7 @@ export function ProgressTimeline({
         <CardTitle className="flex items-center gap-2">
           <Clock className="h-5 w-5" />
           Processing Timeline
+          <span className="text-xs font-normal text-gray-400">{jobId}</span>
           {isProcessing && (
             <Badge variant="outline" className="ml-2">
               <div className="h-2 w-2 bg-green-500 rounded-full mr-2 animate-pulse"></div>
@@ -206,6 +238,22 @@ export function ProgressTimeline({
               Completed
             </Badge>
           )}
+          {isProcessing && (
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={handleCancel}
+              disabled={isCancelling}
+              className="ml-auto flex items-center gap-2 text-red-600 hover:text-red-700 hover:bg-red-50"
+            >
+              {isCancelling ? (
+                <Loader2 className="h-4 w-4 animate-spin" />
+              ) : (
+                <Ban className="h-4 w-4" />
+              )}
+              {isCancelling ? "Wird abgebrochen..." : "Abbrechen"}
+            </Button>
+          )}
         </CardTitle>
       </CardHeader>
 
@@ -268,6 +316,21 @@ export function ProgressTimeline({
                         </div>
                       )}
 
+                    {event.type === "cancelled" &&
+                      event.cancelledStages &&
+                      event.cancelledStages.length > 0 && (
+                        <div className="mt-2 p-2 bg-yellow-50 border border-yellow-200 rounded">
+                          <p className="text-sm text-yellow-800 mb-1">
+                            Abgebrochene Schritte:
+                          </p>
+                          <ul className="text-sm text-yellow-800 list-disc list-inside">
+                            {event.cancelledStages.map((stage) => (
+                              <li key={stage}>{stage}</li>
+                            ))}
+                          </ul>
+                        </div>
+                      )}
+
                     {event.type === "error" && event.error && (
                       <div className="mt-2 p-2 bg-red-50 border border-red-200 rounded">
                         <p className="text-sm text-red-800">{event.error}</p>
@@ -0,0 +1,56 @@
+"use client";
+
+import type { QueryType } from "@/lib/types";
+
+// "auto" lets the server detect the type from the wording
+export type QueryTypeChoice = QueryType | "auto";
+
+export const QUERY_TYPE_LABELS: Record<QueryType, string> = {
+  question: "Frage",
+  condition: "Bedingung",
+  date: "Datum",
+  amount: "Betrag",
+  list: "Liste",
+  yes_no: "Ja/Nein",
+};
+
+export const QUERY_TYPE_CHOICES: QueryTypeChoice[] = [
+  "auto",
+  "question",
+  "condition",
+  "yes_no",
+  "date",
+  "amount",
+  "list",
+];
+
+interface QueryTypeSelectProps {
+  value: QueryTypeChoice;
+  onChange: (value: QueryTypeChoice) => void;
+  disabled?: boolean;
+}
+
+/**
+ * Per-row selector for the type of a query
+ */
+export function QueryTypeSelect({
+  value,
+  onChange,
+  disabled = false,
+}: QueryTypeSelectProps) {
+  return (
+    <select
+      value={value}
+      onChange={(event) => onChange(event.target.value as QueryTypeChoice)}
+      disabled={disabled}
+      aria-label="Typ"
+      className="border-input h-9 w-32 rounded-md border bg-transparent px-2 text-sm shadow-xs outline-none focus-visible:border-ring focus-visible:ring-[3px] focus-visible:ring-ring/50 disabled:opacity-50"
+    >
+      {QUERY_TYPE_CHOICES.map((choice) => (
+        <option key={choice} value={choice}>
+          {choice === "auto" ? "Automatisch" : QUERY_TYPE_LABELS[choice]}
+        </option>
+      ))}
+    </select>
+  );
+}
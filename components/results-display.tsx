@@ -1,5 +1,6 @@
 "use client";
 
+import { useState } from "react";
 import { Badge } from "@/components/ui/badge";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import {
@@ -9,11 +10,25 @@ import {
   X,
   AlertCircle,
   File,
+  Layers,
 } from "lucide-react";
-import type { FileResult } from "@/lib/types";
+import { Button } from "@/components/ui/button";
+import { QUERY_TYPE_LABELS } from "@/components/query-type-select";
+import { LANGUAGE_NAMES } from "@/lib/language";
+import type {
+  ComparisonOperator,
+  FileResult,
+  PackageResult,
+  QuestionAnswer,
+  SourceReference,
+  VerdictCertainty,
+  VerdictComparison,
+  VerdictResult,
+} from "@/lib/types";
 
 interface ResultsDisplayProps {
   fileResults: FileResult[];
+  packageResult?: PackageResult | null;
 }
 
 function getConfidenceColor(confidence: number): string {
@@ -28,37 +43,270 @@ function getConfidenceLabel(confidence: number): string {
   return "Niedrig";
 }
 
-function parseConditionResult(answer: string): {
-  result: "WAHR" | "FALSCH" | "UNBEKANNT";
-  explanation: string;
-} {
-  const upperAnswer = answer.toUpperCase();
-
-  if (upperAnswer.startsWith("WAHR")) {
-    return {
-      result: "WAHR",
-      explanation: answer.substring(answer.indexOf(":") + 1).trim(),
-    };
-  } else if (upperAnswer.startsWith("FALSCH")) {
-    return {
-      result: "FALSCH",
-      explanation: answer.substring(answer.indexOf(":") + 1).trim(),
-    };
-  } else if (upperAnswer.startsWith("UNBEKANNT")) {
-    return {
-      result: "UNBEKANNT",
-      explanation: answer.substring(answer.indexOf(":") + 1).trim(),
-    };
+const VERDICT_LABELS: Record<VerdictResult, string> = {
+  true: "WAHR",
+  false: "FALSCH",
+  unknown: "UNBEKANNT",
+};
+
+// Yes/no questions read better as "Ja"/"Nein" than as true/false
+const YES_NO_LABELS: Record<VerdictResult, string> = {
+  true: "JA",
+  false: "NEIN",
+  unknown: "UNKLAR",
+};
+
+const CERTAINTY_LABELS: Record<VerdictCertainty, string> = {
+  high: "hoch",
+  medium: "mittel",
+  low: "niedrig",
+};
+
+const COMPARISON_LABELS: Record<ComparisonOperator, string> = {
+  before: "vor",
+  after: "nach",
+  on_or_before: "spätestens",
+  on_or_after: "frühestens",
+  greater: "über",
+  less: "unter",
+  at_least: "mindestens",
+  at_most: "höchstens",
+};
+
+function isVerdictAnswer(answer: QuestionAnswer): boolean {
+  return answer.type === "condition" || answer.type === "yes_no";
+}
+
+// Answers without a verdict (errors, time limit) count as unknown
+function getVerdictResult(answer: QuestionAnswer): VerdictResult {
+  return answer.verdict?.result ?? "unknown";
+}
+
+function formatPageRange({ pageStart, pageEnd }: SourceReference): string {
+  return pageStart === pageEnd
+    ? `S. ${pageStart}`
+    : `S. ${pageStart}–${pageEnd}`;
+}
+
+function SourceBadges({ sources }: { sources: SourceReference[] }) {
+  if (sources.length === 0) return null;
+
+  return (
+    <div className="flex flex-wrap items-center gap-1 mt-3">
+      <span className="text-xs text-gray-500 mr-1">Quellen:</span>
+      {sources.map((source, index) => (
+        <Badge key={index} variant="secondary" className="text-xs">
+          <FileText className="h-3 w-3" />
+          {source.filename} · {formatPageRange(source)}
+        </Badge>
+      ))}
+    </div>
+  );
+}
+
+function formatComparedValue(value: string | number): string {
+  if (typeof value === "number") {
+    return `${value.toLocaleString("de-DE")} EUR`;
   }
+  // ISO dates and date-times are shown in German notation
+  return value.includes("T")
+    ? `${new Date(value).toLocaleString("de-DE", {
+        dateStyle: "medium",
+        timeStyle: "short",
+        timeZone: "Europe/Berlin",
+      })} Uhr`
+    : new Date(`${value}T00:00:00Z`).toLocaleDateString("de-DE", {
+        dateStyle: "medium",
+        timeZone: "UTC",
+      });
+}
 
-  return {
-    result: "UNBEKANNT",
-    explanation: answer,
-  };
+// Extracted value a deterministic verdict was computed from
+function ComparisonDetails({ comparison }: { comparison: VerdictComparison }) {
+  return (
+    <div className="mt-3 rounded-lg border border-blue-100 bg-blue-50 p-3 text-sm text-blue-900">
+      <p>
+        <span className="font-medium">Verglichen:</span> {comparison.subject} ={" "}
+        {formatComparedValue(comparison.extractedValue)} (
+        {COMPARISON_LABELS[comparison.operator]}{" "}
+        {formatComparedValue(comparison.referenceValue)})
+      </p>
+      <p className="text-xs text-blue-700">
+        Quelle: {comparison.filename}
+        {comparison.page && `, S. ${comparison.page}`} · „
+        {comparison.extractedText}“ · ohne KI aus den extrahierten Daten
+        berechnet
+      </p>
+    </div>
+  );
 }
 
-export function ResultsDisplay({ fileResults }: ResultsDisplayProps) {
-  if (fileResults.length === 0) {
+function AnswerList({ answers }: { answers: QuestionAnswer[] }) {
+  const questions = answers.filter((r) => !isVerdictAnswer(r));
+  const conditions = answers.filter(isVerdictAnswer);
+
+  if (answers.length === 0) {
+    return (
+      <p className="text-sm text-gray-500">
+        Keine Antworten aus diesem Dokument
+      </p>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      {/* Questions */}
+      {questions.length > 0 && (
+        <div>
+          <h4 className="flex items-center gap-2 font-medium mb-4">
+            <HelpCircle className="h-4 w-4" />
+            Fragen ({questions.length})
+          </h4>
+          <div className="space-y-3">
+            {questions.map((result, index) => (
+              <div key={index} className="border rounded-lg p-4">
+                <div className="flex items-start justify-between mb-3">
+                  <div className="flex-1">
+                    <h5 className="font-medium text-gray-900 mb-2">
+                      {result.query}
+                    </h5>
+                    <div className="flex items-center gap-2 mb-2">
+                      {result.type !== "question" && (
+                        <Badge variant="secondary">
+                          {QUERY_TYPE_LABELS[result.type]}
+                        </Badge>
+                      )}
+                      <Badge
+                        variant="outline"
+                        className={getConfidenceColor(result.confidence)}
+                      >
+                        Vertrauen: {getConfidenceLabel(result.confidence)} (
+                        {(result.confidence * 100).toFixed(1)}%)
+                      </Badge>
+                    </div>
+                  </div>
+                </div>
+
+                <div className="bg-gray-50 rounded-lg p-3">
+                  <p className="text-sm text-gray-700 whitespace-pre-wrap">
+                    {result.answer}
+                  </p>
+                </div>
+
+                <SourceBadges sources={result.sources} />
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {/* Conditions */}
+      {conditions.length > 0 && (
+        <div>
+          <h4 className="flex items-center gap-2 font-medium mb-4">
+            <Check className="h-4 w-4" />
+            Bedingungen und Ja/Nein-Fragen ({conditions.length})
+          </h4>
+          <div className="space-y-3">
+            {conditions.map((result, index) => {
+              const verdictResult = getVerdictResult(result);
+              return (
+                <div key={index} className="border rounded-lg p-4">
+                  <div className="flex items-start justify-between mb-3">
+                    <div className="flex-1">
+                      <h5 className="font-medium text-gray-900 mb-2">
+                        {result.query}
+                      </h5>
+                      <div className="flex items-center gap-2 mb-2">
+                        <Badge
+                          variant="outline"
+                          className={
+                            verdictResult === "true"
+                              ? "bg-green-100 text-green-800"
+                              : verdictResult === "false"
+                              ? "bg-red-100 text-red-800"
+                              : "bg-gray-100 text-gray-800"
+                          }
+                        >
+                          {verdictResult === "true" && (
+                            <Check className="h-3 w-3 mr-1" />
+                          )}
+                          {verdictResult === "false" && (
+                            <X className="h-3 w-3 mr-1" />
+                          )}
+                          {verdictResult === "unknown" && (
+                            <AlertCircle className="h-3 w-3 mr-1" />
+                          )}
+                          {result.type === "yes_no"
+                            ? YES_NO_LABELS[verdictResult]
+                            : VERDICT_LABELS[verdictResult]}
+                        </Badge>
+                        {result.verdict && (
+                          <Badge variant="outline">
+                            Sicherheit:{" "}
+                            {CERTAINTY_LABELS[result.verdict.certainty]}
+                          </Badge>
+                        )}
+                        <Badge
+                          variant="outline"
+                          className={getConfidenceColor(result.confidence)}
+                        >
+                          Vertrauen: {getConfidenceLabel(result.confidence)} (
+                          {(result.confidence * 100).toFixed(1)}%)
+                        </Badge>
+                      </div>
+                    </div>
+                  </div>
+
+                  {result.answer && (
+                    <div className="bg-gray-50 rounded-lg p-3">
+                      <p className="text-sm text-gray-700 whitespace-pre-wrap">
+                        {result.answer}
+                      </p>
+                    </div>
+                  )}
+
+                  {result.verdict?.comparison && (
+                    <ComparisonDetails comparison={result.verdict.comparison} />
+                  )}
+
+                  {result.verdict && result.verdict.evidence.length > 0 && (
+                    <div className="mt-3 space-y-2">
+                      <span className="text-xs text-gray-500">Belege:</span>
+                      {result.verdict.evidence.map(
+                        (evidence, evidenceIndex) => (
+                          <blockquote
+                            key={evidenceIndex}
+                            className="border-l-2 border-gray-300 pl-3 text-sm italic text-gray-700"
+                          >
+                            „{evidence.quote}“
+                            <span className="ml-2 not-italic text-xs text-gray-500">
+                              {evidence.filename} · {formatPageRange(evidence)}
+                            </span>
+                          </blockquote>
+                        )
+                      )}
+                    </div>
+                  )}
+
+                  <SourceBadges sources={result.sources} />
+                </div>
+              );
+            })}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
+
+export function ResultsDisplay({
+  fileResults,
+  packageResult,
+}: ResultsDisplayProps) {
+  const [view, setView] = useState<"package" | "per_file">("package");
+
+  if (fileResults.length === 0 && !packageResult) {
     return (
       <Card>
         <CardContent className="text-center py-8">
@@ -68,16 +316,19 @@ export function ResultsDisplay({ fileResults }: ResultsDisplayProps) {
     );
   }
 
-  // Calculate summary stats across all files
-  const allAnswers = fileResults.flatMap((file) => file.answers);
-  const allQuestions = allAnswers.filter((r) => r.type === "question");
-  const allConditions = allAnswers.filter((r) => r.type === "condition");
+  // Calculate summary stats across all files (or once for the package)
+  const allAnswers = packageResult
+    ? packageResult.answers
+    : fileResults.flatMap((file) => file.answers);
+  const allQuestions = allAnswers.filter((r) => !isVerdictAnswer(r));
+  const allConditions = allAnswers.filter(isVerdictAnswer);
   const conditionsTrueCount = allConditions.filter(
-    (c) => parseConditionResult(c.answer).result === "WAHR"
+    (c) => getVerdictResult(c) === "true"
   ).length;
   const conditionsFalseCount = allConditions.filter(
-    (c) => parseConditionResult(c.answer).result === "FALSCH"
+    (c) => getVerdictResult(c) === "false"
   ).length;
+  const showPackage = packageResult && view === "package";
 
   return (
     <div className="space-y-6">
@@ -118,16 +369,66 @@ export function ResultsDisplay({ fileResults }: ResultsDisplayProps) {
         </CardContent>
       </Card>
 
+      {/* View toggle (only for package results) */}
+      {packageResult && (
+        <div className="flex items-center gap-2">
+          <Button
+            variant={view === "package" ? "default" : "outline"}
+            size="sm"
+            onClick={() => setView("package")}
+            className="flex items-center gap-2"
+          >
+            <Layers className="h-4 w-4" />
+            Gesamtpaket
+          </Button>
+          <Button
+            variant={view === "per_file" ? "default" : "outline"}
+            size="sm"
+            onClick={() => setView("per_file")}
+            className="flex items-center gap-2"
+          >
+            <File className="h-4 w-4" />
+            Je Datei
+          </Button>
+        </div>
+      )}
+
+      {/* Consolidated package checklist */}
+      {showPackage && (
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <Layers className="h-5 w-5" />
+              Vergabepaket
+              <Badge variant="secondary" className="ml-2">
+                {packageResult.filenames.length} Dateien
+              </Badge>
+              <Badge variant="secondary">
+                {packageResult.answers.length} Antworten
+              </Badge>
+            </CardTitle>
+            <p className="text-sm text-gray-500">
+              {packageResult.filenames
+                .map((filename) => {
+                  const language = fileResults.find(
+                    (fileResult) => fileResult.filename === filename
+                  )?.language;
+                  return language
+                    ? `${filename} (${LANGUAGE_NAMES[language]})`
+                    : filename;
+                })
+                .join(", ")}
+            </p>
+          </CardHeader>
+          <CardContent>
+            <AnswerList answers={packageResult.answers} />
+          </CardContent>
+        </Card>
+      )}
+
       {/* File Results */}
-      {fileResults.map((fileResult, fileIndex) => {
-        const questions = fileResult.answers.filter(
-          (r) => r.type === "question"
-        );
-        const conditions = fileResult.answers.filter(
-          (r) => r.type === "condition"
-        );
-
-        return (
+      {!showPackage &&
+        fileResults.map((fileResult, fileIndex) => (
           <Card key={fileIndex}>
             <CardHeader>
               <CardTitle className="flex items-center gap-2">
@@ -136,124 +437,18 @@ export function ResultsDisplay({ fileResults }: ResultsDisplayProps) {
                 <Badge variant="secondary" className="ml-2">
                   {fileResult.answers.length} Antworten
                 </Badge>
+                {fileResult.language && (
+                  <Badge variant="outline">
+                    {LANGUAGE_NAMES[fileResult.language]}
+                  </Badge>
+                )}
               </CardTitle>
             </CardHeader>
             <CardContent>
-              <div className="space-y-6">
-                {/* Questions for this file */}
-                {questions.length > 0 && (
-                  <div>
-                    <h4 className="flex items-center gap-2 font-medium mb-4">
-                      <HelpCircle className="h-4 w-4" />
-                      Fragen ({questions.length})
-                    </h4>
-                    <div className="space-y-3">
-                      {questions.map((result, index) => (
-                        <div key={index} className="border rounded-lg p-4">
-                          <div className="flex items-start justify-between mb-3">
-                            <div className="flex-1">
-                              <h5 className="font-medium text-gray-900 mb-2">
-                                {result.query}
-                              </h5>
-                              <div className="flex items-center gap-2 mb-2">
-                                <Badge
-                                  variant="outline"
-                                  className={getConfidenceColor(
-                                    result.confidence
-                                  )}
-                                >
-                                  Vertrauen:{" "}
-                                  {getConfidenceLabel(result.confidence)} (
-                                  {(result.confidence * 100).toFixed(1)}%)
-                                </Badge>
-                              </div>
-                            </div>
-                          </div>
-
-                          <div className="bg-gray-50 rounded-lg p-3">
-                            <p className="text-sm text-gray-700 whitespace-pre-wrap">
-                              {result.answer}
-                            </p>
-                          </div>
-                        </div>
-                      ))}
-                    </div>
-                  </div>
-                )}
-
-                {/* Conditions for this file */}
-                {conditions.length > 0 && (
-                  <div>
-                    <h4 className="flex items-center gap-2 font-medium mb-4">
-                      <Check className="h-4 w-4" />
-                      Bedingungen ({conditions.length})
-                    </h4>
-                    <div className="space-y-3">
-                      {conditions.map((result, index) => {
-                        const conditionResult = parseConditionResult(
-                          result.answer
-                        );
-                        return (
-                          <div key={index} className="border rounded-lg p-4">
-                            <div className="flex items-start justify-between mb-3">
-                              <div className="flex-1">
-                                <h5 className="font-medium text-gray-900 mb-2">
-                                  {result.query}
-                                </h5>
-                                <div className="flex items-center gap-2 mb-2">
-                                  <Badge
-                                    variant="outline"
-                                    className={
-                                      conditionResult.result === "WAHR"
-                                        ? "bg-green-100 text-green-800"
-                                        : conditionResult.result === "FALSCH"
-                                        ? "bg-red-100 text-red-800"
-                                        : "bg-gray-100 text-gray-800"
-                                    }
-                                  >
-                                    {conditionResult.result === "WAHR" && (
-                                      <Check className="h-3 w-3 mr-1" />
-                                    )}
-                                    {conditionResult.result === "FALSCH" && (
-                                      <X className="h-3 w-3 mr-1" />
-                                    )}
-                                    {conditionResult.result === "UNBEKANNT" && (
-                                      <AlertCircle className="h-3 w-3 mr-1" />
-                                    )}
-                                    {conditionResult.result}
-                                  </Badge>
-                                  <Badge
-                                    variant="outline"
-                                    className={getConfidenceColor(
-                                      result.confidence
-                                    )}
-                                  >
-                                    Vertrauen:{" "}
-                                    {getConfidenceLabel(result.confidence)} (
-                                    {(result.confidence * 100).toFixed(1)}%)
-                                  </Badge>
-                                </div>
-                              </div>
-                            </div>
-
-                            {conditionResult.explanation && (
-                              <div className="bg-gray-50 rounded-lg p-3">
-                                <p className="text-sm text-gray-700 whitespace-pre-wrap">
-                                  {conditionResult.explanation}
-                                </p>
-                              </div>
-                            )}
-                          </div>
-                        );
-                      })}
-                    </div>
-                  </div>
-                )}
-              </div>
+              <AnswerList answers={fileResult.answers} />
             </CardContent>
           </Card>
-        );
-      })}
+        ))}
     </div>
   );
 }
@@ -0,0 +1,210 @@
+"use client";
+
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  Award,
+  Building2,
+  Calendar,
+  ClipboardList,
+  FileText,
+  Send,
+  User,
+} from "lucide-react";
+import type { FileTenderExtraction } from "@/lib/types";
+import type { TenderContact } from "@/lib/tender-extraction";
+
+interface TenderProfileCardProps {
+  tenderExtraction: FileTenderExtraction;
+}
+
+function PageHint({ page }: { page: number | null }) {
+  if (!page) return null;
+  return <span className="ml-1 text-xs text-gray-400">(S. {page})</span>;
+}
+
+function Field({
+  label,
+  value,
+  page = null,
+}: {
+  label: string;
+  value: string | null;
+  page?: number | null;
+}) {
+  return (
+    <div>
+      <dt className="text-xs font-medium uppercase text-gray-500">{label}</dt>
+      <dd className="text-sm text-gray-900">
+        {value ?? <span className="text-gray-400">Keine Angabe</span>}
+        <PageHint page={page} />
+      </dd>
+    </div>
+  );
+}
+
+function formatContact(contact: TenderContact): string {
+  return [
+    contact.name,
+    contact.organization,
+    contact.address,
+    contact.email,
+    contact.phone,
+  ]
+    .filter(Boolean)
+    .join(", ");
+}
+
+function formatAmount(amount: number, currency: string | null): string {
+  return `${amount.toLocaleString("de-DE")} ${currency ?? "EUR"}`;
+}
+
+/**
+ * "Steckbrief" with the structured facts extracted from one document
+ */
+export function TenderProfileCard({
+  tenderExtraction,
+}: TenderProfileCardProps) {
+  const { filename, extraction } = tenderExtraction;
+  const estimatedValue = extraction.estimatedValue;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <ClipboardList className="h-5 w-5" />
+          Steckbrief: {extraction.title ?? filename}
+        </CardTitle>
+        <p className="flex items-center gap-1 text-sm text-gray-500">
+          <FileText className="h-4 w-4" />
+          {filename}
+        </p>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <dl className="grid gap-4 md:grid-cols-2">
+          <Field label="Aktenzeichen" value={extraction.referenceNumber} />
+          <Field
+            label="Geschätzter Auftragswert"
+            value={
+              estimatedValue
+                ? estimatedValue.amount !== null
+                  ? formatAmount(estimatedValue.amount, estimatedValue.currency)
+                  : estimatedValue.text
+                : null
+            }
+            page={estimatedValue?.page}
+          />
+          <Field label="Laufzeit" value={extraction.duration} />
+          <Field label="Einreichungsform" value={extraction.submissionForm} />
+          <div className="md:col-span-2">
+            <Field label="Leistungsumfang" value={extraction.scope} />
+          </div>
+        </dl>
+
+        {/* Contracting authority and contacts */}
+        <div className="space-y-2">
+          <h4 className="flex items-center gap-2 font-medium">
+            <Building2 className="h-4 w-4" />
+            Auftraggeber & Vergabestelle
+          </h4>
+          {extraction.contractingAuthority ? (
+            <p className="text-sm text-gray-900">
+              {formatContact(extraction.contractingAuthority)}
+              <PageHint page={extraction.contractingAuthority.page} />
+            </p>
+          ) : (
+            <p className="text-sm text-gray-400">Keine Angabe</p>
+          )}
+          {extraction.contacts.length > 0 && (
+            <ul className="space-y-1">
+              {extraction.contacts.map((contact, index) => (
+                <li
+                  key={index}
+                  className="flex items-start gap-2 text-sm text-gray-700"
+                >
+                  <User className="mt-0.5 h-4 w-4 text-gray-400" />
+                  <span>
+                    {contact.role && (
+                      <span className="font-medium">{contact.role}: </span>
+                    )}
+                    {formatContact(contact)}
+                    <PageHint page={contact.page} />
+                  </span>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+
+        {/* Deadlines */}
+        <div className="space-y-2">
+          <h4 className="flex items-center gap-2 font-medium">
+            <Calendar className="h-4 w-4" />
+            Fristen ({extraction.deadlines.length})
+          </h4>
+          {extraction.deadlines.length > 0 ? (
+            <ul className="space-y-1">
+              {extraction.deadlines.map((deadline, index) => (
+                <li key={index} className="text-sm text-gray-700">
+                  <span className="font-medium">{deadline.label}:</span>{" "}
+                  {deadline.date}
+                  {deadline.location && ` (${deadline.location})`}
+                  <PageHint page={deadline.page} />
+                </li>
+              ))}
+            </ul>
+          ) : (
+            <p className="text-sm text-gray-400">Keine Fristen gefunden</p>
+          )}
+        </div>
+
+        {/* Award criteria */}
+        <div className="space-y-2">
+          <h4 className="flex items-center gap-2 font-medium">
+            <Award className="h-4 w-4" />
+            Zuschlagskriterien
+          </h4>
+          {extraction.awardCriteria.length > 0 ? (
+            <div className="flex flex-wrap gap-2">
+              {extraction.awardCriteria.map((criterion, index) => (
+                <Badge key={index} variant="outline">
+                  {criterion.criterion}
+                  {criterion.weightPercent !== null &&
+                    ` · ${criterion.weightPercent} %`}
+                </Badge>
+              ))}
+            </div>
+          ) : (
+            <p className="text-sm text-gray-400">Keine Angabe</p>
+          )}
+        </div>
+
+        {/* Required evidence */}
+        <div className="space-y-2">
+          <h4 className="flex items-center gap-2 font-medium">
+            <Send className="h-4 w-4" />
+            Geforderte Nachweise ({extraction.requiredEvidence.length})
+          </h4>
+          {extraction.requiredEvidence.length > 0 ? (
+            <ul className="list-disc space-y-1 pl-5">
+              {extraction.requiredEvidence.map((evidence, index) => (
+                <li key={index} className="text-sm text-gray-700">
+                  {evidence.name}
+                  {evidence.description && (
+                    <span className="text-gray-500">
+                      {" "}
+                      – {evidence.description}
+                    </span>
+                  )}
+                  <PageHint page={evidence.page} />
+                </li>
+              ))}
+            </ul>
+          ) : (
+            <p className="text-sm text-gray-400">Keine Angabe</p>
+          )}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
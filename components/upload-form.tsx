@@ -3,7 +3,15 @@
 import { useFieldArray, useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { z } from "zod";
-import { Plus, Trash2, Upload, FileText } from "lucide-react";
+import {
+  Plus,
+  Trash2,
+  Upload,
+  FileText,
+  Files,
+  Layers,
+  ListChecks,
+} from "lucide-react";
 import { useState } from "react";
 
 import { Button } from "@/components/ui/button";
@@ -23,23 +31,43 @@ import {
   FormItem,
   FormMessage,
 } from "@/components/ui/form";
+import { QueryTypeSelect } from "@/components/query-type-select";
+import { CataloguePicker } from "@/components/catalogue-picker";
+import { OutputLanguageSelect } from "@/components/output-language-select";
+import type { CatalogueEntry } from "@/lib/types";
 
 // Form schema
-const formSchema = z.object({
-  questions: z
-    .array(
+const formSchema = z
+  .object({
+    questions: z.array(
       z.object({
         question: z.string().min(1, "Frage ist erforderlich"),
+        type: z.enum([
+          "auto",
+          "question",
+          "condition",
+          "date",
+          "amount",
+          "list",
+          "yes_no",
+        ]),
       })
-    )
-    .min(1, "Mindestens eine Frage oder Bedingung ist erforderlich"),
-  files: z
-    .any()
-    .refine(
-      (files) => files?.length > 0,
-      "Mindestens eine PDF-Datei ist erforderlich"
     ),
-});
+    files: z
+      .any()
+      .refine(
+        (files) => files?.length > 0,
+        "Mindestens eine PDF-Datei ist erforderlich"
+      ),
+    mode: z.enum(["package", "per_file"]),
+    createChecklist: z.boolean(),
+    outputLanguage: z.enum(["de", "en", "fr"]),
+  })
+  // Questions are optional when a checklist is generated
+  .refine((data) => data.createChecklist || data.questions.length > 0, {
+    message: "Mindestens eine Frage oder Bedingung ist erforderlich",
+    path: ["questions"],
+  });
 
 type FormData = z.infer<typeof formSchema>;
 
@@ -58,18 +86,26 @@ export function UploadForm({ onSubmit, isLoading = false }: UploadFormProps) {
         {
           question:
             "In welcher Form sind die Angebote/Teilnahmeanträge einzureichen?",
+          type: "auto",
         },
         {
           question: "Wann ist die Frist für die Einreichung von Bieterfragen?",
+          type: "auto",
         },
-        { question: "Ist die Abgabefrist vor dem 31.12.2025?" },
-        { question: "Sind elektronische Einreichungen erlaubt?" },
+        { question: "Ist die Abgabefrist vor dem 31.12.2025?", type: "auto" },
+        { question: "Sind elektronische Einreichungen erlaubt?", type: "auto" },
       ],
       files: undefined,
+      mode: "package",
+      createChecklist: true,
+      outputLanguage: "de",
     },
   });
 
-  const { fields, append, remove } = useFieldArray({
+  const mode = form.watch("mode");
+  const createChecklist = form.watch("createChecklist");
+
+  const { fields, append, remove, replace } = useFieldArray({
     control: form.control,
     name: "questions",
   });
@@ -88,6 +124,24 @@ export function UploadForm({ onSubmit, isLoading = false }: UploadFormProps) {
     }
   };
 
+  // Catalogue entries are added after the filled rows, skipping duplicates
+  const handleCatalogueLoad = (entries: CatalogueEntry[]) => {
+    const current = form
+      .getValues("questions")
+      .filter((row) => row.question.trim());
+    const known = new Set(current.map((row) => row.question.trim()));
+    const added = entries
+      .filter((entry) => !known.has(entry.text))
+      .map((entry) => ({ question: entry.text, type: entry.type }));
+    replace([...current, ...added]);
+  };
+
+  const getCurrentQueries = () =>
+    form.getValues("questions").map((row) => ({
+      text: row.question,
+      type: row.type === "auto" ? undefined : row.type,
+    }));
+
   const handleSubmit = async (data: FormData) => {
     try {
       await onSubmit({
@@ -128,7 +182,7 @@ export function UploadForm({ onSubmit, isLoading = false }: UploadFormProps) {
                   type="button"
                   variant="outline"
                   size="sm"
-                  onClick={() => append({ question: "" })}
+                  onClick={() => append({ question: "", type: "auto" })}
                   className="flex items-center gap-2"
                 >
                   <Plus className="h-4 w-4" />
@@ -136,6 +190,12 @@ export function UploadForm({ onSubmit, isLoading = false }: UploadFormProps) {
                 </Button>
               </div>
 
+              <CataloguePicker
+                onLoad={handleCatalogueLoad}
+                getCurrentQueries={getCurrentQueries}
+                disabled={isLoading}
+              />
+
               <div className="space-y-3">
                 {fields.map((field, index) => (
                   <div key={field.id} className="flex items-center gap-2">
@@ -157,7 +217,18 @@ export function UploadForm({ onSubmit, isLoading = false }: UploadFormProps) {
                         </FormItem>
                       )}
                     />
-                    {fields.length > 1 && (
+                    <FormField
+                      control={form.control}
+                      name={`questions.${index}.type`}
+                      render={({ field }) => (
+                        <QueryTypeSelect
+                          value={field.value}
+                          onChange={field.onChange}
+                          disabled={isLoading}
+                        />
+                      )}
+                    />
+                    {(fields.length > 1 || createChecklist) && (
                       <Button
                         type="button"
                         variant="ghost"
@@ -171,8 +242,77 @@ export function UploadForm({ onSubmit, isLoading = false }: UploadFormProps) {
                   </div>
                 ))}
               </div>
+
+              {form.formState.errors.questions?.message && (
+                <p className="text-sm text-red-600">
+                  {form.formState.errors.questions.message}
+                </p>
+              )}
             </div>
 
+            {/* Checklist Section */}
+            <div className="space-y-2">
+              <Button
+                type="button"
+                variant={createChecklist ? "default" : "outline"}
+                onClick={() =>
+                  form.setValue("createChecklist", !createChecklist)
+                }
+                className="flex w-full items-center gap-2"
+              >
+                <ListChecks className="h-4 w-4" />
+                Checkliste erstellen
+              </Button>
+              <p className="text-xs text-gray-500">
+                {createChecklist
+                  ? "Aus allen Dokumenten wird eine vollständige Liste der Unterlagen und Schritte für Bieter erstellt; Fragen sind dann optional."
+                  : "Es werden nur die Fragen und Bedingungen beantwortet."}
+              </p>
+            </div>
+
+            {/* Analysis Mode Section */}
+            <div className="space-y-2">
+              <Label className="text-base font-medium">Auswertung</Label>
+              <div className="grid grid-cols-2 gap-2">
+                <Button
+                  type="button"
+                  variant={mode === "package" ? "default" : "outline"}
+                  onClick={() => form.setValue("mode", "package")}
+                  className="flex items-center gap-2"
+                >
+                  <Layers className="h-4 w-4" />
+                  Gesamtes Paket
+                </Button>
+                <Button
+                  type="button"
+                  variant={mode === "per_file" ? "default" : "outline"}
+                  onClick={() => form.setValue("mode", "per_file")}
+                  className="flex items-center gap-2"
+                >
+                  <Files className="h-4 w-4" />
+                  Je Datei
+                </Button>
+              </div>
+              <p className="text-xs text-gray-500">
+                {mode === "package"
+                  ? "Alle Dateien werden als ein Vergabepaket ausgewertet, jede Frage wird einmal über alle Dokumente beantwortet."
+                  : "Jede Frage wird für jede Datei separat beantwortet."}
+              </p>
+            </div>
+
+            {/* Output Language Section */}
+            <FormField
+              control={form.control}
+              name="outputLanguage"
+              render={({ field }) => (
+                <OutputLanguageSelect
+                  value={field.value}
+                  onChange={field.onChange}
+                  disabled={isLoading}
+                />
+              )}
+            />
+
             {/* File Upload Section */}
             <div className="space-y-4">
               <Label className="text-base font-medium">PDF-Dokumente</Label>
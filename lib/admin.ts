@@ -0,0 +1,20 @@
+import { timingSafeEqual } from "crypto";
+
+/**
+ * Check the bearer token of an admin request against ADMIN_API_TOKEN.
+ * Admin endpoints stay disabled while the variable is not set.
+ */
+export function isAdminRequest(request: Request): boolean {
+  const adminToken = process.env.ADMIN_API_TOKEN;
+  if (!adminToken) return false;
+
+  const header = request.headers.get("authorization") ?? "";
+  const match = header.match(/^Bearer\s+(.+)$/i);
+  if (!match) return false;
+
+  const expected = Buffer.from(adminToken);
+  const provided = Buffer.from(match[1].trim());
+  return (
+    expected.length === provided.length && timingSafeEqual(expected, provided)
+  );
+}
@@ -1,212 +1,429 @@
-import Anthropic from "@anthropic-ai/sdk";
-import type { DocumentChunk } from "./types";
+import { z } from "zod";
+import type {
+  CallOptions,
+  ChunkExtraction,
+  ConditionVerdict,
+  DocumentChunk,
+  EvidenceQuote,
+  Language,
+  QueryType,
+  VectorSearchResult,
+} from "./types";
+import { rethrowIfCancelled, throwIfCancelled } from "./cancellation";
+import { withRetry } from "./retry";
+import { getLlmProvider, type LlmTool } from "./llm-provider";
+import { expectsVerdict } from "./query-classifier";
+import { isLanguage } from "./language";
+import { getLanguagePack, type LanguagePack } from "./language-packs";
+import {
+  getTenderExtractionJsonSchema,
+  parseTenderExtraction,
+} from "./tender-extraction";
 import config from "./config";
 
-// Initialize Anthropic client
-const anthropic = new Anthropic({
-  apiKey: process.env.ANTHROPIC_API_KEY!,
-});
-
 // Get configuration
 const aiConfig = config.getAiConfig();
+const rerankingConfig = config.getRerankingConfig();
+
+// Bump whenever the extraction prompt or the cached paragraphs change so
+// cached extractions expire
+export const EXTRACTION_PROMPT_VERSION = "7";
+
+// Answer text plus the typed verdict for conditions
+export interface QueryAnswer {
+  answer: string;
+  verdict?: ConditionVerdict;
+}
 
 /**
- * Check if input is a condition (evaluates to true/false)
+ * JSON schema of a zod schema for a tool definition
  */
-function isCondition(input: string): boolean {
-  const conditionKeywords = aiConfig.claude.conditionKeywords;
-
-  return conditionKeywords.some((keyword) =>
-    input.toLowerCase().includes(keyword)
-  );
+function getToolInputSchema(schema: z.ZodType): LlmTool["inputSchema"] {
+  const jsonSchema = { ...z.toJSONSchema(schema) };
+  delete jsonSchema.$schema;
+  return jsonSchema as LlmTool["inputSchema"];
 }
 
+// Tool Claude must call with the extraction of a chunk
+const EXTRACTION_TOOL_NAME = "record_tender_extraction";
+
+const extractionToolInputSchema = z.object({
+  text: z.string(),
+  data: z.unknown(),
+  language: z.string().optional(),
+});
+
 /**
- * Process a PDF chunk with Claude to extract structured content
+ * Process a PDF chunk with the LLM provider to extract structured content,
+ * prompted in the given language. Returns the tagged text used for
+ * embeddings and the typed extraction.
  */
 export async function processChunkWithClaude(
   pdfBase64: string,
-  chunk: DocumentChunk
-): Promise<string> {
+  chunk: DocumentChunk,
+  promptLanguage: Language,
+  options: CallOptions = {}
+): Promise<ChunkExtraction> {
   try {
-    const chunkInfo =
-      chunk.metadata.totalChunks > 1
-        ? ` (Chunk ${chunk.metadata.chunkIndex + 1} von ${
-            chunk.metadata.totalChunks
-          })`
-        : "";
-
-    const response = await anthropic.messages.create({
-      model: aiConfig.claude.model,
-      max_tokens: aiConfig.claude.maxTokensExtraction,
-      messages: [
-        {
-          content: [
-            {
-              type: "document",
-              source: {
-                media_type: "application/pdf",
-                type: "base64",
-                data: pdfBase64,
-              },
-              cache_control: { type: "ephemeral" },
+    throwIfCancelled(options.signal);
+
+    const { pageStart, pageEnd } = chunk.metadata;
+    const prompt = getLanguagePack(promptLanguage).prompts.extraction(
+      pageStart,
+      pageEnd,
+      chunk.metadata.chunkIndex + 1,
+      chunk.metadata.totalChunks,
+      EXTRACTION_TOOL_NAME
+    );
+
+    const llm = getLlmProvider();
+    const toolInput = await withRetry(
+      () =>
+        llm.callTool(
+          {
+            task: {
+              kind: "extraction",
+              filename: chunk.metadata.filename,
+              pageStart,
+              pageEnd,
             },
-            {
-              type: "text",
-              text: `Extrahieren Sie ALLE wichtigen Informationen aus diesem deutschen Ausschreibungsdokument${chunkInfo}. Strukturieren Sie die Informationen klar und vollständig:
-
-**KRITISCHE INFORMATIONEN** (immer explizit angeben):
-- Titel der Ausschreibung
-- Referenznummer/Aktenzeichen
-- Auftraggeber (Name, Adresse, Kontakt)
-- Vergabestelle und Ansprechpartner
-- Leistungsumfang und Beschreibung
-- Geschätzter Auftragswert
-- Laufzeit/Vertragsdauer
-
-**FRISTEN UND TERMINE** (alle Daten vollständig):
-- Abgabefrist für Angebote (Datum, Uhrzeit, Ort)
-- Frist für Bieterfragen/Rückfragen
-- Angebotseröffnung (Datum, Uhrzeit, Ort)
-- Zuschlagstermin
-- Leistungsbeginn
-- Einwendungsfristen
-
-**FORMALE ANFORDERUNGEN** (präzise Details):
-- Einreichungsform (elektronisch/schriftlich)
-- Anzahl der Exemplare
-- Formatvorgaben
-- Erforderliche Unterlagen und Nachweise
-- Sprache der Angebote
-- Gültigkeitsdauer der Angebote
-
-**BEWERTUNG UND ZUSCHLAG**:
-- Zuschlagskriterien
-- Gewichtung der Kriterien
-- Bewertungsverfahren
-- Eignungsprüfung
-- Mindestanforderungen
-
-**TECHNISCHE SPEZIFIKATIONEN**:
-- Detaillierte Leistungsbeschreibung
-- Technische Anforderungen
-- Qualitätsstandards
-- Abnahmekriterien
-
-**VERTRAGLICHE BEDINGUNGEN**:
-- Zahlungsmodalitäten
-- Gewährleistung
-- Vertragsstrafen
-- Kündigungsregelungen
-
-Verwenden Sie eine klare, strukturierte Formatierung mit Überschriften und Aufzählungen. Bewahren Sie alle spezifischen Details, Zahlen, Daten und Kontaktinformationen exakt bei. Wenn Informationen fehlen, geben Sie dies explizit an.
-
-${
-  chunk.metadata.totalChunks > 1
-    ? `
-**HINWEIS**: Dies ist Teil ${chunk.metadata.chunkIndex + 1} von ${
-        chunk.metadata.totalChunks
-      }. Extrahieren Sie alle verfügbaren Informationen aus diesem Abschnitt und kennzeichnen Sie fehlende Informationen mit "[Siehe andere Dokumentteile]".`
-    : ""
-}`,
+            prompt,
+            pdfBase64,
+            maxTokens: aiConfig.claude.maxTokensExtraction,
+          },
+          {
+            name: EXTRACTION_TOOL_NAME,
+            description:
+              "Speichert die Extraktion eines Ausschreibungsdokuments als Text und als strukturierte Daten.",
+            inputSchema: {
+              type: "object",
+              properties: {
+                text: {
+                  type: "string",
+                  description:
+                    "Vollständige Extraktion als strukturierter Text mit [Seite N]-Angaben",
+                },
+                data: getTenderExtractionJsonSchema(),
+                language: {
+                  type: "string",
+                  enum: ["de", "en", "fr", "other"],
+                  description:
+                    "Hauptsprache des Dokumentabschnitts (ISO 639-1)",
+                },
+              },
+              required: ["text", "data", "language"],
             },
-          ],
-          role: "user",
-        },
-      ],
-    });
+          },
+          options
+        ),
+      { ...options, label: `${llm.name} extraction of ${chunk.id}` }
+    );
+
+    const input = extractionToolInputSchema.parse(toolInput);
 
-    const content = response.content[0];
-    if (content.type === "text") {
-      return content.text;
-    } else {
-      throw new Error("Unexpected response type from Claude");
+    // Invalid structured data should not cost the text extraction or the
+    // valid items next to it
+    const { extraction, invalidPaths } = parseTenderExtraction(input.data);
+    if (invalidPaths.length > 0) {
+      console.warn(
+        `Dropped invalid structured data for ${chunk.id}:`,
+        invalidPaths
+      );
     }
+
+    return {
+      text: input.text,
+      data: extraction,
+      language: isLanguage(input.language) ? input.language : null,
+    };
   } catch (error) {
+    rethrowIfCancelled(error, options.signal);
     console.error("Error processing chunk with Claude:", error);
     throw new Error(`Failed to process chunk: ${chunk.id}`);
   }
 }
 
-/**
- * Answer a question or evaluate a condition using retrieved context with Claude
- */
-export async function answerQuestion(
-  input: string,
-  context: string[]
-): Promise<string> {
-  try {
-    const contextText = context.join("\n\n");
-    const isConditionInput = isCondition(input);
-
-    const prompt = isConditionInput
-      ? `Sie sind ein Experte für deutsche Ausschreibungen. Bewerten Sie die folgende Bedingung basierend auf dem Kontext und geben Sie eine klare, definitive Antwort.
+// Tool Claude must call with the verdict on a condition
+const VERDICT_TOOL_NAME = "record_condition_verdict";
 
-**KONTEXT:**
-${contextText}
+const verdictToolInputSchema = z.object({
+  result: z
+    .enum(["true", "false", "unknown"])
+    .describe(
+      "true = Bedingung laut Quellen erfüllt, false = nicht erfüllt, unknown = nicht belegbar"
+    ),
+  justification: z.string().describe("Kurze Begründung in 1-2 Sätzen"),
+  evidence: z
+    .array(
+      z.object({
+        source: z.number().int().positive().describe("Nummer der Quelle"),
+        quote: z
+          .string()
+          .describe("Wörtliches Zitat aus der Quelle, ohne Auslassungen"),
+        page: z
+          .number()
+          .int()
+          .positive()
+          .nullable()
+          .describe("Originalseite laut [Seite N] in der Quelle"),
+      })
+    )
+    .describe("Belege für das Ergebnis"),
+  certainty: z
+    .enum(["high", "medium", "low"])
+    .describe("Wie sicher das Ergebnis aus den Quellen folgt"),
+});
 
-**BEDINGUNG:** ${input}
+const normalizeQuote = (value: string) =>
+  value
+    .replace(/[„“”"»«]/g, "")
+    .replace(/\s+/g, " ")
+    .trim()
+    .toLowerCase();
 
-**ANTWORTFORMAT:**
-Antworten Sie NUR mit einem der folgenden Formate:
+/**
+ * Numbered source passages with file and pages for the answering prompts
+ */
+function formatContext(
+  passages: VectorSearchResult[],
+  { prompts }: LanguagePack
+): string {
+  return passages
+    .map(({ metadata }, index) => {
+      const pages = prompts.pages(metadata.pageStart, metadata.pageEnd);
+      return `${prompts.source(index + 1, metadata.filename, pages)}\n${
+        metadata.text || ""
+      }`;
+    })
+    .join("\n\n");
+}
 
-WAHR: [Präzise Begründung mit Verweis auf spezifische Dokumentstelle]
-FALSCH: [Präzise Begründung mit Verweis auf spezifische Dokumentstelle]  
-UNBEKANNT: [Spezifische Erklärung, warum die Information nicht verfügbar ist]
+/**
+ * Resolve the cited evidence to file and page. Quotes that do not appear
+ * verbatim in the cited passage are dropped.
+ */
+function resolveEvidence(
+  evidence: z.infer<typeof verdictToolInputSchema>["evidence"],
+  passages: VectorSearchResult[]
+): EvidenceQuote[] {
+  const quotes: EvidenceQuote[] = [];
 
-**WICHTIGE REGELN:**
-- Seien Sie präzise und verweisen Sie auf konkrete Dokumentstellen
-- Nutzen Sie nur Informationen aus dem bereitgestellten Kontext
-- Wenn die Information nicht explizit im Kontext steht, wählen Sie UNBEKANNT
-- Geben Sie kurze, aber vollständige Begründungen`
-      : `Sie sind ein Experte für deutsche Ausschreibungen. Beantworten Sie die Frage basierend auf dem Kontext präzise und vollständig.
+  for (const item of evidence) {
+    const passage = passages[item.source - 1]?.metadata;
+    const quote = normalizeQuote(item.quote);
+    const passageText = normalizeQuote(passage?.text ?? "");
+    const position = passageText.indexOf(quote);
 
-**KONTEXT:**
-${contextText}
+    if (!passage || !quote || position === -1) {
+      console.warn(
+        `Dropping evidence not found in source ${item.source}: "${item.quote}"`
+      );
+      continue;
+    }
 
-**FRAGE:** ${input}
+    // The stated page, else the last page tag before the quote
+    const taggedPages = Array.from(
+      passageText.slice(0, position).matchAll(/\[seite (\d+)\]/g)
+    ).map((tag) => parseInt(tag[1], 10));
+    const page = [item.page, taggedPages[taggedPages.length - 1]].find(
+      (candidate): candidate is number =>
+        !!candidate &&
+        candidate >= passage.pageStart &&
+        candidate <= passage.pageEnd
+    );
 
-**ANTWORTFORMAT:**
-Geben Sie eine strukturierte Antwort mit:
-1. **Direkte Antwort:** [Hauptantwort in 1-2 Sätzen]
-2. **Details:** [Relevante Einzelheiten aus dem Kontext]
-3. **Quelle:** [Verweis auf spezifische Dokumentstelle]
+    quotes.push({
+      quote: item.quote.trim(),
+      filename: passage.filename,
+      pageStart: page ?? passage.pageStart,
+      pageEnd: page ?? passage.pageEnd,
+    });
+  }
 
-**WICHTIGE REGELN:**
-- Seien Sie konkret und präzise
-- Verwenden Sie nur Informationen aus dem bereitgestellten Kontext
-- Wenn die Information nicht verfügbar ist, sagen Sie dies explizit
-- Geben Sie spezifische Zahlen, Daten und Details an
-- Strukturieren Sie die Antwort logisch und verständlich
-- Vermeiden Sie unnötige Wiederholungen
+  return quotes;
+}
 
-Wenn die Information nicht im Kontext verfügbar ist, antworten Sie mit:
-**INFORMATION NICHT VERFÜGBAR:** [Spezifische Erklärung, was fehlt und wo es normalerweise stehen würde]`;
+/**
+ * Evaluate a condition or yes/no question with Claude tool use into a
+ * typed verdict
+ */
+async function evaluateCondition(
+  input: string,
+  type: QueryType,
+  passages: VectorSearchResult[],
+  languagePack: LanguagePack,
+  options: CallOptions
+): Promise<ConditionVerdict> {
+  const prompt = languagePack.prompts.verdict(
+    input,
+    formatContext(passages, languagePack),
+    type === "yes_no",
+    VERDICT_TOOL_NAME
+  );
 
-    const response = await anthropic.messages.create({
-      model: aiConfig.claude.model,
-      max_tokens: aiConfig.claude.maxTokensAnswering,
-      messages: [
+  const llm = getLlmProvider();
+  const toolInput = await withRetry(
+    () =>
+      llm.callTool(
         {
-          content: [
-            {
-              type: "text",
-              text: prompt,
-            },
-          ],
-          role: "user",
+          task: { kind: "verdict", query: input, passages },
+          prompt,
+          maxTokens: aiConfig.claude.maxTokensAnswering,
         },
-      ],
-    });
+        {
+          name: VERDICT_TOOL_NAME,
+          description:
+            "Speichert das Ergebnis der Prüfung einer Bedingung mit Begründung und Belegen.",
+          inputSchema: getToolInputSchema(verdictToolInputSchema),
+        },
+        options
+      ),
+    { ...options, label: `${llm.name} condition verdict` }
+  );
+
+  const verdict = verdictToolInputSchema.parse(toolInput);
+  return {
+    result: verdict.result,
+    justification: verdict.justification,
+    evidence: resolveEvidence(verdict.evidence, passages),
+    certainty: verdict.certainty,
+    method: "llm",
+  };
+}
+
+/**
+ * Answer a query using the retrieved passages in the given output
+ * language. Conditions and yes/no questions carry a typed verdict; the
+ * answer is its justification.
+ */
+export async function answerQuestion(
+  input: string,
+  type: QueryType,
+  passages: VectorSearchResult[],
+  language: Language,
+  options: CallOptions = {}
+): Promise<QueryAnswer> {
+  try {
+    throwIfCancelled(options.signal);
+    const languagePack = getLanguagePack(language);
 
-    const content = response.content[0];
-    if (content.type === "text") {
-      return content.text;
-    } else {
-      throw new Error("Unexpected response type from Claude");
+    if (expectsVerdict(type)) {
+      const verdict = await evaluateCondition(
+        input,
+        type,
+        passages,
+        languagePack,
+        options
+      );
+      return { answer: verdict.justification, verdict };
     }
+
+    const prompt = languagePack.prompts.answer(
+      input,
+      formatContext(passages, languagePack),
+      languagePack.prompts.answerFormats[type]
+    );
+
+    const llm = getLlmProvider();
+    const answer = await withRetry(
+      () =>
+        llm.generateText(
+          {
+            task: { kind: "answer", query: input, passages },
+            prompt,
+            maxTokens: aiConfig.claude.maxTokensAnswering,
+          },
+          options
+        ),
+      { ...options, label: `${llm.name} answer` }
+    );
+
+    return { answer };
   } catch (error) {
+    rethrowIfCancelled(error, options.signal);
     console.error("Error answering question:", error);
     throw new Error(`Failed to answer question: ${input}`);
   }
 }
+
+// Tool the model must call with its relevance ratings
+const RERANK_TOOL_NAME = "rate_source_relevance";
+
+const rerankToolInputSchema = z.object({
+  ratings: z
+    .array(
+      z.object({
+        source: z.number().int().positive().describe("Nummer der Quelle"),
+        relevance: z
+          .number()
+          .min(0)
+          .max(10)
+          .describe("0 = ohne Bezug zur Anfrage, 10 = beantwortet sie direkt"),
+      })
+    )
+    .describe("Genau eine Bewertung je Quelle"),
+});
+
+/**
+ * Rate how well each passage helps to answer the query with tool use.
+ * Returns a score between 0 and 1 per passage; unrated passages get 0.
+ */
+export async function rerankPassages(
+  query: string,
+  passages: VectorSearchResult[],
+  language: Language,
+  options: CallOptions = {}
+): Promise<number[]> {
+  try {
+    throwIfCancelled(options.signal);
+    const languagePack = getLanguagePack(language);
+    const { maxPassageChars, maxTokens } = rerankingConfig.llm;
+
+    // Shortened passages keep the rating prompt small
+    const shortened = passages.map((passage) => ({
+      ...passage,
+      metadata: {
+        ...passage.metadata,
+        text: (passage.metadata.text || "").slice(0, maxPassageChars),
+      },
+    }));
+    const prompt = languagePack.prompts.rerank(
+      query,
+      formatContext(shortened, languagePack),
+      RERANK_TOOL_NAME
+    );
+
+    const llm = getLlmProvider();
+    const toolInput = await withRetry(
+      () =>
+        llm.callTool(
+          {
+            task: { kind: "rerank", query, passages },
+            prompt,
+            maxTokens,
+          },
+          {
+            name: RERANK_TOOL_NAME,
+            description:
+              "Speichert für jede Quelle, wie relevant sie für die Anfrage ist.",
+            inputSchema: getToolInputSchema(rerankToolInputSchema),
+          },
+          options
+        ),
+      { ...options, label: `${llm.name} rerank` }
+    );
+
+    const { ratings } = rerankToolInputSchema.parse(toolInput);
+    const scores = new Array<number>(passages.length).fill(0);
+    for (const rating of ratings) {
+      if (rating.source <= passages.length) {
+        scores[rating.source - 1] = rating.relevance / 10;
+      }
+    }
+    return scores;
+  } catch (error) {
+    rethrowIfCancelled(error, options.signal);
+    console.error("Error reranking passages:", error);
+    throw new Error(`Failed to rerank passages for: ${query}`);
+  }
+}
@@ -0,0 +1,141 @@
+import { createHash } from "crypto";
+import type { Deadline } from "./types";
+import { DEADLINE_KIND_LABELS } from "./tender-extraction";
+import config from "./config";
+
+// Get configuration
+const deadlinesConfig = config.getDeadlinesConfig();
+
+/**
+ * Escape a text value (RFC 5545, 3.3.11)
+ */
+function escapeText(value: string): string {
+  return value
+    .replace(/\\/g, "\\\\")
+    .replace(/;/g, "\\;")
+    .replace(/,/g, "\\,")
+    .replace(/\r?\n/g, "\\n");
+}
+
+/**
+ * Fold content lines longer than 75 octets (RFC 5545, 3.1)
+ */
+function foldLine(line: string): string {
+  const parts: string[] = [];
+  let current = "";
+
+  for (const char of line) {
+    const limit = parts.length === 0 ? 75 : 74;
+    if (Buffer.byteLength(current + char) > limit) {
+      parts.push(current);
+      current = "";
+    }
+    current += char;
+  }
+  parts.push(current);
+
+  return parts.join("\r\n ");
+}
+
+/**
+ * UTC timestamp in iCalendar form, e.g. "20250312T090000Z"
+ */
+function formatUtc(date: Date): string {
+  return date
+    .toISOString()
+    .replace(/[-:]/g, "")
+    .replace(/\.\d{3}/, "");
+}
+
+/**
+ * Calendar date of an ISO date-time as written, e.g. "20250312"
+ */
+function formatDate(dateTime: string): string {
+  return dateTime.slice(0, 10).replace(/-/g, "");
+}
+
+function getNextDay(dateTime: string): string {
+  const [year, month, day] = dateTime.slice(0, 10).split("-").map(Number);
+  return formatUtc(new Date(Date.UTC(year, month - 1, day + 1))).slice(0, 8);
+}
+
+function buildEvent(deadline: Deadline & { dateTime: string }, stamp: string) {
+  const kindLabel = DEADLINE_KIND_LABELS[deadline.kind];
+  const start = new Date(deadline.dateTime);
+  const uid = createHash("sha256")
+    .update(
+      `${deadline.filename}|${deadline.kind}|${deadline.label}|${deadline.dateTime}`
+    )
+    .digest("hex")
+    .slice(0, 32);
+
+  const description = [
+    `${deadline.label}: ${deadline.sourceText}`,
+    `Quelle: ${deadline.filename}${
+      deadline.page ? `, S. ${deadline.page}` : ""
+    }`,
+  ].join("\n");
+
+  const lines = [
+    "BEGIN:VEVENT",
+    `UID:${uid}@ausschreibungen`,
+    `DTSTAMP:${stamp}`,
+    ...(deadline.allDay
+      ? [
+          `DTSTART;VALUE=DATE:${formatDate(deadline.dateTime)}`,
+          `DTEND;VALUE=DATE:${getNextDay(deadline.dateTime)}`,
+        ]
+      : [
+          `DTSTART:${formatUtc(start)}`,
+          `DTEND:${formatUtc(
+            new Date(
+              start.getTime() + deadlinesConfig.eventDurationMinutes * 60000
+            )
+          )}`,
+        ]),
+    `SUMMARY:${escapeText(`${kindLabel}: ${deadline.label}`)}`,
+    `DESCRIPTION:${escapeText(description)}`,
+    ...(deadline.location ? [`LOCATION:${escapeText(deadline.location)}`] : []),
+    `CATEGORIES:${escapeText(kindLabel)}`,
+  ];
+
+  for (const minutes of deadlinesConfig.reminderMinutesBefore) {
+    lines.push(
+      "BEGIN:VALARM",
+      "ACTION:DISPLAY",
+      `DESCRIPTION:${escapeText(`Erinnerung: ${kindLabel}`)}`,
+      `TRIGGER:-PT${minutes}M`,
+      "END:VALARM"
+    );
+  }
+
+  lines.push("END:VEVENT");
+  return lines;
+}
+
+/**
+ * Build an iCalendar file with one event per dated deadline and the
+ * configured reminders. Deadlines without a readable date are skipped.
+ */
+export function buildDeadlineCalendar(deadlines: Deadline[]): string {
+  const stamp = formatUtc(new Date());
+  const lines = [
+    "BEGIN:VCALENDAR",
+    "VERSION:2.0",
+    "PRODID:-//Ausschreibungsanalyse//Fristen//DE",
+    "CALSCALE:GREGORIAN",
+    "METHOD:PUBLISH",
+    `X-WR-TIMEZONE:${deadlinesConfig.timeZone}`,
+  ];
+
+  for (const deadline of deadlines) {
+    if (deadline.dateTime) {
+      lines.push(
+        ...buildEvent({ ...deadline, dateTime: deadline.dateTime }, stamp)
+      );
+    }
+  }
+
+  lines.push("END:VCALENDAR");
+  return lines.map(foldLine).join("\r\n") + "\r\n";
+}
@@ -0,0 +1,45 @@
+/**
+ * Raised when a processing run is stopped through its AbortSignal.
+ * `cancelledStages` lists the pipeline stages that did not get to finish.
+ */
+export class ProcessingCancelledError extends Error {
+  cancelledStages: string[];
+
+  constructor(cancelledStages: string[] = []) {
+    super("Processing was cancelled");
+    this.name = "ProcessingCancelledError";
+    this.cancelledStages = cancelledStages;
+  }
+}
+
+/**
+ * Check if an error means the run was cancelled rather than failed
+ */
+export function isCancellationError(error: unknown): boolean {
+  return (
+    error instanceof ProcessingCancelledError ||
+    (error instanceof Error &&
+      (error.name === "AbortError" || error.name === "APIUserAbortError"))
+  );
+}
+
+/**
+ * Stop before starting more work once the signal has been aborted
+ */
+export function throwIfCancelled(signal?: AbortSignal): void {
+  if (signal?.aborted) {
+    throw new ProcessingCancelledError();
+  }
+}
+
+/**
+ * Re-throw cancellations unchanged so catch blocks that wrap or swallow
+ * provider errors do not turn a cancel into a failure
+ */
+export function rethrowIfCancelled(error: unknown, signal?: AbortSignal): void {
+  if (signal?.aborted || isCancellationError(error)) {
+    throw error instanceof ProcessingCancelledError
+      ? error
+      : new ProcessingCancelledError();
+  }
+}
@@ -0,0 +1,100 @@
+import { createHash } from "crypto";
+import type {
+  ChecklistItem,
+  ChecklistResult,
+  FileTenderExtraction,
+} from "./types";
+import type { ChecklistCategory } from "./tender-extraction";
+import { normalizeDeadlineDate } from "./deadlines";
+
+// Order of the categories in the checklist
+const CATEGORY_ORDER: ChecklistCategory[] = [
+  "registration",
+  "site_visit",
+  "form",
+  "declaration",
+  "evidence",
+  "sample",
+  "signature",
+  "other",
+];
+
+const normalizeTitle = (title: string) =>
+  title.toLowerCase().replace(/\s+/g, " ").trim();
+
+/**
+ * Build the bidder checklist from the extracted checklist items of all
+ * documents. Items named the same in several files are merged: they are
+ * mandatory if any file says so and cite every source page.
+ */
+export function buildChecklist(
+  tenderExtractions: FileTenderExtraction[]
+): ChecklistResult {
+  const items = new Map<string, ChecklistItem>();
+
+  for (const { filename, extraction, language } of tenderExtractions) {
+    // Stored extractions from an older prompt version have no items
+    for (const item of extraction.checklistItems ?? []) {
+      const key = `${item.category}|${normalizeTitle(item.title)}`;
+      const source = item.page
+        ? [{ filename, pageStart: item.page, pageEnd: item.page }]
+        : [];
+      const existing = items.get(key);
+
+      if (existing) {
+        existing.mandatory = existing.mandatory || item.mandatory;
+        existing.description ??= item.description;
+        existing.channel ??= item.channel;
+        if (!existing.deadline && item.deadline) {
+          existing.deadline = item.deadline;
+          existing.deadlineDateTime =
+            normalizeDeadlineDate(item.deadline, language)?.dateTime ?? null;
+        }
+        existing.sources.push(
+          ...source.filter(
+            (entry) =>
+              !existing.sources.some(
+                (known) =>
+                  known.filename === entry.filename &&
+                  known.pageStart === entry.pageStart
+              )
+          )
+        );
+        continue;
+      }
+
+      items.set(key, {
+        id: createHash("sha256").update(key).digest("hex").slice(0, 16),
+        title: item.title,
+        category: item.category,
+        mandatory: item.mandatory,
+        description: item.description,
+        deadline: item.deadline,
+        deadlineDateTime: item.deadline
+          ? normalizeDeadlineDate(item.deadline, language)?.dateTime ?? null
+          : null,
+        channel: item.channel,
+        sources: source,
+      });
+    }
+  }
+
+  // Mandatory items first, then by category and deadline
+  const sorted = Array.from(items.values()).sort(
+    (a, b) =>
+      Number(b.mandatory) - Number(a.mandatory) ||
+      CATEGORY_ORDER.indexOf(a.category) - CATEGORY_ORDER.indexOf(b.category) ||
+      (a.deadlineDateTime && b.deadlineDateTime
+        ? Date.parse(a.deadlineDateTime) - Date.parse(b.deadlineDateTime)
+        : Number(!a.deadlineDateTime) - Number(!b.deadlineDateTime))
+  );
+
+  console.log(
+    `Built checklist with ${sorted.length} items from ${tenderExtractions.length} documents`
+  );
+
+  return {
+    filenames: tenderExtractions.map(({ filename }) => filename),
+    items: sorted,
+  };
+}
@@ -0,0 +1,322 @@
+import type {
+  ComparisonOperator,
+  ConditionVerdict,
+  FileTenderExtraction,
+  Language,
+  VerdictComparison,
+} from "./types";
+import type { DeadlineKind } from "./tender-extraction";
+import { getLanguagePack, type LanguagePack } from "./language-packs";
+import { classifyDeadlineKind, collectDeadlines } from "./deadlines";
+import { parseGermanDate, type TemporalExpression } from "./german-temporal";
+
+/**
+ * A comparison condition such as "Ist die Abgabefrist vor dem 31.12.2025?"
+ * or "Liegt der Auftragswert über 100.000 EUR?"
+ */
+export type ComparisonCondition =
+  | {
+      kind: "date";
+      subject: DeadlineKind;
+      operator: ComparisonOperator;
+      reference: TemporalExpression;
+    }
+  | {
+      kind: "amount";
+      operator: ComparisonOperator;
+      reference: ParsedAmount;
+    };
+
+interface ParsedAmount {
+  text: string;
+  value: number;
+  currency: string | null;
+}
+
+// Checked in order: negated and compound forms before their plain words
+const DATE_OPERATORS: [ComparisonOperator, RegExp][] = [
+  ["on_or_after", /(?<!\p{L})(?:nicht\s+vor|ab|frühestens)(?!\p{L})/iu],
+  ["on_or_before", /(?<!\p{L})(?:nicht\s+nach|bis|spätestens)(?!\p{L})/iu],
+  ["before", /(?<!\p{L})(?:vor|früher\s+als|eher\s+als)(?!\p{L})/iu],
+  ["after", /(?<!\p{L})(?:nach|später\s+als)(?!\p{L})/iu],
+];
+
+const AMOUNT_OPERATORS: [ComparisonOperator, RegExp][] = [
+  [
+    "at_most",
+    /(?<!\p{L})(?:nicht\s+mehr\s+als|nicht\s+über|höchstens|maximal|bis\s+zu)(?!\p{L})/iu,
+  ],
+  [
+    "at_least",
+    /(?<!\p{L})(?:nicht\s+weniger\s+als|nicht\s+unter|mindestens|wenigstens)(?!\p{L})/iu,
+  ],
+  [
+    "greater",
+    /(?<!\p{L})(?:über|mehr\s+als|größer\s+als|höher\s+als|oberhalb(?:\s+von)?|übersteigt)(?!\p{L})/iu,
+  ],
+  [
+    "less",
+    /(?<!\p{L})(?:unter|weniger\s+als|kleiner\s+als|niedriger\s+als|unterhalb(?:\s+von)?)(?!\p{L})/iu,
+  ],
+];
+
+const AMOUNT_SUBJECT_REGEX =
+  /auftragswert|schätzwert|geschätzte[rn]?\s+wert|auftragsvolumen|vergabevolumen|budget/i;
+
+const AMOUNT_REGEX =
+  /(?<![\d.,])(\d{1,3}(?:\.\d{3})+|\d+)(?:,(\d+))?\s*(mio\.?|millionen|mrd\.?|milliarden|tsd\.?|tausend)?\s*(€|eur|euro)?(?!\p{L})/iu;
+
+const MULTIPLIERS: Record<string, number> = {
+  mio: 1_000_000,
+  millionen: 1_000_000,
+  mrd: 1_000_000_000,
+  milliarden: 1_000_000_000,
+  tsd: 1_000,
+  tausend: 1_000,
+};
+
+/**
+ * Read a German amount ("100.000 €", "1,5 Mio. EUR", "250000 Euro")
+ */
+export function parseGermanAmount(text: string): ParsedAmount | null {
+  const match = text.match(AMOUNT_REGEX);
+  if (!match) return null;
+
+  const [, integer, fraction, multiplier, currency] = match;
+  const base = Number(
+    `${integer.replace(/\./g, "")}${fraction ? `.${fraction}` : ""}`
+  );
+  const factor = multiplier
+    ? MULTIPLIERS[multiplier.toLowerCase().replace(".", "")]
+    : 1;
+
+  return {
+    text: match[0].trim(),
+    value: base * factor,
+    currency: currency ? "EUR" : null,
+  };
+}
+
+function findOperator(
+  text: string,
+  operators: [ComparisonOperator, RegExp][]
+): { operator: ComparisonOperator; end: number } | null {
+  for (const [operator, pattern] of operators) {
+    const match = text.match(pattern);
+    if (match) {
+      return { operator, end: match.index! + match[0].length };
+    }
+  }
+  return null;
+}
+
+/**
+ * Recognize a date or amount comparison in a condition
+ */
+export function parseComparisonCondition(
+  text: string
+): ComparisonCondition | null {
+  const subject = classifyDeadlineKind(text);
+  const reference = parseGermanDate(text);
+
+  if (subject !== "other" && reference && reference.type !== "range") {
+    // Only words before the date count ("vor dem 31.12.2025")
+    const operator = findOperator(
+      text.slice(0, reference.start),
+      DATE_OPERATORS
+    );
+    if (operator) {
+      return {
+        kind: "date",
+        subject,
+        operator: operator.operator,
+        reference,
+      };
+    }
+  }
+
+  if (AMOUNT_SUBJECT_REGEX.test(text)) {
+    const operator = findOperator(text, AMOUNT_OPERATORS);
+    const amount = operator
+      ? parseGermanAmount(text.slice(operator.end))
+      : null;
+    if (operator && amount) {
+      return {
+        kind: "amount",
+        operator: operator.operator,
+        reference: amount,
+      };
+    }
+  }
+
+  return null;
+}
+
+function compare(
+  operator: ComparisonOperator,
+  value: number | string,
+  reference: number | string
+): boolean {
+  switch (operator) {
+    case "before":
+    case "less":
+      return value < reference;
+    case "after":
+    case "greater":
+      return value > reference;
+    case "on_or_before":
+    case "at_most":
+      return value <= reference;
+    case "on_or_after":
+    case "at_least":
+      return value >= reference;
+  }
+}
+
+function formatAmount(
+  value: number,
+  currency: string | null,
+  locale: string
+): string {
+  return `${value.toLocaleString(locale)} ${currency ?? "EUR"}`;
+}
+
+/**
+ * Compared values of every document that states the fact
+ */
+function getComparisons(
+  condition: ComparisonCondition,
+  tenderExtractions: FileTenderExtraction[],
+  { comparison: phrases }: LanguagePack
+): { comparison: VerdictComparison; result: boolean }[] {
+  if (condition.kind === "date") {
+    const { reference, operator } = condition;
+    const referenceHasTime = reference.type === "date_time";
+
+    return collectDeadlines(tenderExtractions)
+      .filter((deadline) => deadline.kind === condition.subject)
+      .flatMap((deadline) => {
+        if (!deadline.dateTime) return [];
+
+        // Instants when both sides have a time, calendar days otherwise
+        const [value, referenceValue] =
+          referenceHasTime && !deadline.allDay
+            ? [Date.parse(deadline.dateTime), Date.parse(reference.value)]
+            : [deadline.dateTime.slice(0, 10), reference.value.slice(0, 10)];
+
+        return [
+          {
+            comparison: {
+              subject: phrases.deadlineKindLabels[condition.subject],
+              operator,
+              extractedText: deadline.sourceText,
+              extractedValue: deadline.dateTime,
+              referenceText: reference.text,
+              referenceValue: reference.value,
+              filename: deadline.filename,
+              page: deadline.page,
+            },
+            result: compare(operator, value, referenceValue),
+          },
+        ];
+      });
+  }
+
+  const { reference, operator } = condition;
+  return tenderExtractions.flatMap(({ filename, extraction }) => {
+    const estimatedValue = extraction.estimatedValue;
+    if (!estimatedValue || estimatedValue.amount === null) return [];
+
+    // Amounts in a different currency cannot be compared
+    const currency = estimatedValue.currency?.toUpperCase() ?? "EUR";
+    if (reference.currency && !["EUR", "€", "EURO"].includes(currency)) {
+      return [];
+    }
+
+    return [
+      {
+        comparison: {
+          subject: phrases.amountSubject,
+          operator,
+          extractedText: estimatedValue.text,
+          extractedValue: estimatedValue.amount,
+          referenceText: reference.text,
+          referenceValue: reference.value,
+          filename,
+          page: estimatedValue.page,
+        },
+        result: compare(operator, estimatedValue.amount, reference.value),
+      },
+    ];
+  });
+}
+
+/**
+ * Evaluate a comparison condition against the extracted deadlines and
+ * amounts, justified in the output language. Returns null when the
+ * referenced fact was not extracted or the documents disagree, so the
+ * condition has to be answered by Claude.
+ */
+export function evaluateComparisonCondition(
+  condition: ComparisonCondition,
+  tenderExtractions: FileTenderExtraction[],
+  language: Language
+): ConditionVerdict | null {
+  const languagePack = getLanguagePack(language);
+  const comparisons = getComparisons(
+    condition,
+    tenderExtractions,
+    languagePack
+  );
+  if (comparisons.length === 0) return null;
+
+  const result = comparisons[0].result;
+  if (comparisons.some((entry) => entry.result !== result)) {
+    console.log(
+      `Documents disagree on ${comparisons[0].comparison.subject}, cannot resolve deterministically`
+    );
+    return null;
+  }
+
+  const { comparison } = comparisons[0];
+  const referenceText =
+    condition.kind === "amount"
+      ? formatAmount(
+          condition.reference.value,
+          condition.reference.currency,
+          languagePack.locale
+        )
+      : comparison.referenceText;
+  const source = `${comparison.filename}${
+    comparison.page
+      ? `, ${languagePack.prompts.pages(comparison.page, comparison.page)}`
+      : ""
+  }`;
+
+  return {
+    result: result ? "true" : "false",
+    justification: languagePack.comparison.justification(
+      comparison.subject,
+      source,
+      comparison.extractedText,
+      result,
+      languagePack.comparison.operatorPhrases[comparison.operator],
+      referenceText
+    ),
+    evidence: comparisons.flatMap(({ comparison: entry }) =>
+      entry.page
+        ? [
+            {
+              quote: entry.extractedText,
+              filename: entry.filename,
+              pageStart: entry.page,
+              pageEnd: entry.page,
+            },
+          ]
+        : []
+    ),
+    certainty: "high",
+    method: "deterministic",
+    comparison,
+  };
+}
@@ -1,4 +1,10 @@
 import configData from "./config.json";
+import type { ChunkTag, Language, QueryType } from "./types";
+
+export type LlmProviderName = "anthropic" | "openai-compatible" | "mock";
+export type EmbeddingProviderName = "openai" | "local" | "hashing";
+export type VectorStoreName = "upstash" | "memory" | "sqlite";
+export type RerankerName = "none" | "llm" | "local";
 
 export interface Config {
   ai: {
@@ -6,13 +12,119 @@ export interface Config {
       model: string;
       maxTokensExtraction: number;
       maxTokensAnswering: number;
-      conditionKeywords: string[];
+      // Per language, used to recognize statements as conditions
+      conditionKeywords: Record<Language, string[]>;
     };
     openai: {
       embeddingModel: string;
       embeddingDimensions: number;
     };
   };
+  llm: {
+    // Backend for extraction and answering
+    provider: LlmProviderName;
+    // Self-hosted models behind an OpenAI-compatible chat completions API
+    openaiCompatible: {
+      baseUrl: string;
+      model: string;
+      // Environment variable holding the API key, if the endpoint needs one
+      apiKeyEnvVar: string;
+    };
+    // Deterministic offline responses from a script file
+    mock: {
+      model: string;
+      scriptPath: string;
+    };
+  };
+  embeddings: {
+    // Backend for document and query embeddings
+    provider: EmbeddingProviderName;
+    // In-process model run with transformers.js
+    local: {
+      model: string;
+      dimensions: number;
+      // Downloaded models are kept here
+      cacheDirectory: string;
+      // false = only use models already in the cache directory
+      allowRemoteModels: boolean;
+    };
+    // Deterministic feature hashing, for tests without a model
+    hashing: {
+      dimensions: number;
+    };
+    // Provider requests; texts longer than the token limit go alone
+    batching: {
+      maxInputsPerBatch: number;
+      maxTokensPerBatch: number;
+      // Requests in flight at once, across all runs of the process
+      concurrency: number;
+    };
+    // Vectors by content hash and model, in memory and on disk
+    cache: {
+      enabled: boolean;
+      directory: string;
+      maxMemoryEntries: number;
+      // Least recently used entries beyond this are removed from disk
+      maxDiskEntries: number;
+    };
+  };
+  vectorStore: {
+    // upstash = hosted index, memory = lost on restart, sqlite = local file
+    provider: VectorStoreName;
+    sqlite: {
+      path: string;
+    };
+  };
+  retrieval: {
+    // Reciprocal rank fusion: each retriever adds weight / (rrfK + rank)
+    rrfK: number;
+    // 0 disables a retriever
+    weights: {
+      vector: number;
+      lexical: number;
+    };
+    tags: {
+      // Score factor for chunks with a tag the query asks for
+      boost: number;
+      // Tags searched for per query type; restrict = only tagged chunks
+      queryTypes: Partial<
+        Record<QueryType, { tags: ChunkTag[]; restrict: boolean }>
+      >;
+    };
+    // BM25 over the embedded paragraphs
+    lexical: {
+      directory: string;
+      k1: number;
+      b: number;
+      // Known parts for splitting compounds, besides the indexed words
+      compoundParts: string[];
+    };
+  };
+  reranking: {
+    // Rescores the retrieved chunks; none keeps the retrieval order
+    provider: RerankerName;
+    // Best retrieved chunks sent to the reranker, the rest are dropped
+    maxCandidates: number;
+    // Chunks scoring lower (0..1) are left out of the prompt
+    minScore: number;
+    llm: {
+      // Passages are cut to this length in the rating prompt
+      maxPassageChars: number;
+      maxTokens: number;
+    };
+    // Cross-encoder run in-process with transformers.js
+    local: {
+      model: string;
+      cacheDirectory: string;
+      allowRemoteModels: boolean;
+    };
+  };
+  contextSelection: {
+    // Budget for the source passages of an answering prompt
+    maxTokens: number;
+    // Token counts are estimated from the text length
+    charsPerToken: number;
+  };
   processing: {
     extraction: {
       batchSize: number;
@@ -22,7 +134,9 @@ export interface Config {
     embeddings: {
       batchSize: number;
       defaultTopK: number;
-      indexingDelayMs: number;
+      // Stored vectors are polled until queries can see them
+      indexingPollIntervalMs: number;
+      indexingTimeoutMs: number;
     };
     retry: {
       maxRetries: number;
@@ -55,7 +169,7 @@ export interface Config {
       dateRegex: string;
       emailRegex: string;
       phoneRegex: string;
-      deadlineKeywords: string[];
+      deadlineKeywords: Record<Language, string[]>;
     };
   };
   session: {
@@ -63,8 +177,40 @@ export interface Config {
     namespacePrefix: string;
     cleanupAfterProcessing: boolean;
   };
+  jobs: {
+    maxConcurrentJobs: number;
+    maxStoredJobs: number;
+    recentJobsLimit: number;
+    disconnectGraceMs: number;
+  };
+  cache: {
+    enabled: boolean;
+    directory: string;
+  };
+  library: {
+    directory: string;
+    namespacePrefix: string;
+  };
+  languages: {
+    // Language of answers when the user does not choose one
+    defaultOutputLanguage: Language;
+    // Assumed for documents whose language cannot be detected
+    fallbackDocumentLanguage: Language;
+  };
+  catalogues: {
+    directory: string;
+    // Older versions beyond this count are dropped from the history
+    maxVersions: number;
+  };
+  deadlines: {
+    timeZone: string;
+    reminderMinutesBefore: number[];
+    eventDurationMinutes: number;
+  };
   logging: {
     enableDebugLogs: boolean;
+    // Probe fetches and queries around storing and searching vectors
+    enableStorageDiagnostics: boolean;
     enablePerformanceLogs: boolean;
     logLevel: string;
   };
@@ -89,6 +235,85 @@ class ConfigManager {
       throw new Error("Claude model configuration is required");
     }
 
+    if (
+      !["anthropic", "openai-compatible", "mock"].includes(
+        this.config.llm?.provider
+      )
+    ) {
+      throw new Error(
+        "LLM provider must be anthropic, openai-compatible or mock"
+      );
+    }
+
+    if (
+      !["openai", "local", "hashing"].includes(this.config.embeddings?.provider)
+    ) {
+      throw new Error("Embedding provider must be openai, local or hashing");
+    }
+
+    if (this.getEmbeddingDimensions() <= 0) {
+      throw new Error("Embedding dimensions must be greater than 0");
+    }
+
+    const { cache } = this.config.embeddings;
+    if (cache.maxMemoryEntries <= 0 || cache.maxDiskEntries <= 0) {
+      throw new Error("Embedding cache limits must be greater than 0");
+    }
+
+    const { batching } = this.config.embeddings;
+    if (
+      batching.maxInputsPerBatch <= 0 ||
+      batching.maxTokensPerBatch <= 0 ||
+      batching.concurrency <= 0
+    ) {
+      throw new Error(
+        "Embedding batch limits and concurrency must be greater than 0"
+      );
+    }
+
+    if (
+      !["upstash", "memory", "sqlite"].includes(
+        this.config.vectorStore?.provider
+      )
+    ) {
+      throw new Error("Vector store must be upstash, memory or sqlite");
+    }
+
+    const { weights } = this.config.retrieval;
+    if (
+      weights.vector < 0 ||
+      weights.lexical < 0 ||
+      weights.vector + weights.lexical <= 0
+    ) {
+      throw new Error(
+        "Retrieval weights must not be negative and at least one must be positive"
+      );
+    }
+
+    if (this.config.retrieval.tags.boost < 1) {
+      throw new Error("Tag boost must be at least 1");
+    }
+
+    if (!["none", "llm", "local"].includes(this.config.reranking?.provider)) {
+      throw new Error("Reranker must be none, llm or local");
+    }
+
+    if (
+      this.config.reranking.minScore < 0 ||
+      this.config.reranking.minScore > 1
+    ) {
+      throw new Error("Reranking min score must be between 0 and 1");
+    }
+
+    if (
+      this.config.contextSelection.maxTokens <= 0 ||
+      this.config.contextSelection.charsPerToken <= 0
+    ) {
+      throw new Error(
+        "Context token budget and chars per token must be greater than 0"
+      );
+    }
+
     if (!this.config.ai?.openai?.embeddingModel) {
       throw new Error("OpenAI embedding model configuration is required");
     }
@@ -104,6 +329,33 @@ class ConfigManager {
     if (this.config.processing.extraction.batchSize <= 0) {
       throw new Error("Extraction batch size must be greater than 0");
     }
+
+    const languages: Language[] = ["de", "en", "fr"];
+    if (
+      !languages.every(
+        (language) =>
+          this.config.ai.claude.conditionKeywords[language] &&
+          this.config.text.processing.deadlineKeywords[language]
+      )
+    ) {
+      throw new Error(
+        "Condition and deadline keywords are required for de, en and fr"
+      );
+    }
+
+    if (
+      !["day", "month", "year"].every((group) =>
+        this.config.text.processing.dateRegex.includes(`(?<${group}>`)
+      )
+    ) {
+      throw new Error(
+        "Date regex must define the named groups day, month and year"
+      );
+    }
+
+    if (this.config.jobs.maxConcurrentJobs <= 0) {
+      throw new Error("Max concurrent jobs must be greater than 0");
+    }
   }
 
   public getConfig(): Config {
@@ -114,6 +366,45 @@ class ConfigManager {
     return this.config.ai;
   }
 
+  public getLlmConfig() {
+    return this.config.llm;
+  }
+
+  public getEmbeddingsConfig() {
+    return this.config.embeddings;
+  }
+
+  /**
+   * Dimensions of the vector index: those of the selected embedding provider
+   */
+  public getEmbeddingDimensions(): number {
+    const { embeddings } = this.config;
+    switch (embeddings.provider) {
+      case "openai":
+        return this.config.ai.openai.embeddingDimensions;
+      case "local":
+        return embeddings.local.dimensions;
+      case "hashing":
+        return embeddings.hashing.dimensions;
+    }
+  }
+
+  public getVectorStoreConfig() {
+    return this.config.vectorStore;
+  }
+
+  public getRetrievalConfig() {
+    return this.config.retrieval;
+  }
+
+  public getRerankingConfig() {
+    return this.config.reranking;
+  }
+
+  public getContextSelectionConfig() {
+    return this.config.contextSelection;
+  }
+
   public getProcessingConfig() {
     return this.config.processing;
   }
@@ -130,6 +421,30 @@ class ConfigManager {
     return this.config.session;
   }
 
+  public getJobsConfig() {
+    return this.config.jobs;
+  }
+
+  public getCacheConfig() {
+    return this.config.cache;
+  }
+
+  public getLibraryConfig() {
+    return this.config.library;
+  }
+
+  public getLanguagesConfig() {
+    return this.config.languages;
+  }
+
+  public getCataloguesConfig() {
+    return this.config.catalogues;
+  }
+
+  public getDeadlinesConfig() {
+    return this.config.deadlines;
+  }
+
   public getLoggingConfig() {
     return this.config.logging;
   }
@@ -142,6 +457,10 @@ class ConfigManager {
     return this.config.logging.enableDebugLogs;
   }
 
+  public isStorageDiagnosticsEnabled(): boolean {
+    return this.config.logging.enableStorageDiagnostics;
+  }
+
   public isPerformanceLogsEnabled(): boolean {
     return this.config.logging.enablePerformanceLogs;
   }
@@ -0,0 +1,168 @@
+import type {
+  ContextChunk,
+  ContextDropReason,
+  ContextSelection,
+  VectorSearchResult,
+} from "./types";
+import config from "./config";
+
+// Get configuration
+const rerankingConfig = config.getRerankingConfig();
+const contextConfig = config.getContextSelectionConfig();
+
+// Paragraph IDs are "<namespace>:chunk:<paragraph index>"
+const CHUNK_ID_REGEX = /^(.*):chunk:(\d+)$/;
+
+/**
+ * Rough token count of a text for the prompt budget
+ */
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / contextConfig.charsPerToken);
+}
+
+function toContextChunk(
+  chunk: VectorSearchResult,
+  dropReason?: ContextDropReason
+): ContextChunk {
+  return {
+    id: chunk.id,
+    filename: chunk.metadata.filename,
+    pageStart: chunk.metadata.pageStart,
+    pageEnd: chunk.metadata.pageEnd,
+    rerankScore: chunk.rerankScore ?? 0,
+    tokens: estimateTokens(chunk.metadata.text || ""),
+    ...(dropReason ? { dropReason } : {}),
+  };
+}
+
+function getParagraphPosition(
+  chunk: VectorSearchResult
+): { namespace: string; index: number } | null {
+  const match = CHUNK_ID_REGEX.exec(chunk.id);
+  return match ? { namespace: match[1], index: Number(match[2]) } : null;
+}
+
+// The next paragraph of the same document, continuing on the same page
+function isNextParagraph(
+  previous: VectorSearchResult,
+  next: VectorSearchResult
+): boolean {
+  const previousPosition = getParagraphPosition(previous);
+  const nextPosition = getParagraphPosition(next);
+  return (
+    !!previousPosition &&
+    !!nextPosition &&
+    previousPosition.namespace === nextPosition.namespace &&
+    nextPosition.index === previousPosition.index + 1 &&
+    previous.metadata.filename === next.metadata.filename &&
+    previous.metadata.pageEnd === next.metadata.pageStart
+  );
+}
+
+/**
+ * Group the chunks into runs of adjacent paragraphs, in document order
+ */
+function groupAdjacentParagraphs(
+  chunks: VectorSearchResult[]
+): VectorSearchResult[][] {
+  const ordered = [...chunks].sort((a, b) => {
+    const left = getParagraphPosition(a);
+    const right = getParagraphPosition(b);
+    if (!left || !right) return left ? -1 : right ? 1 : 0;
+    return (
+      left.namespace.localeCompare(right.namespace) || left.index - right.index
+    );
+  });
+
+  const groups: VectorSearchResult[][] = [];
+  for (const chunk of ordered) {
+    const group = groups[groups.length - 1];
+    if (group && isNextParagraph(group[group.length - 1], chunk)) {
+      group.push(chunk);
+    } else {
+      groups.push([chunk]);
+    }
+  }
+  return groups;
+}
+
+// One passage with the text of all paragraphs and the best scores
+function mergeParagraphs(group: VectorSearchResult[]): VectorSearchResult {
+  const [first] = group;
+  const best = group.reduce((top, chunk) =>
+    (chunk.rerankScore ?? 0) > (top.rerankScore ?? 0) ? chunk : top
+  );
+  return {
+    ...best,
+    id: first.id,
+    score: Math.max(...group.map((chunk) => chunk.score)),
+    metadata: {
+      ...first.metadata,
+      text: group.map((chunk) => chunk.metadata.text || "").join("\n\n"),
+      pageStart: first.metadata.pageStart,
+      pageEnd: group[group.length - 1].metadata.pageEnd,
+    },
+  };
+}
+
+/**
+ * Choose the passages for the answering prompt from the reranked chunks
+ * (best first): chunks below the minimum score are left out, except the
+ * best one, and the rest fill the token budget in order. Selected
+ * paragraphs that follow each other on a page are merged into one passage.
+ */
+export function selectContext(
+  chunks: VectorSearchResult[],
+  reranker: string
+): { passages: VectorSearchResult[]; selection: ContextSelection } {
+  const { maxTokens } = contextConfig;
+  const chosen: VectorSearchResult[] = [];
+  const dropped: ContextChunk[] = [];
+  let tokensUsed = 0;
+
+  for (const chunk of chunks) {
+    const tokens = estimateTokens(chunk.metadata.text || "");
+    if (
+      chosen.length > 0 &&
+      (chunk.rerankScore ?? 0) < rerankingConfig.minScore
+    ) {
+      dropped.push(toContextChunk(chunk, "low_score"));
+    } else if (tokensUsed + tokens > maxTokens) {
+      dropped.push(toContextChunk(chunk, "budget"));
+    } else {
+      chosen.push(chunk);
+      tokensUsed += tokens;
+    }
+  }
+
+  const mergedInto = new Map<string, string>();
+  const passages = groupAdjacentParagraphs(chosen)
+    .map((group) => {
+      for (const chunk of group.slice(1)) {
+        mergedInto.set(chunk.id, group[0].id);
+      }
+      return mergeParagraphs(group);
+    })
+    .sort((a, b) => (b.rerankScore ?? 0) - (a.rerankScore ?? 0));
+
+  const selected = chosen.map((chunk) => {
+    const entry = toContextChunk(chunk);
+    const target = mergedInto.get(chunk.id);
+    return target ? { ...entry, mergedInto: target } : entry;
+  });
+
+  console.log(
+    `Selected ${chosen.length} chunks as ${passages.length} passages (${tokensUsed}/${maxTokens} tokens), dropped ${dropped.length}`
+  );
+
+  return {
+    passages,
+    selection: {
+      reranker,
+      tokenBudget: maxTokens,
+      tokensUsed,
+      selected,
+      dropped,
+    },
+  };
+}
@@ -0,0 +1,94 @@
+import type { Deadline, FileTenderExtraction, Language } from "./types";
+import type { DeadlineKind } from "./tender-extraction";
+import { parseGermanDate, toZonedIsoString } from "./german-temporal";
+
+// Keywords used when Claude did not classify a deadline
+const KIND_KEYWORDS: [DeadlineKind, RegExp][] = [
+  ["questions", /bieterfrage|rückfrage|fragen/i],
+  ["binding", /binde|zuschlagsfrist|gültigkeit/i],
+  ["opening", /eröffnung|submission|öffnung/i],
+  ["service_start", /leistungsbeginn|ausführungsbeginn|vertragsbeginn|beginn/i],
+  ["submission", /abgabe|angebotsfrist|einreichung|teilnahme|schlusstermin/i],
+];
+
+/**
+ * Classify a deadline by its label
+ */
+export function classifyDeadlineKind(label: string): DeadlineKind {
+  const match = KIND_KEYWORDS.find(([, pattern]) => pattern.test(label));
+  return match ? match[0] : "other";
+}
+
+/**
+ * Normalize a date text to an ISO date-time in the configured zone; month
+ * names are read in the given language as well as in German. Dates
+ * without a time are all-day deadlines starting at midnight; for a range
+ * the deadline is its end.
+ */
+export function normalizeDeadlineDate(
+  text: string,
+  language?: Language
+): { dateTime: string; allDay: boolean } | null {
+  const expression = parseGermanDate(text, { language });
+  if (!expression) return null;
+
+  const value = expression.endValue ?? expression.value;
+  if (value.includes("T")) {
+    return { dateTime: value, allDay: false };
+  }
+
+  const [year, month, day] = value.split("-").map(Number);
+  return {
+    dateTime: toZonedIsoString(year, month, day, 0, 0),
+    allDay: true,
+  };
+}
+
+/**
+ * Collect the deadlines of all documents, normalized and sorted by date.
+ * Deadlines whose date could not be read are listed last.
+ */
+export function collectDeadlines(
+  tenderExtractions: FileTenderExtraction[]
+): Deadline[] {
+  const deadlines: Deadline[] = [];
+  const seen = new Set<string>();
+
+  for (const { filename, extraction, language } of tenderExtractions) {
+    for (const deadline of extraction.deadlines) {
+      const normalized = normalizeDeadlineDate(deadline.date, language);
+      const kind =
+        deadline.kind && deadline.kind !== "other"
+          ? deadline.kind
+          : classifyDeadlineKind(deadline.label);
+
+      // The same deadline is often repeated across the files of a package
+      const key = `${kind}|${normalized?.dateTime ?? deadline.date}`;
+      if (seen.has(key)) continue;
+      seen.add(key);
+
+      if (!normalized) {
+        console.warn(
+          `Could not normalize deadline "${deadline.label}: ${deadline.date}" in ${filename}`
+        );
+      }
+
+      deadlines.push({
+        kind,
+        label: deadline.label,
+        dateTime: normalized?.dateTime ?? null,
+        allDay: normalized?.allDay ?? true,
+        sourceText: deadline.date,
+        location: deadline.location,
+        filename,
+        page: deadline.page,
+      });
+    }
+  }
+
+  return deadlines.sort((a, b) => {
+    if (!a.dateTime) return b.dateTime ? 1 : 0;
+    if (!b.dateTime) return -1;
+    return Date.parse(a.dateTime) - Date.parse(b.dateTime);
+  });
+}
@@ -0,0 +1,208 @@
+import { createHash, randomUUID } from "crypto";
+import { promises as fs } from "fs";
+import path from "path";
+import type { StoredDocument, StoredDocumentDetails } from "./types";
+import { EXTRACTION_PROMPT_VERSION } from "./ai-service";
+import { getLlmProvider } from "./llm-provider";
+import { getEmbeddingProvider } from "./embedding-provider";
+import { cleanupEmbeddings } from "./embeddings";
+import { getVectorStore } from "./vector-store";
+import config from "./config";
+
+// Get configuration
+const libraryConfig = config.getLibraryConfig();
+
+/**
+ * Resolve the library directory relative to the project root
+ */
+function getLibraryDirectory(): string {
+  return path.resolve(process.cwd(), libraryConfig.directory);
+}
+
+function getDocumentPath(documentId: string): string {
+  return path.join(getLibraryDirectory(), `${documentId}.json`);
+}
+
+// Last use is kept next to the document, so recording it never rewrites
+// (and never races with) the document itself
+function getUsagePath(documentId: string): string {
+  return path.join(getLibraryDirectory(), `${documentId}.used`);
+}
+
+/**
+ * Write a file via a uniquely named temp file, so readers never see a
+ * partial write and concurrent writers never share a temp file
+ */
+async function writeFileAtomic(filePath: string, content: string) {
+  const tempPath = `${filePath}.${process.pid}.${randomUUID()}.tmp`;
+  await fs.writeFile(tempPath, content, "utf-8");
+  await fs.rename(tempPath, filePath);
+}
+
+async function readLastUsedAt(documentId: string): Promise<number> {
+  try {
+    const content = await fs.readFile(getUsagePath(documentId), "utf-8");
+    const lastUsedAt = Number(content);
+    return isNaN(lastUsedAt) ? 0 : lastUsedAt;
+  } catch {
+    return 0;
+  }
+}
+
+/**
+ * Stable document ID derived from the file content
+ */
+export function getDocumentId(buffer: Buffer): string {
+  return `doc-${createHash("sha256")
+    .update(buffer)
+    .digest("hex")
+    .slice(0, 24)}`;
+}
+
+/**
+ * Vector namespace holding the embeddings of a stored document
+ */
+export function getDocumentNamespace(documentId: string): string {
+  return `${libraryConfig.namespacePrefix}${documentId}`;
+}
+
+/**
+ * Whether a stored document was indexed with the current models, prompt
+ * and vector store and can be queried without re-ingesting
+ */
+export function isDocumentCurrent(document: StoredDocument): boolean {
+  return (
+    document.model === getLlmProvider().model &&
+    document.promptVersion === EXTRACTION_PROMPT_VERSION &&
+    isDocumentQueryable(document)
+  );
+}
+
+/**
+ * Whether new queries can be answered from the stored embeddings,
+ * which requires the query embedding to come from the same model and
+ * the embeddings to live in the current vector store
+ */
+export function isDocumentQueryable(document: StoredDocument): boolean {
+  return (
+    document.embeddingModel === getEmbeddingProvider().model &&
+    document.vectorStore === getVectorStore().name
+  );
+}
+
+/**
+ * Whether the document's namespace still holds vectors; the memory store
+ * loses them on restart and a store can be cleared independently
+ */
+export async function hasDocumentVectors(
+  document: StoredDocument
+): Promise<boolean> {
+  try {
+    return (await getVectorStore().namespace(document.namespace).count()) > 0;
+  } catch (error) {
+    console.error(`Error counting vectors of document ${document.id}:`, error);
+    return false;
+  }
+}
+
+/**
+ * Load a stored document including its extraction, null if unknown
+ */
+export async function getStoredDocument(
+  documentId: string
+): Promise<StoredDocumentDetails | null> {
+  // IDs end up in file paths, so only accept the generated format
+  if (!/^doc-[a-f0-9]{24}$/.test(documentId)) return null;
+
+  try {
+    const content = await fs.readFile(getDocumentPath(documentId), "utf-8");
+    const document = JSON.parse(content) as StoredDocumentDetails;
+    return {
+      ...document,
+      lastUsedAt: Math.max(
+        document.lastUsedAt,
+        await readLastUsedAt(documentId)
+      ),
+    };
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code !== "ENOENT") {
+      console.error(`Error reading stored document ${documentId}:`, error);
+    }
+    return null;
+  }
+}
+
+/**
+ * Save or replace a document in the library
+ */
+export async function saveStoredDocument(
+  document: StoredDocumentDetails
+): Promise<void> {
+  try {
+    await fs.mkdir(getLibraryDirectory(), { recursive: true });
+
+    await writeFileAtomic(
+      getDocumentPath(document.id),
+      JSON.stringify(document)
+    );
+
+    console.log(`Stored document ${document.id} (${document.filename})`);
+  } catch (error) {
+    console.error(`Error storing document ${document.id}:`, error);
+    throw new Error(`Failed to store document: ${document.filename}`);
+  }
+}
+
+/**
+ * Record that a stored document was queried
+ */
+export async function touchStoredDocument(documentId: string): Promise<void> {
+  try {
+    await writeFileAtomic(getUsagePath(documentId), String(Date.now()));
+  } catch (error) {
+    console.error(`Error recording use of document ${documentId}:`, error);
+  }
+}
+
+/**
+ * List stored documents without their extraction, most recently used first
+ */
+export async function listStoredDocuments(): Promise<StoredDocument[]> {
+  let filenames: string[];
+  try {
+    filenames = await fs.readdir(getLibraryDirectory());
+  } catch {
+    return [];
+  }
+
+  const documents: StoredDocument[] = [];
+  for (const filename of filenames.filter((name) => name.endsWith(".json"))) {
+    const document = await getStoredDocument(filename.replace(/\.json$/, ""));
+    if (!document) continue;
+
+    const summary: StoredDocument & Partial<StoredDocumentDetails> = {
+      ...document,
+    };
+    delete summary.extraction;
+    documents.push(summary);
+  }
+
+  return documents.sort((a, b) => b.lastUsedAt - a.lastUsedAt);
+}
+
+/**
+ * Remove a document and its embeddings, returns false if it was unknown
+ */
+export async function deleteStoredDocument(
+  documentId: string
+): Promise<boolean> {
+  const document = await getStoredDocument(documentId);
+  if (!document) return false;
+
+  await cleanupEmbeddings(document.namespace);
+  await fs.unlink(getDocumentPath(documentId));
+  await fs.rm(getUsagePath(documentId), { force: true });
+
+  console.log(`Deleted document ${documentId} (${document.filename})`);
+  return true;
+}
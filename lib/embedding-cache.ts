@@ -0,0 +1,224 @@
+import { createHash } from "crypto";
+import { promises as fs } from "fs";
+import path from "path";
+import type { EmbeddingProvider } from "./embedding-provider";
+import config from "./config";
+
+// Get configuration
+const cacheConfig = config.getEmbeddingsConfig().cache;
+
+// Keep the memory cache on globalThis so every route handler (and
+// dev-mode reloads) share it; Map order doubles as recency order
+const globalForEmbeddingCache = globalThis as typeof globalThis & {
+  __tenderEmbeddingCache?: Map<string, number[]>;
+  // Entries on disk since the last scan, undefined until the first one
+  __tenderEmbeddingDiskEntries?: number;
+};
+
+function getMemoryCache(): Map<string, number[]> {
+  return (globalForEmbeddingCache.__tenderEmbeddingCache ??= new Map());
+}
+
+function getCacheDirectory(): string {
+  return path.resolve(process.cwd(), cacheConfig.directory);
+}
+
+function getEntryPath(key: string): string {
+  // Two-letter subdirectories keep directory listings short
+  return path.join(getCacheDirectory(), key.slice(0, 2), `${key}.bin`);
+}
+
+/**
+ * All entry files on disk with their last use
+ */
+async function listDiskEntries(): Promise<
+  { entryPath: string; usedAt: number }[]
+> {
+  let subdirectories: string[];
+  try {
+    subdirectories = await fs.readdir(getCacheDirectory());
+  } catch {
+    return [];
+  }
+
+  const entries: { entryPath: string; usedAt: number }[] = [];
+  for (const subdirectory of subdirectories) {
+    let filenames: string[];
+    try {
+      filenames = await fs.readdir(
+        path.join(getCacheDirectory(), subdirectory)
+      );
+    } catch {
+      continue;
+    }
+
+    for (const filename of filenames.filter((name) => name.endsWith(".bin"))) {
+      const entryPath = path.join(getCacheDirectory(), subdirectory, filename);
+      try {
+        const stats = await fs.stat(entryPath);
+        entries.push({ entryPath, usedAt: stats.mtimeMs });
+      } catch {
+        // Removed in the meantime
+      }
+    }
+  }
+  return entries;
+}
+
+/**
+ * Remove the least recently used entries once the disk cache exceeds
+ * embeddings.cache.maxDiskEntries. Prunes to 90% of the limit so the next
+ * scan is not due after the next write.
+ */
+async function pruneDiskCache(): Promise<void> {
+  const entries = await listDiskEntries();
+  globalForEmbeddingCache.__tenderEmbeddingDiskEntries = entries.length;
+  if (entries.length <= cacheConfig.maxDiskEntries) return;
+
+  const excess = entries.length - Math.floor(cacheConfig.maxDiskEntries * 0.9);
+  const oldest = entries.sort((a, b) => a.usedAt - b.usedAt).slice(0, excess);
+
+  let removed = 0;
+  for (const { entryPath } of oldest) {
+    try {
+      await fs.rm(entryPath, { force: true });
+      removed++;
+    } catch (error) {
+      console.error(
+        `Error removing embedding cache entry ${entryPath}:`,
+        error
+      );
+    }
+  }
+
+  globalForEmbeddingCache.__tenderEmbeddingDiskEntries =
+    entries.length - removed;
+  console.log(`Pruned ${removed} least recently used embedding cache entries`);
+}
+
+function remember(key: string, embedding: number[]): void {
+  const memory = getMemoryCache();
+  memory.delete(key);
+  memory.set(key, embedding);
+  while (memory.size > cacheConfig.maxMemoryEntries) {
+    memory.delete(memory.keys().next().value!);
+  }
+}
+
+/**
+ * Cache key: SHA-256 of the text and the provider, model and dimensions
+ */
+export function getEmbeddingCacheKey(
+  text: string,
+  provider: EmbeddingProvider
+): string {
+  return createHash("sha256")
+    .update(
+      [provider.name, provider.model, provider.dimensions, text].join("|")
+    )
+    .digest("hex");
+}
+
+/**
+ * Look up embeddings, null for misses or a disabled cache
+ */
+export async function getCachedEmbeddings(
+  keys: string[]
+): Promise<(number[] | null)[]> {
+  if (!cacheConfig.enabled) return keys.map(() => null);
+
+  const memory = getMemoryCache();
+  return Promise.all(
+    keys.map(async (key) => {
+      const cached = memory.get(key);
+      if (cached) {
+        remember(key, cached);
+        return cached;
+      }
+
+      try {
+        const entryPath = getEntryPath(key);
+        const buffer = await fs.readFile(entryPath);
+        const embedding = Array.from(
+          new Float32Array(
+            buffer.buffer,
+            buffer.byteOffset,
+            buffer.byteLength / Float32Array.BYTES_PER_ELEMENT
+          )
+        );
+        remember(key, embedding);
+
+        // The modification time doubles as last use for pruning
+        const now = new Date();
+        await fs.utimes(entryPath, now, now).catch(() => undefined);
+        return embedding;
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code !== "ENOENT") {
+          console.error(`Error reading embedding cache entry ${key}:`, error);
+        }
+        return null;
+      }
+    })
+  );
+}
+
+/**
+ * Store embeddings; failures are logged but never fail processing
+ */
+export async function setCachedEmbeddings(
+  entries: { key: string; embedding: number[] }[]
+): Promise<void> {
+  if (!cacheConfig.enabled) return;
+
+  let written = 0;
+  await Promise.all(
+    entries.map(async ({ key, embedding }) => {
+      remember(key, embedding);
+      try {
+        const entryPath = getEntryPath(key);
+        await fs.mkdir(path.dirname(entryPath), { recursive: true });
+
+        // Write to a temp file first so readers never see a partial entry
+        const tempPath = `${entryPath}.${process.pid}.tmp`;
+        await fs.writeFile(
+          tempPath,
+          new Uint8Array(Float32Array.from(embedding).buffer)
+        );
+        await fs.rename(tempPath, entryPath);
+        written++;
+      } catch (error) {
+        console.error(`Error writing embedding cache entry ${key}:`, error);
+      }
+    })
+  );
+
+  // Count since the last scan; scan on first use and past the limit
+  const diskEntries = globalForEmbeddingCache.__tenderEmbeddingDiskEntries;
+  if (
+    diskEntries === undefined ||
+    diskEntries + written > cacheConfig.maxDiskEntries
+  ) {
+    try {
+      await pruneDiskCache();
+    } catch (error) {
+      console.error("Error pruning embedding cache:", error);
+    }
+  } else {
+    globalForEmbeddingCache.__tenderEmbeddingDiskEntries =
+      diskEntries + written;
+  }
+}
+
+/**
+ * Clear the embedding cache in memory and on disk.
+ * Returns the number of removed disk entries.
+ */
+export async function clearEmbeddingCache(): Promise<number> {
+  const entries = await listDiskEntries();
+  getMemoryCache().clear();
+  await fs.rm(getCacheDirectory(), { recursive: true, force: true });
+  globalForEmbeddingCache.__tenderEmbeddingDiskEntries = 0;
+
+  console.log(`Cleared ${entries.length} embedding cache entries`);
+  return entries.length;
+}
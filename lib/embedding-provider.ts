@@ -0,0 +1,192 @@
+import OpenAI from "openai";
+import path from "path";
+import type { FeatureExtractionPipeline } from "@huggingface/transformers";
+import type { CallOptions } from "./types";
+import { throwIfCancelled } from "./cancellation";
+import config, { type EmbeddingProviderName } from "./config";
+
+// Get configuration
+const aiConfig = config.getAiConfig();
+const embeddingsConfig = config.getEmbeddingsConfig();
+
+/**
+ * Backend that turns texts into vectors. Retries are handled by the
+ * callers through withRetry, so providers make a single attempt.
+ */
+export interface EmbeddingProvider {
+  name: EmbeddingProviderName;
+  // Recorded with cached extractions and stored documents
+  model: string;
+  // Length of every vector the provider returns
+  dimensions: number;
+  embed(texts: string[], options?: CallOptions): Promise<number[][]>;
+}
+
+function createOpenAiProvider(): EmbeddingProvider {
+  const openai = new OpenAI({
+    apiKey: process.env.OPENAI_API_KEY!,
+    maxRetries: 0,
+  });
+  const { embeddingModel: model, embeddingDimensions: dimensions } =
+    aiConfig.openai;
+  // Older models cannot shorten their vectors
+  const supportsDimensions = model.startsWith("text-embedding-3");
+
+  return {
+    name: "openai",
+    model,
+    dimensions,
+    async embed(texts, options = {}) {
+      const response = await openai.embeddings.create(
+        {
+          model,
+          input: texts,
+          ...(supportsDimensions ? { dimensions } : {}),
+        },
+        { signal: options.signal }
+      );
+      return response.data
+        .sort((a, b) => a.index - b.index)
+        .map((item) => item.embedding);
+    },
+  };
+}
+
+function createLocalProvider(): EmbeddingProvider {
+  const { model, dimensions, cacheDirectory, allowRemoteModels } =
+    embeddingsConfig.local;
+  let extractor: Promise<FeatureExtractionPipeline> | null = null;
+
+  // The model is loaded once, on first use
+  const getExtractor = () =>
+    (extractor ??= import("@huggingface/transformers")
+      .then(({ pipeline }) => {
+        // The generic signature covers every task and is too complex for tsc
+        const createExtractor = pipeline as unknown as (
+          task: "feature-extraction",
+          model: string,
+          options: { cache_dir: string; local_files_only: boolean }
+        ) => Promise<FeatureExtractionPipeline>;
+
+        console.log(`Loading local embedding model ${model}`);
+        return createExtractor("feature-extraction", model, {
+          cache_dir: path.resolve(process.cwd(), cacheDirectory),
+          local_files_only: !allowRemoteModels,
+        });
+      })
+      .catch((error) => {
+        extractor = null;
+        console.error(`Error loading local embedding model ${model}:`, error);
+        throw new Error(`Failed to load local embedding model: ${model}`);
+      }));
+
+  return {
+    name: "local",
+    model,
+    dimensions,
+    async embed(texts, options = {}) {
+      const pipeline = await getExtractor();
+      throwIfCancelled(options.signal);
+      const output = await pipeline(texts, {
+        pooling: "mean",
+        normalize: true,
+      });
+      return output.tolist() as number[][];
+    },
+  };
+}
+
+// 32-bit FNV-1a
+function hashFeature(feature: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < feature.length; i++) {
+    hash ^= feature.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+/**
+ * Feature-hashed vector of the words and their character trigrams,
+ * so compounds share features with their parts
+ */
+export function hashEmbedding(text: string, dimensions: number): number[] {
+  const vector = new Array<number>(dimensions).fill(0);
+  const words = text.toLowerCase().match(/[\p{L}\p{N}]+/gu) ?? [];
+
+  for (const word of words) {
+    const padded = `#${word}#`;
+    const features = [word];
+    for (let i = 0; i + 3 <= padded.length; i++) {
+      features.push(padded.slice(i, i + 3));
+    }
+    for (const feature of features) {
+      const hash = hashFeature(feature);
+      // The top bit decides the sign so collisions tend to cancel out
+      vector[hash % dimensions] += hash & 0x80000000 ? -1 : 1;
+    }
+  }
+
+  const norm = Math.sqrt(vector.reduce((sum, value) => sum + value ** 2, 0));
+  return norm > 0 ? vector.map((value) => value / norm) : vector;
+}
+
+function createHashingProvider(): EmbeddingProvider {
+  const { dimensions } = embeddingsConfig.hashing;
+
+  return {
+    name: "hashing",
+    model: `hashing-${dimensions}`,
+    dimensions,
+    async embed(texts) {
+      return texts.map((text) => hashEmbedding(text, dimensions));
+    },
+  };
+}
+
+/**
+ * Throw if vectors do not have the dimensions of the vector index
+ */
+export function assertEmbeddingDimensions(
+  embeddings: number[][],
+  source: string
+): void {
+  const expected = config.getEmbeddingDimensions();
+  const mismatch = embeddings.find(
+    (embedding) => embedding.length !== expected
+  );
+  if (mismatch) {
+    throw new Error(
+      `${source} returned ${mismatch.length} dimensions, but the vector index expects ${expected}`
+    );
+  }
+}
+
+let provider: EmbeddingProvider | null = null;
+
+/**
+ * The provider selected by config.embeddings.provider, created on first
+ * use. Throws if it does not match the configured index dimensions.
+ */
+export function getEmbeddingProvider(): EmbeddingProvider {
+  if (!provider) {
+    let created: EmbeddingProvider;
+    switch (embeddingsConfig.provider) {
+      case "openai":
+        created = createOpenAiProvider();
+        break;
+      case "local":
+        created = createLocalProvider();
+        break;
+      case "hashing":
+        created = createHashingProvider();
+        break;
+    }
+
+    console.log(
+      `Using embedding provider ${created.name} (${created.model}, ${created.dimensions} dimensions)`
+    );
+    provider = created;
+  }
+  return provider;
+}
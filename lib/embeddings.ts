@@ -1,67 +1,185 @@
-import { Index } from "@upstash/vector";
-import OpenAI from "openai";
 import type {
-  EmbeddingsMetadata,
+  CallOptions,
+  ChunkFilter,
+  ChunkSearchOptions,
+  ChunkTag,
   ProcessedChunk,
+  Retriever,
   VectorSearchResult,
 } from "./types";
+import { rethrowIfCancelled, throwIfCancelled } from "./cancellation";
+import { sleep, withRetry } from "./retry";
+import {
+  assertEmbeddingDimensions,
+  getEmbeddingProvider,
+} from "./embedding-provider";
+import { getVectorStore, type VectorFilter } from "./vector-store";
+import {
+  deleteLexicalIndex,
+  saveLexicalIndex,
+  searchLexicalIndex,
+} from "./lexical-index";
+import {
+  getCachedEmbeddings,
+  getEmbeddingCacheKey,
+  setCachedEmbeddings,
+} from "./embedding-cache";
+import { estimateTokens } from "./context-selection";
 import config from "./config";
 
-// Initialize OpenAI client
-const openai = new OpenAI({
-  apiKey: process.env.OPENAI_API_KEY!,
-});
-
-// Initialize vector index
-const vectorIndex = new Index<EmbeddingsMetadata>({
-  url: process.env.UPSTASH_VECTOR_REST_URL!,
-  token: process.env.UPSTASH_VECTOR_REST_TOKEN!,
-});
-
 // Get configuration
-const aiConfig = config.getAiConfig();
+const embeddingsConfig = config.getEmbeddingsConfig();
 const processingConfig = config.getProcessingConfig();
+const retrievalConfig = config.getRetrievalConfig();
 const sessionConfig = config.getSessionConfig();
 
 /**
- * Create namespace for document embeddings
+ * Create namespace for document embeddings in the configured vector store
  */
 export function createNamespace(sessionId: string) {
-  return vectorIndex.namespace(sessionId);
+  return getVectorStore().namespace(sessionId);
 }
 
+// Provider requests in flight; shared by every run of the process
+const globalForEmbeddingRequests = globalThis as typeof globalThis & {
+  __tenderEmbeddingRequests?: { active: number; waiting: (() => void)[] };
+};
+
 /**
- * Generate embeddings for text chunks using OpenAI
+ * Run a provider request once fewer than batching.concurrency are in flight
  */
-export async function generateEmbeddings(
-  textChunks: string[]
-): Promise<number[][]> {
+async function withRequestSlot<T>(task: () => Promise<T>): Promise<T> {
+  const slots = (globalForEmbeddingRequests.__tenderEmbeddingRequests ??= {
+    active: 0,
+    waiting: [],
+  });
+  while (slots.active >= embeddingsConfig.batching.concurrency) {
+    await new Promise<void>((resolve) => slots.waiting.push(resolve));
+  }
+
+  slots.active++;
   try {
-    console.log(`\n=== GENERATING EMBEDDINGS ===`);
-    console.log(`Number of text chunks: ${textChunks.length}`);
-    console.log(`Model: ${aiConfig.openai.embeddingModel}`);
+    return await task();
+  } finally {
+    slots.active--;
+    slots.waiting.shift()?.();
+  }
+}
 
-    const embeddings: number[][] = [];
+/**
+ * Split texts into provider requests by count and estimated tokens
+ */
+function createBatches(texts: string[]): string[][] {
+  const { maxInputsPerBatch, maxTokensPerBatch } = embeddingsConfig.batching;
+  const batches: string[][] = [];
+  let batch: string[] = [];
+  let batchTokens = 0;
+
+  for (const text of texts) {
+    const tokens = estimateTokens(text);
+    if (
+      batch.length > 0 &&
+      (batch.length >= maxInputsPerBatch ||
+        batchTokens + tokens > maxTokensPerBatch)
+    ) {
+      batches.push(batch);
+      batch = [];
+      batchTokens = 0;
+    }
+    batch.push(text);
+    batchTokens += tokens;
+  }
 
-    // Process each text chunk individually
-    for (const chunk of textChunks) {
-      console.log(
-        `Processing chunk (length: ${chunk.length}): "${chunk.substring(
-          0,
-          100
-        )}${chunk.length > 100 ? "..." : ""}"`
-      );
+  if (batch.length > 0) batches.push(batch);
+  return batches;
+}
 
-      const response = await openai.embeddings.create({
-        model: aiConfig.openai.embeddingModel,
-        input: chunk,
-      });
+/**
+ * Embed texts through the cache: cached and repeated texts skip the
+ * provider, the rest are sent in concurrent batches
+ */
+async function embedTexts(
+  texts: string[],
+  options: CallOptions,
+  label: string
+): Promise<number[][]> {
+  const startedAt = Date.now();
+  const provider = getEmbeddingProvider();
+  const keys = texts.map((text) => getEmbeddingCacheKey(text, provider));
+  const cached = await getCachedEmbeddings(keys);
+
+  // Each missing text is sent once, however often it occurs
+  const missing = new Map<string, string>();
+  texts.forEach((text, index) => {
+    if (!cached[index]) missing.set(text, keys[index]);
+  });
+
+  const batches = createBatches(Array.from(missing.keys()));
+  const embedded = new Map<string, number[]>();
+  await Promise.all(
+    batches.map((batch, index) =>
+      withRequestSlot(async () => {
+        throwIfCancelled(options.signal);
+        const embeddings = await withRetry(
+          () => provider.embed(batch, options),
+          {
+            ...options,
+            label: `${provider.name} ${label} batch ${index + 1}/${
+              batches.length
+            }`,
+          }
+        );
+        if (embeddings.length !== batch.length) {
+          throw new Error(
+            `Embedding provider ${provider.name} returned ${embeddings.length} embeddings for ${batch.length} texts`
+          );
+        }
+        batch.forEach((text, position) =>
+          embedded.set(missing.get(text)!, embeddings[position])
+        );
+      })
+    )
+  );
+
+  assertEmbeddingDimensions(
+    Array.from(embedded.values()),
+    `Embedding provider ${provider.name}`
+  );
+  await setCachedEmbeddings(
+    Array.from(embedded, ([key, embedding]) => ({ key, embedding }))
+  );
+
+  const elapsedMs = Date.now() - startedAt;
+  const cacheHits = texts.length - missing.size;
+  const stats = options.embeddingStats;
+  if (stats) {
+    stats.texts += texts.length;
+    stats.cacheHits += cacheHits;
+    stats.embedded += missing.size;
+    stats.batches += batches.length;
+    stats.elapsedMs += elapsedMs;
+  }
+  console.log(
+    `Embedded ${texts.length} texts for ${label}: ${cacheHits} cache hits, ${missing.size} sent in ${batches.length} batches (${elapsedMs}ms)`
+  );
 
-      const embedding = response.data[0].embedding;
-      console.log(`Generated embedding with ${embedding.length} dimensions`);
+  return keys.map((key, index) => cached[index] ?? embedded.get(key)!);
+}
 
-      embeddings.push(embedding);
-    }
+/**
+ * Generate embeddings for text chunks with the configured provider
+ */
+export async function generateEmbeddings(
+  textChunks: string[],
+  options: CallOptions = {}
+): Promise<number[][]> {
+  try {
+    const provider = getEmbeddingProvider();
+    console.log(`\n=== GENERATING EMBEDDINGS ===`);
+    console.log(`Number of text chunks: ${textChunks.length}`);
+    console.log(`Model: ${provider.model} (${provider.name})`);
+
+    const embeddings = await embedTexts(textChunks, options, "embedding");
 
     console.log(`Generated ${embeddings.length} embeddings`);
     console.log(`Embedding dimensions: ${embeddings[0]?.length}`);
@@ -69,23 +187,31 @@ export async function generateEmbeddings(
 
     return embeddings;
   } catch (error) {
+    rethrowIfCancelled(error, options.signal);
     console.error("Error generating embeddings:", error);
     throw new Error("Failed to generate embeddings");
   }
 }
 
 /**
- * Store embeddings in Upstash Vector using namespaces
+ * Store embeddings in the vector store using namespaces
  */
 export async function storeEmbeddings(
   processedChunks: ProcessedChunk[],
-  sessionId: string
+  sessionId: string,
+  options: CallOptions = {}
 ): Promise<void> {
   try {
     console.log(`\n=== STORING EMBEDDINGS ===`);
     console.log(`Session ID: ${sessionId}`);
     console.log(`Number of processed chunks: ${processedChunks.length}`);
 
+    // Checked before the first upsert, e.g. for embeddings of another model
+    assertEmbeddingDimensions(
+      processedChunks.map((chunk) => chunk.embedding),
+      "Chunk embeddings"
+    );
+
     const namespace = createNamespace(sessionId);
 
     const vectors = processedChunks.map((chunk, index) => ({
@@ -94,9 +220,12 @@ export async function storeEmbeddings(
       metadata: {
         text: chunk.text,
         filename: chunk.metadata.filename,
-        page: chunk.metadata.page,
+        pageStart: chunk.metadata.pageStart,
+        pageEnd: chunk.metadata.pageEnd,
         chunkIndex: chunk.metadata.chunkIndex,
         totalChunks: chunk.metadata.totalChunks,
+        tags: chunk.tags,
+        dates: chunk.dates,
       },
     }));
 
@@ -111,6 +240,8 @@ export async function storeEmbeddings(
     // Store in batches to avoid hitting rate limits
     const batchSize = processingConfig.embeddings.batchSize;
     for (let i = 0; i < vectors.length; i += batchSize) {
+      throwIfCancelled(options.signal);
+
       const batch = vectors.slice(i, i + batchSize);
       console.log(
         `Storing batch ${Math.floor(i / batchSize) + 1}/${Math.ceil(
@@ -118,26 +249,74 @@ export async function storeEmbeddings(
         )} (${batch.length} vectors)`
       );
 
-      const result = await namespace.upsert(batch);
+      const result = await withRetry(() => namespace.upsert(batch), {
+        ...options,
+        label: `${getVectorStore().name} upsert`,
+      });
       console.log(`Batch ${Math.floor(i / batchSize) + 1} result:`, result);
     }
 
-    // Add a delay to ensure embeddings are properly indexed
-    console.log(`Waiting 2 seconds for embeddings to be indexed...`);
-    await new Promise((resolve) => setTimeout(resolve, 2000));
+    // Keyword index over the same paragraphs, with the same IDs
+    await saveLexicalIndex(
+      sessionId,
+      vectors.map(({ id, metadata }) => ({ id, metadata }))
+    );
+
+    await waitForIndexing(sessionId, vectors.length, options);
 
-    // Verify embeddings were stored correctly
-    await testEmbeddingsStorage(sessionId);
+    if (config.isStorageDiagnosticsEnabled()) {
+      throwIfCancelled(options.signal);
+      await testEmbeddingsStorage(sessionId);
+    }
 
     console.log(`=== EMBEDDINGS STORED SUCCESSFULLY ===\n`);
   } catch (error) {
+    rethrowIfCancelled(error, options.signal);
     console.error("Error storing embeddings:", error);
     throw new Error("Failed to store embeddings");
   }
 }
 
 /**
- * Test if embeddings were stored correctly
+ * Poll the namespace until the stored vectors are visible to queries.
+ * Gives up with a warning after indexingTimeoutMs; searches then see the
+ * vectors indexed so far.
+ */
+async function waitForIndexing(
+  sessionId: string,
+  expectedCount: number,
+  options: CallOptions
+): Promise<boolean> {
+  const { indexingPollIntervalMs, indexingTimeoutMs } =
+    processingConfig.embeddings;
+  const namespace = createNamespace(sessionId);
+  const startedAt = Date.now();
+
+  for (;;) {
+    const count = await withRetry(() => namespace.count(), {
+      ...options,
+      label: `${getVectorStore().name} count`,
+    });
+    const elapsedMs = Date.now() - startedAt;
+
+    if (count >= expectedCount) {
+      console.log(
+        `${count} vectors of ${sessionId} indexed after ${elapsedMs}ms`
+      );
+      return true;
+    }
+    if (elapsedMs >= indexingTimeoutMs) {
+      console.warn(
+        `Only ${count}/${expectedCount} vectors of ${sessionId} indexed after ${elapsedMs}ms, continuing`
+      );
+      return false;
+    }
+    await sleep(indexingPollIntervalMs, options.signal);
+  }
+}
+
+/**
+ * Test if embeddings were stored correctly (storage diagnostics only)
  */
 async function testEmbeddingsStorage(sessionId: string): Promise<void> {
   try {
@@ -159,9 +338,8 @@ async function testEmbeddingsStorage(sessionId: string): Promise<void> {
 
     // Try a simple query to see if we can retrieve anything
     const testQuery = await namespace.query({
-      vector: new Array(1536).fill(0.1), // Simple test vector for text-embedding-3-small
+      vector: new Array(config.getEmbeddingDimensions()).fill(0.1),
       topK: 3,
-      includeMetadata: true,
     });
 
     console.log(`Simple query test results:`, testQuery);
@@ -174,91 +352,243 @@ async function testEmbeddingsStorage(sessionId: string): Promise<void> {
 }
 
 /**
- * Search for relevant chunks using similarity search
+ * Metadata filter of the vector store for a chunk filter
+ */
+function toVectorFilter(filter: ChunkFilter = {}): VectorFilter {
+  return {
+    ...(filter.tags?.length ? { tags: { containsAny: filter.tags } } : {}),
+    ...(filter.filenames?.length ? { filename: { in: filter.filenames } } : {}),
+    ...(filter.pageStart !== undefined
+      ? { pageEnd: { gte: filter.pageStart } }
+      : {}),
+    ...(filter.pageEnd !== undefined
+      ? { pageStart: { lte: filter.pageEnd } }
+      : {}),
+  };
+}
+
+/**
+ * Multiply the scores of chunks with one of the tags by retrieval.tags.boost
+ */
+function boostTaggedResults(
+  results: VectorSearchResult[],
+  boostTags: ChunkTag[] = []
+): VectorSearchResult[] {
+  if (boostTags.length === 0) return results;
+  return results
+    .map((result) =>
+      result.metadata.tags?.some((tag) => boostTags.includes(tag))
+        ? { ...result, score: result.score * retrievalConfig.tags.boost }
+        : result
+    )
+    .sort((a, b) => b.score - a.score);
+}
+
+/**
+ * Search for relevant chunks with the embedding of the question and with
+ * keywords, fused by reciprocal rank. Several namespaces (e.g. the
+ * documents of a tender package) are searched together and their results
+ * merged. Chunks can be restricted by tags, file and pages and boosted by
+ * tags.
  */
 export async function searchRelevantChunks(
   question: string,
-  sessionId: string,
-  topK: number = 25
+  sessionIds: string | string[],
+  topK: number = 25,
+  options: CallOptions = {},
+  search: ChunkSearchOptions = {}
 ): Promise<VectorSearchResult[]> {
   try {
+    const namespaces = Array.isArray(sessionIds) ? sessionIds : [sessionIds];
+    const { weights } = retrievalConfig;
+    const filter = toVectorFilter(search.filter);
+
     console.log(`\n=== SEARCHING RELEVANT CHUNKS ===`);
     console.log(`Question: ${question}`);
-    console.log(`Session ID: ${sessionId}`);
+    console.log(`Session IDs: ${namespaces.join(", ")}`);
     console.log(`TopK: ${topK}`);
-
-    const namespace = createNamespace(sessionId);
-
-    // First, let's check if we have any vectors in the namespace
-    try {
-      const testFetch = await namespace.fetch([`${sessionId}:chunk:0`]);
-      console.log(`Test fetch result for ${sessionId}:chunk:0:`, testFetch);
-    } catch (fetchError) {
-      console.log(`Test fetch error:`, fetchError);
+    if (search.filter || search.boostTags) {
+      console.log(`Filter: ${JSON.stringify(filter)}`);
+      console.log(`Boosted tags: ${search.boostTags?.join(", ") || "none"}`);
     }
 
-    const response = await openai.embeddings.create({
-      model: aiConfig.openai.embeddingModel,
-      input: question,
-    });
-
-    const embedding = response.data[0].embedding;
-    console.log(
-      `Generated embedding for question (length: ${embedding.length})`
-    );
-
-    const results = await namespace.query({
-      vector: embedding,
-      topK,
-      includeMetadata: true,
-    });
-
-    console.log(`Raw query results:`, results);
-    console.log(`Number of results: ${results.length}`);
-
-    const mappedResults = results.map((result) => ({
-      id: String(result.id),
-      score: result.score || 0,
-      metadata: {
-        text: result.metadata?.text || "",
-        filename: result.metadata?.filename || "Unknown",
-        page: result.metadata?.page || 1,
-        chunkIndex: result.metadata?.chunkIndex || 0,
-        totalChunks: result.metadata?.totalChunks || 1,
-      },
-    }));
+    const rankings: Partial<Record<Retriever, VectorSearchResult[]>> = {};
+    if (weights.vector > 0) {
+      rankings.vector = await searchVectorIndex(
+        question,
+        namespaces,
+        topK,
+        filter,
+        options
+      );
+    }
+    if (weights.lexical > 0) {
+      throwIfCancelled(options.signal);
+      rankings.lexical = await searchLexicalIndex(
+        question,
+        namespaces,
+        topK,
+        filter
+      );
+      console.log(`Keyword search returned ${rankings.lexical.length} results`);
+    }
 
-    console.log(
-      `Mapped results before deduplication:`,
-      mappedResults.map((r) => ({
-        id: r.id,
-        score: r.score,
-        textLength: r.metadata.text.length,
-        filename: r.metadata.filename,
-      }))
+    const fusedResults = deduplicateResults(
+      boostTaggedResults(fuseRankings(rankings), search.boostTags)
     );
 
-    // Deduplicate results based on text content
-    const deduplicatedResults = deduplicateResults(mappedResults);
-
     console.log(
-      `Mapped results after deduplication:`,
-      deduplicatedResults.map((r) => ({
+      `Fused results:`,
+      fusedResults.map((r) => ({
         id: r.id,
         score: r.score,
-        textLength: r.metadata.text.length,
+        retrievers: Object.keys(r.retrievers ?? {}),
+        tags: r.metadata.tags,
         filename: r.metadata.filename,
       }))
     );
 
     console.log(`=== SEARCH COMPLETED ===\n`);
-    return deduplicatedResults;
+    return fusedResults.slice(0, topK);
   } catch (error) {
+    rethrowIfCancelled(error, options.signal);
     console.error("Error searching relevant chunks:", error);
     throw new Error("Failed to search for relevant content");
   }
 }
 
+/**
+ * Similarity search with the embedding of the question
+ */
+async function searchVectorIndex(
+  question: string,
+  namespaces: string[],
+  topK: number,
+  filter: VectorFilter,
+  options: CallOptions
+): Promise<VectorSearchResult[]> {
+  // Check that the namespaces hold vectors at all
+  if (config.isStorageDiagnosticsEnabled()) {
+    for (const sessionId of namespaces) {
+      try {
+        const testFetch = await createNamespace(sessionId).fetch([
+          `${sessionId}:chunk:0`,
+        ]);
+        console.log(`Test fetch result for ${sessionId}:chunk:0:`, testFetch);
+      } catch (fetchError) {
+        console.log(`Test fetch error:`, fetchError);
+      }
+    }
+  }
+
+  const [embedding] = await embedTexts([question], options, "query embedding");
+  console.log(`Generated embedding for question (length: ${embedding.length})`);
+
+  const results = [];
+  for (const sessionId of namespaces) {
+    throwIfCancelled(options.signal);
+    const namespace = createNamespace(sessionId);
+    const namespaceResults = await withRetry(
+      () =>
+        namespace.query({
+          vector: embedding,
+          topK,
+          filter,
+        }),
+      { ...options, label: `${getVectorStore().name} query` }
+    );
+    results.push(...namespaceResults);
+  }
+
+  console.log(`Raw query results:`, results);
+  console.log(`Number of results: ${results.length}`);
+
+  const mappedResults = results.map((result) => ({
+    id: String(result.id),
+    score: result.score || 0,
+    metadata: {
+      text: result.metadata?.text || "",
+      filename: result.metadata?.filename || "Unknown",
+      // Documents stored before page ranges only carry a single "page"
+      pageStart:
+        result.metadata?.pageStart || Number(result.metadata?.page) || 1,
+      pageEnd: result.metadata?.pageEnd || Number(result.metadata?.page) || 1,
+      chunkIndex: result.metadata?.chunkIndex || 0,
+      totalChunks: result.metadata?.totalChunks || 1,
+      tags: result.metadata?.tags,
+      dates: result.metadata?.dates,
+    },
+  }));
+
+  console.log(
+    `Mapped results before deduplication:`,
+    mappedResults.map((r) => ({
+      id: r.id,
+      score: r.score,
+      textLength: r.metadata.text.length,
+      filename: r.metadata.filename,
+    }))
+  );
+
+  // Deduplicate results based on text content
+  const deduplicatedResults = deduplicateResults(mappedResults);
+
+  console.log(
+    `Mapped results after deduplication:`,
+    deduplicatedResults.map((r) => ({
+      id: r.id,
+      score: r.score,
+      textLength: r.metadata.text.length,
+      filename: r.metadata.filename,
+    }))
+  );
+
+  return deduplicatedResults.slice(0, topK);
+}
+
+/**
+ * Reciprocal rank fusion: every retriever adds weight / (rrfK + rank).
+ * Scores are scaled so a chunk ranked first everywhere scores 1. With a
+ * single retriever its own scores are kept.
+ */
+function fuseRankings(
+  rankings: Partial<Record<Retriever, VectorSearchResult[]>>
+): VectorSearchResult[] {
+  const { rrfK, weights } = retrievalConfig;
+  const retrievers = Object.keys(rankings) as Retriever[];
+  const fused = new Map<string, VectorSearchResult>();
+
+  for (const retriever of retrievers) {
+    rankings[retriever]!.forEach((result, index) => {
+      const hit = { rank: index + 1, score: result.score };
+      const contribution = weights[retriever] / (rrfK + hit.rank);
+      const existing = fused.get(result.id);
+      if (existing) {
+        existing.score += contribution;
+        existing.retrievers = { ...existing.retrievers, [retriever]: hit };
+      } else {
+        fused.set(result.id, {
+          ...result,
+          score: retrievers.length > 1 ? contribution : result.score,
+          retrievers: { [retriever]: hit },
+        });
+      }
+    });
+  }
+
+  const results = Array.from(fused.values());
+  if (retrievers.length > 1) {
+    const maxScore = retrievers.reduce(
+      (sum, retriever) => sum + weights[retriever] / (rrfK + 1),
+      0
+    );
+    for (const result of results) {
+      result.score /= maxScore;
+    }
+  }
+  return results.sort((a, b) => b.score - a.score);
+}
+
 /**
  * Remove duplicate results based on text content
  * Keeps the result with the highest score when duplicates are found
@@ -270,7 +600,7 @@ function deduplicateResults(
 
   for (const result of results) {
     const textKey = result.metadata.text.trim().toLowerCase();
-    const uniqueKey = `${result.metadata.filename}:${result.metadata.page}:${textKey}`;
+    const uniqueKey = `${result.metadata.filename}:${result.metadata.pageStart}-${result.metadata.pageEnd}:${textKey}`;
 
     // If we haven't seen this text before, or if this result has a higher score
     if (!seen.has(uniqueKey) || result.score > seen.get(uniqueKey)!.score) {
@@ -289,7 +619,10 @@ export async function cleanupEmbeddings(sessionId: string): Promise<void> {
   try {
     const namespace = createNamespace(sessionId);
     // Delete all vectors in the namespace
-    await namespace.reset();
+    await withRetry(() => namespace.reset(), {
+      label: `${getVectorStore().name} reset`,
+    });
+    await deleteLexicalIndex(sessionId);
     console.log(`Cleaned up embeddings for session: ${sessionId}`);
   } catch (error) {
     console.error("Error cleaning up embeddings:", error);
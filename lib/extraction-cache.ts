@@ -0,0 +1,182 @@
+import { createHash } from "crypto";
+import { promises as fs } from "fs";
+import path from "path";
+import type { DocumentChunk, Language } from "./types";
+import type { TenderExtraction } from "./tender-extraction";
+import { EXTRACTION_PROMPT_VERSION } from "./ai-service";
+import { getLlmProvider } from "./llm-provider";
+import { getEmbeddingProvider } from "./embedding-provider";
+import config from "./config";
+
+// Get configuration
+const cacheConfig = config.getCacheConfig();
+
+/**
+ * Everything derived from one PDF chunk that is expensive to recompute
+ */
+export interface CachedExtraction {
+  key: string;
+  chunkHash: string;
+  filename: string;
+  model: string;
+  embeddingModel: string;
+  promptVersion: string;
+  createdAt: number;
+  rawExtraction: string;
+  tenderData: TenderExtraction;
+  // Detected language of the chunk, null if not supported
+  language: Language | null;
+  paragraphs: string[];
+  embeddings: number[][];
+}
+
+export type CacheEntrySummary = Omit<
+  CachedExtraction,
+  "rawExtraction" | "tenderData" | "paragraphs" | "embeddings"
+> & { paragraphCount: number };
+
+/**
+ * Resolve the cache directory relative to the project root
+ */
+function getCacheDirectory(): string {
+  return path.resolve(process.cwd(), cacheConfig.directory);
+}
+
+function getEntryPath(key: string): string {
+  return path.join(getCacheDirectory(), `${key}.json`);
+}
+
+/**
+ * SHA-256 of the PDF bytes sent to Claude for this chunk
+ */
+export function hashChunkContent(buffer: Buffer): string {
+  return createHash("sha256").update(buffer).digest("hex");
+}
+
+/**
+ * Cache key: chunk content plus everything that changes the extraction
+ * (model, prompt version and language, chunk position in the prompt,
+ * embedding model)
+ */
+export function getExtractionCacheKey(
+  chunkHash: string,
+  chunk: DocumentChunk,
+  promptLanguage: Language
+): string {
+  return createHash("sha256")
+    .update(
+      [
+        chunkHash,
+        getLlmProvider().model,
+        EXTRACTION_PROMPT_VERSION,
+        promptLanguage,
+        chunk.metadata.chunkIndex,
+        chunk.metadata.totalChunks,
+        getEmbeddingProvider().model,
+      ].join("|")
+    )
+    .digest("hex");
+}
+
+/**
+ * Look up a cached extraction, returns null on a miss or a disabled cache
+ */
+export async function getCachedExtraction(
+  key: string
+): Promise<CachedExtraction | null> {
+  if (!cacheConfig.enabled) return null;
+
+  try {
+    const content = await fs.readFile(getEntryPath(key), "utf-8");
+    return JSON.parse(content) as CachedExtraction;
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code !== "ENOENT") {
+      console.error(`Error reading extraction cache entry ${key}:`, error);
+    }
+    return null;
+  }
+}
+
+/**
+ * Store an extraction; failures are logged but never fail processing
+ */
+export async function setCachedExtraction(
+  entry: CachedExtraction
+): Promise<void> {
+  if (!cacheConfig.enabled) return;
+
+  try {
+    await fs.mkdir(getCacheDirectory(), { recursive: true });
+
+    // Write to a temp file first so readers never see a partial entry
+    const entryPath = getEntryPath(entry.key);
+    const tempPath = `${entryPath}.${process.pid}.tmp`;
+    await fs.writeFile(tempPath, JSON.stringify(entry), "utf-8");
+    await fs.rename(tempPath, entryPath);
+  } catch (error) {
+    console.error(`Error writing extraction cache entry ${entry.key}:`, error);
+  }
+}
+
+/**
+ * List all cache entries without their (large) payloads
+ */
+export async function listCachedExtractions(): Promise<CacheEntrySummary[]> {
+  let filenames: string[];
+  try {
+    filenames = await fs.readdir(getCacheDirectory());
+  } catch {
+    return [];
+  }
+
+  const summaries: CacheEntrySummary[] = [];
+  for (const filename of filenames.filter((name) => name.endsWith(".json"))) {
+    const entry = await getCachedExtraction(filename.replace(/\.json$/, ""));
+    if (!entry) continue;
+
+    summaries.push({
+      key: entry.key,
+      chunkHash: entry.chunkHash,
+      filename: entry.filename,
+      model: entry.model,
+      embeddingModel: entry.embeddingModel,
+      promptVersion: entry.promptVersion,
+      // Entries of earlier prompt versions were stored without a language
+      language: entry.language ?? null,
+      createdAt: entry.createdAt,
+      paragraphCount: entry.paragraphs.length,
+    });
+  }
+
+  return summaries.sort((a, b) => b.createdAt - a.createdAt);
+}
+
+/**
+ * Remove cache entries. Without a filter the whole cache is cleared.
+ * Returns the number of removed entries.
+ */
+export async function invalidateCachedExtractions(
+  filter: { key?: string; filename?: string; promptVersion?: string } = {}
+): Promise<number> {
+  const entries = await listCachedExtractions();
+  const matching = entries.filter(
+    (entry) =>
+      (!filter.key || entry.key === filter.key) &&
+      (!filter.filename || entry.filename === filter.filename) &&
+      (!filter.promptVersion || entry.promptVersion === filter.promptVersion)
+  );
+
+  for (const entry of matching) {
+    try {
+      await fs.unlink(getEntryPath(entry.key));
+    } catch (error) {
+      console.error(
+        `Error removing extraction cache entry ${entry.key}:`,
+        error
+      );
+    }
+  }
+
+  console.log(`Invalidated ${matching.length} extraction cache entries`);
+  return matching.length;
+}
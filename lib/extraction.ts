@@ -1,12 +1,23 @@
 import type {
+  CallOptions,
   DocumentChunk,
   ProcessedChunk,
   QuestionAnswer,
   DocumentExtractionDebug,
-  QueryType,
   FileResult,
   ProcessingResult,
+  AnalysisMode,
+  QueryInput,
+  SourceReference,
+  StoredDocumentDetails,
+  FileTenderExtraction,
+  Language,
+  VectorSearchResult,
 } from "./types";
+import {
+  mergeTenderExtractions,
+  type TenderExtraction,
+} from "./tender-extraction";
 import {
   generateEmbeddings,
   storeEmbeddings,
@@ -14,14 +25,59 @@ import {
   cleanupEmbeddings,
 } from "./embeddings";
 import { createPDFChunks, processPDFChunk } from "./pdf-parser";
-import { answerQuestion } from "./ai-service";
-import { splitTextIntoParagraphs } from "./text-processing";
+import { answerQuestion, EXTRACTION_PROMPT_VERSION } from "./ai-service";
+import { rerankChunks } from "./reranker";
+import { selectContext } from "./context-selection";
+import { getLlmProvider } from "./llm-provider";
+import { getEmbeddingProvider } from "./embedding-provider";
+import { getVectorStore } from "./vector-store";
+import {
+  detectParagraphTags,
+  getParagraphPageRanges,
+  splitTextIntoParagraphs,
+} from "./text-processing";
+import {
+  getCachedExtraction,
+  getExtractionCacheKey,
+  hashChunkContent,
+  setCachedExtraction,
+} from "./extraction-cache";
+import {
+  getDocumentId,
+  getDocumentNamespace,
+  getStoredDocument,
+  hasDocumentVectors,
+  isDocumentCurrent,
+  saveStoredDocument,
+  touchStoredDocument,
+} from "./document-library";
+import { collectDeadlines } from "./deadlines";
+import { buildChecklist } from "./checklist";
+import {
+  evaluateComparisonCondition,
+  parseComparisonCondition,
+} from "./condition-evaluator";
+import { expectsVerdict, getQueryTagRouting } from "./query-classifier";
+import { detectLanguage, getPredominantLanguage } from "./language";
+import { getLanguagePack } from "./language-packs";
+import {
+  ProcessingCancelledError,
+  isCancellationError,
+  rethrowIfCancelled,
+  throwIfCancelled,
+} from "./cancellation";
+import {
+  LimitExceededError,
+  createProcessingBudget,
+  validateSessionLimits,
+  type Locale,
+} from "./limits";
 import config from "./config";
 
 // Get configuration
-const aiConfig = config.getAiConfig();
 const processingConfig = config.getProcessingConfig();
 const sessionConfig = config.getSessionConfig();
+const languagesConfig = config.getLanguagesConfig();
 
 /**
  * Generate a unique session ID for processing
@@ -55,32 +111,662 @@ type ProgressCallback = (
 ) => void;
 
 /**
- * Detect if input is a question or condition
+ * Options for a document processing run
  */
-function detectQueryType(input: string): QueryType {
-  // Get condition keywords from config
-  const conditionKeywords = aiConfig.claude.conditionKeywords;
+export interface ParseDocumentsOptions {
+  mode?: AnalysisMode;
+  // Aborting stops outstanding AI and vector calls; embeddings are cleaned up
+  signal?: AbortSignal;
+  // Wall-clock budget, defaults to config.limits.maxProcessingTimeMs
+  timeBudgetMs?: number;
+  // Language of limit violation messages
+  locale?: Locale;
+  // Generate the bidder checklist; queries become optional
+  createChecklist?: boolean;
+  // Language of the answers, independent of the document languages
+  outputLanguage?: Language;
+}
+
+/**
+ * Shared state of one processing run handed to the pipeline steps
+ */
+interface RunContext {
+  emitProgress: ProgressCallback;
+  callOptions: CallOptions;
+  // True once the wall-clock budget is used up
+  isOverBudget: () => boolean;
+  wasTimeLimitReached: () => boolean;
+  outputLanguage: Language;
+}
+
+/**
+ * Collect the files and pages that contributed context to an answer,
+ * ordered by their best retrieval score. Overlapping or adjacent page
+ * ranges of the same file are merged into one citation.
+ */
+function collectSources(
+  relevantChunks: VectorSearchResult[]
+): SourceReference[] {
+  const sources: SourceReference[] = [];
+
+  for (const chunk of relevantChunks) {
+    const { filename, pageStart, pageEnd } = chunk.metadata;
+    const existing = sources.find(
+      (source) =>
+        source.filename === filename &&
+        pageStart <= source.pageEnd + 1 &&
+        pageEnd >= source.pageStart - 1
+    );
+
+    if (existing) {
+      existing.pageStart = Math.min(existing.pageStart, pageStart);
+      existing.pageEnd = Math.max(existing.pageEnd, pageEnd);
+    } else {
+      sources.push({ filename, pageStart, pageEnd });
+    }
+  }
+
+  return sources;
+}
+
+/**
+ * Extract text from every chunk of a file with Claude and embed the paragraphs
+ */
+async function extractFileChunks(
+  file: File,
+  chunks: DocumentChunk[],
+  run: RunContext
+): Promise<{
+  processedChunks: ProcessedChunk[];
+  debugEntries: DocumentExtractionDebug[];
+  // Structured facts of all processed chunks merged into one record
+  tenderExtraction: TenderExtraction;
+  // Language most chunks are written in
+  language: Language;
+  // False when chunks failed or were skipped because of the time limit
+  complete: boolean;
+}> {
+  const { emitProgress, callOptions, isOverBudget } = run;
+  const processedChunks: ProcessedChunk[] = [];
+  const debugEntries: DocumentExtractionDebug[] = [];
+  const chunkTenderData: TenderExtraction[] = [];
+  const chunkLanguages: (Language | null)[] = [];
+
+  // Process chunks in parallel with batching to avoid rate limits. The
+  // first chunk runs alone: the language Claude reports for it selects the
+  // extraction prompt of the remaining chunks.
+  const BATCH_SIZE = processingConfig.extraction.batchSize;
+  const chunkBatches = [chunks.slice(0, 1)];
+
+  for (let i = 1; i < chunks.length; i += BATCH_SIZE) {
+    chunkBatches.push(chunks.slice(i, i + BATCH_SIZE));
+  }
+
+  let promptLanguage: Language = languagesConfig.fallbackDocumentLanguage;
+
+  for (let batchIndex = 0; batchIndex < chunkBatches.length; batchIndex++) {
+    throwIfCancelled(callOptions.signal);
+
+    // Out of time: keep what has been extracted so far
+    if (isOverBudget()) {
+      console.log(
+        `Time limit reached, skipping ${
+          chunkBatches.length - batchIndex
+        } remaining batches of ${file.name}`
+      );
+      break;
+    }
+
+    const batch = chunkBatches[batchIndex];
+
+    console.log(
+      `Processing batch ${batchIndex + 1}/${chunkBatches.length} with ${
+        batch.length
+      } chunks for ${file.name}`
+    );
+
+    const batchPromises = batch.map(async (chunk) => {
+      const overallIndex = chunks.indexOf(chunk);
+
+      console.log(
+        `Processing chunk ${overallIndex + 1}/${chunks.length}: ${
+          chunk.id
+        } in ${file.name}`
+      );
+      emitProgress(
+        "processing",
+        `Processing chunk ${overallIndex + 1}/${chunks.length}`,
+        file.name,
+        chunk.id
+      );
+
+      try {
+        // Identical chunk content skips Claude and the embedding calls
+        const chunkHash = hashChunkContent(
+          chunk.metadata.pdfBuffer ?? Buffer.from(await file.arrayBuffer())
+        );
+        const cacheKey = getExtractionCacheKey(
+          chunkHash,
+          chunk,
+          promptLanguage
+        );
+        const cached = await getCachedExtraction(cacheKey);
+
+        let processedText: string;
+        let tenderData: TenderExtraction;
+        let language: Language | null;
+        let paragraphs: string[];
+        let embeddings: number[][];
+
+        if (cached) {
+          console.log(`Extraction cache hit for ${chunk.id}`);
+          emitProgress(
+            "cache_hit",
+            `Using cached extraction for chunk ${overallIndex + 1}/${
+              chunks.length
+            }`,
+            file.name,
+            chunk.id
+          );
+
+          processedText = cached.rawExtraction;
+          tenderData = cached.tenderData;
+          language = cached.language;
+          paragraphs = cached.paragraphs;
+          embeddings = cached.embeddings;
+        } else {
+          const extraction = await processPDFChunk(
+            file,
+            chunk,
+            promptLanguage,
+            callOptions
+          );
+          processedText = extraction.text;
+          tenderData = extraction.data;
+          // Fall back to the stopwords when Claude did not name the language
+          language = extraction.language ?? detectLanguage(processedText);
+
+          emitProgress(
+            "embedding_prep",
+            `Preparing embeddings for ${chunk.id}`,
+            file.name,
+            chunk.id
+          );
+
+          // Split into paragraphs for embedding
+          paragraphs = splitTextIntoParagraphs(
+            processedText,
+            language ?? languagesConfig.fallbackDocumentLanguage
+          );
+          embeddings = await generateEmbeddings(paragraphs, callOptions);
+
+          await setCachedExtraction({
+            key: cacheKey,
+            chunkHash,
+            filename: file.name,
+            model: getLlmProvider().model,
+            embeddingModel: getEmbeddingProvider().model,
+            promptVersion: EXTRACTION_PROMPT_VERSION,
+            createdAt: Date.now(),
+            rawExtraction: processedText,
+            tenderData,
+            language,
+            paragraphs,
+            embeddings,
+          });
+        }
+
+        // Store debug info
+        const debugEntry = {
+          filename: file.name,
+          rawExtraction: processedText,
+          chunks: paragraphs,
+        };
+
+        // Create processed chunks for this chunk, each with its own pages
+        const pageRanges = getParagraphPageRanges(paragraphs, chunk.metadata);
+        const chunkProcessedChunks = paragraphs.map((paragraph, idx) => ({
+          id: `${chunk.id}-paragraph-${idx}`,
+          text: paragraph,
+          embedding: embeddings[idx],
+          metadata: { ...chunk.metadata, ...pageRanges[idx] },
+          ...detectParagraphTags(
+            paragraph,
+            language ?? languagesConfig.fallbackDocumentLanguage
+          ),
+        }));
+
+        emitProgress(
+          "chunk_processed",
+          `Processed chunk ${chunk.id}`,
+          file.name,
+          chunk.id
+        );
+
+        return { debugEntry, chunkProcessedChunks, tenderData, language };
+      } catch (error) {
+        rethrowIfCancelled(error, callOptions.signal);
+        console.error(`Error processing chunk ${chunk.id}:`, error);
+        emitProgress(
+          "error",
+          `Error processing chunk: ${
+            error instanceof Error ? error.message : "Unknown error"
+          }`,
+          file.name,
+          chunk.id
+        );
+        return null;
+      }
+    });
+
+    // Wait for all chunks in this batch to complete (a cancellation rejects)
+    const batchResults = await Promise.all(batchPromises);
+
+    // Collect results from successful chunks
+    batchResults.forEach((result) => {
+      if (result) {
+        debugEntries.push(result.debugEntry);
+        processedChunks.push(...result.chunkProcessedChunks);
+        chunkTenderData.push(result.tenderData);
+        chunkLanguages.push(result.language);
+      }
+    });
 
-  const lowercaseInput = input.toLowerCase();
+    if (batchIndex === 0 && batchResults[0]?.language) {
+      promptLanguage = batchResults[0].language;
+      console.log(
+        `Extracting the remaining chunks of ${file.name} with the ${promptLanguage} prompt`
+      );
+    }
+  }
 
-  // Check for condition patterns
-  const hasConditionKeyword = conditionKeywords.some((keyword) =>
-    lowercaseInput.includes(keyword)
+  console.log(
+    `Created ${processedChunks.length} processed chunks for ${file.name}`
   );
+  emitProgress(
+    "embeddings_ready",
+    `Created ${processedChunks.length} processed chunks for ${file.name}`,
+    file.name
+  );
+
+  return {
+    processedChunks,
+    debugEntries,
+    tenderExtraction: mergeTenderExtractions(chunkTenderData),
+    language:
+      getPredominantLanguage(chunkLanguages) ??
+      languagesConfig.fallbackDocumentLanguage,
+    complete: debugEntries.length === chunks.length,
+  };
+}
 
-  // Check for question patterns
-  const hasQuestionWord =
-    /^(wer|was|wann|wo|wie|warum|welche|welcher|welches|wessen|wem|wen)/i.test(
-      input
+/**
+ * Answer every query against the embeddings stored in the given namespaces.
+ * `scope` is the filename in per-file mode and undefined for a whole package.
+ */
+async function answerQueries(
+  queries: QueryInput[],
+  sessionIds: string[],
+  tenderExtractions: FileTenderExtraction[],
+  run: RunContext,
+  scope?: string
+): Promise<QuestionAnswer[]> {
+  const { emitProgress, callOptions, isOverBudget, outputLanguage } = run;
+  const answers: QuestionAnswer[] = [];
+  const scopeLabel = scope ?? "package";
+
+  for (let i = 0; i < queries.length; i++) {
+    throwIfCancelled(callOptions.signal);
+    const { text: query } = queries[i];
+    const queryType = queries[i].type;
+    // Date and amount comparisons are resolved from the extracted facts
+    const comparison = expectsVerdict(queryType)
+      ? parseComparisonCondition(query)
+      : null;
+
+    if (isOverBudget()) {
+      answers.push({
+        query,
+        answer: getLanguagePack(outputLanguage).messages.timeLimit,
+        confidence: 0,
+        sources: [],
+        type: queryType,
+      });
+      continue;
+    }
+
+    console.log(
+      `\n=== PROCESSING QUERY ${i + 1}/${queries.length} FOR ${scopeLabel} ===`
+    );
+    console.log(`Query: ${query}`);
+    console.log(`Type: ${queryType}`);
+    console.log(`Session IDs: ${sessionIds.join(", ")}`);
+
+    emitProgress(
+      "answering",
+      `Processing ${queryType} ${i + 1}/${
+        queries.length
+      } for ${scopeLabel}: ${query}`,
+      scope
     );
-  const endsWithQuestionMark = input.trim().endsWith("?");
 
-  // If it has condition keywords but no question words, it's likely a condition
-  if (hasConditionKeyword && !hasQuestionWord && !endsWithQuestionMark) {
-    return "condition";
+    const verdict = comparison
+      ? evaluateComparisonCondition(
+          comparison,
+          tenderExtractions,
+          outputLanguage
+        )
+      : null;
+    if (verdict) {
+      console.log(`Resolved from extracted facts: ${verdict.result}`);
+      answers.push({
+        query,
+        answer: verdict.justification,
+        verdict,
+        confidence: 1,
+        sources: verdict.evidence.map(({ filename, pageStart, pageEnd }) => ({
+          filename,
+          pageStart,
+          pageEnd,
+        })),
+        type: queryType,
+      });
+      emitProgress(
+        "question_answered",
+        `Resolved ${queryType} from extracted facts for ${scopeLabel}: ${query}`,
+        scope
+      );
+      continue;
+    }
+
+    try {
+      // Queries of a known category look for the matching tags
+      const routing = getQueryTagRouting(query, queryType);
+      let candidates = await searchRelevantChunks(
+        query,
+        sessionIds,
+        undefined,
+        callOptions,
+        routing
+      );
+      // Documents stored before tags were metadata have none to match
+      if (candidates.length === 0 && routing.filter) {
+        candidates = await searchRelevantChunks(
+          query,
+          sessionIds,
+          undefined,
+          callOptions,
+          { boostTags: routing.boostTags }
+        );
+      }
+      console.log(
+        `Found ${candidates.length} relevant chunks for ${scopeLabel}`
+      );
+
+      // Only the best reranked chunks within the token budget are sent
+      const { chunks: relevantChunks, reranker } = await rerankChunks(
+        query,
+        candidates,
+        outputLanguage,
+        callOptions
+      );
+      const { passages, selection } = selectContext(relevantChunks, reranker);
+
+      const context = passages.map((passage) => passage.metadata.text || "");
+      console.log(
+        `Context lengths for ${scopeLabel}: ${context.map((c) => c.length)}`
+      );
+
+      const { answer, verdict } = await answerQuestion(
+        query,
+        queryType,
+        passages,
+        outputLanguage,
+        callOptions
+      );
+
+      answers.push({
+        query,
+        answer,
+        verdict,
+        confidence: passages.length > 0 ? passages[0].score || 0 : 0,
+        sources: collectSources(passages),
+        type: queryType,
+        debugInfo: {
+          relevantChunks,
+          contextUsed: context,
+          contextSelection: selection,
+        },
+      });
+
+      emitProgress(
+        "question_answered",
+        `Processed ${queryType} for ${scopeLabel}: ${query}`,
+        scope
+      );
+    } catch (error) {
+      rethrowIfCancelled(error, callOptions.signal);
+      console.error(
+        `Error processing ${queryType} "${query}" for ${scopeLabel}:`,
+        error
+      );
+      emitProgress(
+        "error",
+        `Error processing ${queryType}: ${
+          error instanceof Error ? error.message : "Unknown error"
+        }`,
+        scope
+      );
+      answers.push({
+        query,
+        answer: "Error: Unable to process this query due to processing error.",
+        confidence: 0,
+        sources: [],
+        type: queryType,
+        debugInfo: {
+          relevantChunks: [],
+          contextUsed: [],
+        },
+      });
+    }
   }
 
-  return "question";
+  return answers;
+}
+
+/**
+ * A document whose embeddings are stored and can be queried
+ */
+interface IndexedDocument {
+  filename: string;
+  namespace: string;
+  // Facts used to evaluate date and amount conditions without Claude
+  tenderExtraction?: TenderExtraction;
+  // Missing for documents stored before languages were detected
+  language?: Language;
+}
+
+function getTenderExtractions(
+  documents: IndexedDocument[]
+): FileTenderExtraction[] {
+  return documents.flatMap((document) =>
+    document.tenderExtraction
+      ? [
+          {
+            filename: document.filename,
+            extraction: document.tenderExtraction,
+            language: document.language,
+          },
+        ]
+      : []
+  );
+}
+
+function getDocumentLanguages(
+  documents: IndexedDocument[]
+): Record<string, Language> {
+  return Object.fromEntries(
+    documents.flatMap((document) =>
+      document.language ? [[document.filename, document.language]] : []
+    )
+  );
+}
+
+/**
+ * Answer the queries once across all documents (package mode) or
+ * separately for each document (per-file mode)
+ */
+async function answerIndexedDocuments(
+  documents: IndexedDocument[],
+  queries: QueryInput[],
+  mode: AnalysisMode,
+  run: RunContext,
+  pendingStages: Set<string>
+): Promise<Pick<ProcessingResult, "packageResult" | "fileResults">> {
+  if (mode === "package") {
+    const answers = await answerQueries(
+      queries,
+      documents.map((document) => document.namespace),
+      getTenderExtractions(documents),
+      run
+    );
+    pendingStages.delete("Answering: package");
+
+    // Per-file view: each file lists the package answers it contributed to,
+    // plus the unanswered ones (no sources) so no query goes missing
+    const fileResults: FileResult[] = documents.map((document) => ({
+      filename: document.filename,
+      language: document.language,
+      answers: answers.filter(
+        (answer) =>
+          answer.sources.length === 0 ||
+          answer.sources.some((source) => source.filename === document.filename)
+      ),
+    }));
+
+    return {
+      packageResult: {
+        filenames: documents.map((document) => document.filename),
+        answers,
+      },
+      fileResults,
+    };
+  }
+
+  const fileResults: FileResult[] = [];
+
+  for (const document of documents) {
+    const fileAnswers = await answerQueries(
+      queries,
+      [document.namespace],
+      getTenderExtractions([document]),
+      run,
+      document.filename
+    );
+    pendingStages.delete(`Answering: ${document.filename}`);
+
+    fileResults.push({
+      filename: document.filename,
+      language: document.language,
+      answers: fileAnswers,
+    });
+  }
+
+  return { fileResults };
+}
+
+/**
+ * Set up progress reporting, retry notifications and the time budget of a run
+ */
+function createRunContext(
+  onProgress: ProgressCallback | undefined,
+  signal: AbortSignal | undefined,
+  timeBudgetMs: number | undefined,
+  outputLanguage: Language = languagesConfig.defaultOutputLanguage
+): RunContext {
+  const budget = createProcessingBudget(timeBudgetMs);
+  let timeLimitReached = false;
+
+  // Helper function to emit progress
+  const emitProgress: ProgressCallback = (
+    step,
+    message,
+    filename,
+    chunkId,
+    updateTotalSteps
+  ) => {
+    console.log(`[${step}] ${message}`, filename, chunkId);
+    onProgress?.(step, message, filename, chunkId, updateTotalSteps);
+  };
+
+  const callOptions: CallOptions = {
+    signal,
+    // Surface provider retries so users can see why a run is slow
+    onRetry: (attempt) =>
+      emitProgress(
+        "retrying",
+        `${attempt.label} failed (${attempt.reason}), retry ${
+          attempt.attempt
+        }/${attempt.maxRetries} in ${(attempt.delayMs / 1000).toFixed(1)}s`
+      ),
+    embeddingStats: {
+      texts: 0,
+      cacheHits: 0,
+      embedded: 0,
+      batches: 0,
+      elapsedMs: 0,
+    },
+  };
+
+  return {
+    emitProgress,
+    callOptions,
+    isOverBudget: () => {
+      if (!timeLimitReached && budget.isExhausted()) {
+        timeLimitReached = true;
+        emitProgress(
+          "time_limit",
+          "Time limit reached, finishing with partial results"
+        );
+      }
+      return timeLimitReached;
+    },
+    wasTimeLimitReached: () => timeLimitReached,
+    outputLanguage,
+  };
+}
+
+/**
+ * Turn a failed run into a cancellation, a limit error or a generic failure
+ */
+function handleRunFailure(
+  error: unknown,
+  signal: AbortSignal | undefined,
+  pendingStages: Set<string>,
+  onProgress?: ProgressCallback
+): never {
+  if (isCancellationError(error) || signal?.aborted) {
+    const cancelledStages = Array.from(pendingStages);
+    console.log("Document processing cancelled:", cancelledStages);
+    onProgress?.(
+      "cancelled",
+      `Processing cancelled, ${cancelledStages.length} stages cut off`
+    );
+    throw new ProcessingCancelledError(cancelledStages);
+  }
+
+  if (error instanceof LimitExceededError) {
+    throw error;
+  }
+
+  console.error("Error in parseDocuments:", error);
+  onProgress?.(
+    "error",
+    `Processing failed: ${
+      error instanceof Error ? error.message : "Unknown error"
+    }`
+  );
+  throw new Error("Failed to process documents");
 }
 
 /**
@@ -88,27 +774,48 @@ function detectQueryType(input: string): QueryType {
  */
 export async function parseDocuments(
   files: File[],
-  queries: string[],
-  onProgress?: ProgressCallback
+  queries: QueryInput[],
+  onProgress?: ProgressCallback,
+  options: ParseDocumentsOptions = {}
 ): Promise<ProcessingResult> {
+  const { mode = "package", signal, locale, createChecklist = false } = options;
+  const run = createRunContext(
+    onProgress,
+    signal,
+    options.timeBudgetMs,
+    options.outputLanguage
+  );
+  const { emitProgress, callOptions } = run;
+  // Keep documents in the library unless the session should be cleaned up
+  const keepDocuments = !sessionConfig.cleanupAfterProcessing;
+
+  // Stages still outstanding, reported when the run is cancelled
+  const pendingStages = new Set<string>(["Chunking"]);
+  // Namespaces holding embeddings that have not been cleaned up yet
+  const activeSessionIds = new Set<string>();
+
+  const releaseSession = async (sessionId: string) => {
+    await cleanupEmbeddings(sessionId);
+    activeSessionIds.delete(sessionId);
+  };
+
   try {
-    console.log("Starting document processing...");
+    console.log(`Starting document processing in ${mode} mode...`);
 
     // Generate a unique session ID for this processing session
     const baseSessionId = generateSessionId();
     console.log(`Base Session ID: ${baseSessionId}`);
 
-    // Helper function to emit progress
-    const emitProgress = (
-      step: string,
-      message: string,
-      filename?: string,
-      chunkId?: string,
-      updateTotalSteps?: number
-    ) => {
-      console.log(`[${step}] ${message}`, filename, chunkId);
-      onProgress?.(step, message, filename, chunkId, updateTotalSteps);
-    };
+    // Enforce config.limits before spending any tokens
+    const violations = await validateSessionLimits(
+      files,
+      queries,
+      locale,
+      !createChecklist
+    );
+    if (violations.length > 0) {
+      throw new LimitExceededError(violations);
+    }
 
     emitProgress("starting", "Starting document processing...");
 
@@ -121,10 +828,21 @@ export async function parseDocuments(
     const chunkPromises = files.map(async (file) => {
       emitProgress("chunking", `Creating chunks for ${file.name}`, file.name);
       const chunks = await createPDFChunks(file);
-      return { file, chunks };
+      const documentId = getDocumentId(Buffer.from(await file.arrayBuffer()));
+      return { file, chunks, documentId };
     });
 
     const fileChunksArray = await Promise.all(chunkPromises);
+    throwIfCancelled(signal);
+
+    pendingStages.delete("Chunking");
+    const scopes =
+      mode === "package" ? ["package"] : files.map((file) => file.name);
+    files.forEach((file) => {
+      pendingStages.add(`Extraction: ${file.name}`);
+      pendingStages.add(`Storing embeddings: ${file.name}`);
+    });
+    scopes.forEach((scope) => pendingStages.add(`Answering: ${scope}`));
 
     // Calculate total chunks across all files
     const totalChunks = fileChunksArray.reduce(
@@ -136,9 +854,11 @@ export async function parseDocuments(
     );
 
     // Calculate actual total steps now that we know the chunk count
+    const answeringSteps =
+      mode === "package" ? queries.length : queries.length * files.length;
     const actualTotalSteps =
       totalChunks * processingConfig.extraction.totalStepsMultiplier +
-      queries.length * files.length + // Questions per file
+      answeringSteps +
       processingConfig.extraction.baseStepsCount;
 
     emitProgress(
@@ -149,127 +869,94 @@ export async function parseDocuments(
       actualTotalSteps
     );
 
-    // Step 2: Process each file separately
-    const fileResults: FileResult[] = [];
     const debugInfo: DocumentExtractionDebug[] = [];
+    const tenderExtractions: FileTenderExtraction[] = [];
+    const indexedDocuments: IndexedDocument[] = [];
+    const storedDocumentIds: string[] = [];
 
-    // Process each file individually
-    for (const { file, chunks } of fileChunksArray) {
-      const fileSessionId = generateFileSessionId(baseSessionId, file.name);
-
-      emitProgress(
-        "processing_file",
-        `Processing file: ${file.name}`,
-        file.name
-      );
-
-      // Step 2a: Process chunks for this file
-      const processedChunks: ProcessedChunk[] = [];
-
-      // Process chunks in parallel with batching to avoid rate limits
-      const BATCH_SIZE = processingConfig.extraction.batchSize;
-      const chunkBatches = [];
+    // Step 2: Extract and index every file in its own namespace
+    for (const { file, chunks, documentId } of fileChunksArray) {
+      const stageKeys = [
+        `Extraction: ${file.name}`,
+        `Storing embeddings: ${file.name}`,
+      ];
 
-      for (let i = 0; i < chunks.length; i += BATCH_SIZE) {
-        chunkBatches.push(chunks.slice(i, i + BATCH_SIZE));
+      if (storedDocumentIds.includes(documentId)) {
+        console.log(`Skipping duplicate upload of ${file.name}`);
+        stageKeys.forEach((stage) => pendingStages.delete(stage));
+        continue;
       }
 
-      for (let batchIndex = 0; batchIndex < chunkBatches.length; batchIndex++) {
-        const batch = chunkBatches[batchIndex];
+      // Documents already in the library skip extraction and indexing
+      const storedDocument = keepDocuments
+        ? await getStoredDocument(documentId)
+        : null;
 
+      const reusable =
+        !!storedDocument &&
+        isDocumentCurrent(storedDocument) &&
+        (await hasDocumentVectors(storedDocument));
+      if (storedDocument && !reusable) {
         console.log(
-          `Processing batch ${batchIndex + 1}/${chunkBatches.length} with ${
-            batch.length
-          } chunks for ${file.name}`
+          `Stored document ${documentId} is outdated or has no vectors in the ${
+            getVectorStore().name
+          } store, re-ingesting ${file.name}`
         );
+      }
 
-        const batchPromises = batch.map(async (chunk, indexInBatch) => {
-          const overallIndex = batchIndex * BATCH_SIZE + indexInBatch;
-
-          console.log(
-            `Processing chunk ${overallIndex + 1}/${chunks.length}: ${
-              chunk.id
-            } in ${file.name}`
-          );
-          emitProgress(
-            "processing",
-            `Processing chunk ${overallIndex + 1}/${chunks.length}`,
-            file.name,
-            chunk.id
-          );
-
-          try {
-            const processedText = await processPDFChunk(file, chunk);
-
-            emitProgress(
-              "embedding_prep",
-              `Preparing embeddings for ${chunk.id}`,
-              file.name,
-              chunk.id
-            );
-
-            // Split into paragraphs for embedding
-            const paragraphs = splitTextIntoParagraphs(processedText);
-            const embeddings = await generateEmbeddings(paragraphs);
-
-            // Store debug info
-            const debugEntry = {
-              filename: file.name,
-              rawExtraction: processedText,
-              chunks: paragraphs,
-            };
-
-            // Create processed chunks for this chunk
-            const chunkProcessedChunks = paragraphs.map((paragraph, idx) => ({
-              id: `${chunk.id}-paragraph-${idx}`,
-              text: paragraph,
-              embedding: embeddings[idx],
-              metadata: chunk.metadata,
-            }));
-
-            emitProgress(
-              "chunk_processed",
-              `Processed chunk ${chunk.id}`,
-              file.name,
-              chunk.id
-            );
-
-            return { debugEntry, chunkProcessedChunks };
-          } catch (error) {
-            console.error(`Error processing chunk ${chunk.id}:`, error);
-            emitProgress(
-              "error",
-              `Error processing chunk: ${
-                error instanceof Error ? error.message : "Unknown error"
-              }`,
-              file.name,
-              chunk.id
-            );
-            return null;
-          }
-        });
-
-        // Wait for all chunks in this batch to complete
-        const batchResults = await Promise.all(batchPromises);
-
-        // Collect results from successful chunks
-        batchResults.forEach((result) => {
-          if (result) {
-            debugInfo.push(result.debugEntry);
-            processedChunks.push(...result.chunkProcessedChunks);
-          }
+      if (storedDocument && reusable) {
+        emitProgress(
+          "document_reused",
+          `Using stored document ${documentId} for ${file.name}`,
+          file.name
+        );
+        debugInfo.push(...storedDocument.extraction);
+        if (storedDocument.tenderExtraction) {
+          tenderExtractions.push({
+            filename: storedDocument.filename,
+            extraction: storedDocument.tenderExtraction,
+            language: storedDocument.language,
+          });
+        }
+        // Stored vectors carry the filename of the first upload
+        indexedDocuments.push({
+          filename: storedDocument.filename,
+          namespace: storedDocument.namespace,
+          tenderExtraction: storedDocument.tenderExtraction,
+          language: storedDocument.language,
         });
+        storedDocumentIds.push(documentId);
+        await touchStoredDocument(documentId);
+        stageKeys.forEach((stage) => pendingStages.delete(stage));
+        continue;
       }
 
-      console.log(
-        `Created ${processedChunks.length} processed chunks for ${file.name}`
-      );
+      const namespace = keepDocuments
+        ? getDocumentNamespace(documentId)
+        : generateFileSessionId(baseSessionId, file.name);
+
       emitProgress(
-        "embeddings_ready",
-        `Created ${processedChunks.length} processed chunks for ${file.name}`,
+        "processing_file",
+        `Processing file: ${file.name}`,
         file.name
       );
 
+      // Step 2a: Process chunks for this file
+      const {
+        processedChunks,
+        debugEntries,
+        tenderExtraction,
+        language,
+        complete,
+      } = await extractFileChunks(file, chunks, run);
+      debugInfo.push(...debugEntries);
+      tenderExtractions.push({
+        filename: file.name,
+        extraction: tenderExtraction,
+        language,
+      });
+      pendingStages.delete(`Extraction: ${file.name}`);
+
       // Step 2b: Store embeddings for this file
       emitProgress(
         "storing_embeddings",
@@ -278,10 +965,16 @@ export async function parseDocuments(
       );
 
       console.log(`\n=== STORING EMBEDDINGS FOR ${file.name} ===`);
-      console.log(`File Session ID: ${fileSessionId}`);
+      console.log(`Namespace: ${namespace}`);
       console.log(`About to store ${processedChunks.length} processed chunks`);
 
-      await storeEmbeddings(processedChunks, fileSessionId);
+      activeSessionIds.add(namespace);
+      // Outdated vectors of a previous ingestion are replaced
+      if (storedDocument) {
+        await cleanupEmbeddings(namespace);
+      }
+      await storeEmbeddings(processedChunks, namespace, callOptions);
+      pendingStages.delete(`Storing embeddings: ${file.name}`);
       console.log(`Embeddings stored successfully for ${file.name}`);
       emitProgress(
         "embeddings_stored",
@@ -289,118 +982,202 @@ export async function parseDocuments(
         file.name
       );
 
-      // Step 2c: Answer questions for this file
-      const fileAnswers: QuestionAnswer[] = [];
-
-      for (let i = 0; i < queries.length; i++) {
-        const query = queries[i];
-        const queryType = detectQueryType(query);
-
-        console.log(
-          `\n=== PROCESSING QUERY ${i + 1}/${queries.length} FOR ${
-            file.name
-          } ===`
-        );
-        console.log(`Query: ${query}`);
-        console.log(`Type: ${queryType}`);
-        console.log(`File Session ID: ${fileSessionId}`);
+      indexedDocuments.push({
+        filename: file.name,
+        namespace,
+        tenderExtraction,
+        language,
+      });
 
+      // Only fully extracted documents are kept for later queries
+      if (keepDocuments && complete) {
+        const now = Date.now();
+        await saveStoredDocument({
+          id: documentId,
+          filename: file.name,
+          size: file.size,
+          namespace,
+          chunkCount: chunks.length,
+          paragraphCount: processedChunks.length,
+          model: getLlmProvider().model,
+          embeddingModel: getEmbeddingProvider().model,
+          promptVersion: EXTRACTION_PROMPT_VERSION,
+          vectorStore: getVectorStore().name,
+          language,
+          createdAt: now,
+          lastUsedAt: now,
+          extraction: debugEntries,
+          tenderExtraction,
+        });
+        activeSessionIds.delete(namespace);
+        storedDocumentIds.push(documentId);
         emitProgress(
-          "answering",
-          `Processing ${queryType} ${i + 1}/${queries.length} for ${
-            file.name
-          }: ${query}`,
+          "document_stored",
+          `Stored ${file.name} in the document library`,
           file.name
         );
+      }
+    }
 
-        try {
-          const relevantChunks = await searchRelevantChunks(
-            query,
-            fileSessionId
-          );
-          console.log(
-            `Found ${relevantChunks.length} relevant chunks for ${file.name}`
-          );
+    // Step 3: Answer the queries
+    const results = await answerIndexedDocuments(
+      indexedDocuments,
+      queries,
+      mode,
+      run,
+      pendingStages
+    );
 
-          const context = relevantChunks.map(
-            (chunk) => chunk.metadata.text || ""
-          );
-          console.log(
-            `Context lengths for ${file.name}: ${context.map((c) => c.length)}`
-          );
+    const checklist = createChecklist
+      ? buildChecklist(tenderExtractions)
+      : undefined;
+    if (checklist) {
+      emitProgress(
+        "checklist_created",
+        `Created checklist with ${checklist.items.length} items`
+      );
+    }
 
-          const answer = await answerQuestion(query, context);
-
-          fileAnswers.push({
-            query,
-            answer,
-            confidence:
-              relevantChunks.length > 0 ? relevantChunks[0].score || 0 : 0,
-            sources: [file.name], // Only this file as source
-            type: queryType,
-            debugInfo: {
-              relevantChunks,
-              contextUsed: context,
-            },
-          });
+    // Step 4: Clean up embeddings that are not kept in the library
+    for (const sessionId of Array.from(activeSessionIds)) {
+      console.log(`\n=== CLEANING UP EMBEDDINGS FOR ${sessionId} ===`);
+      await releaseSession(sessionId);
+    }
 
-          emitProgress(
-            "question_answered",
-            `Processed ${queryType} for ${file.name}: ${query}`,
-            file.name
-          );
-        } catch (error) {
-          console.error(
-            `Error processing ${queryType} "${query}" for ${file.name}:`,
-            error
-          );
-          emitProgress(
-            "error",
-            `Error processing ${queryType}: ${
-              error instanceof Error ? error.message : "Unknown error"
-            }`,
-            file.name
-          );
-          fileAnswers.push({
-            query,
-            answer:
-              "Error: Unable to process this query due to processing error.",
-            confidence: 0,
-            sources: [file.name],
-            type: queryType,
-            debugInfo: {
-              relevantChunks: [],
-              contextUsed: [],
-            },
-          });
-        }
+    const timeLimitReached = run.wasTimeLimitReached();
+    console.log("Document processing completed");
+    console.log("Embedding stats:", run.callOptions.embeddingStats);
+    emitProgress(
+      "completed",
+      timeLimitReached
+        ? "Time limit reached, returning partial results"
+        : "All files processed successfully"
+    );
+
+    return {
+      status: timeLimitReached ? "time_limit_reached" : "completed",
+      mode,
+      ...results,
+      debugInfo,
+      documentIds: storedDocumentIds.length > 0 ? storedDocumentIds : undefined,
+      tenderExtractions,
+      deadlines: collectDeadlines(tenderExtractions),
+      checklist,
+      outputLanguage: run.outputLanguage,
+      documentLanguages: getDocumentLanguages(indexedDocuments),
+      embeddingStats: run.callOptions.embeddingStats,
+    };
+  } catch (error) {
+    // Never leave embeddings behind, whether cancelled or failed
+    for (const sessionId of Array.from(activeSessionIds)) {
+      console.log(
+        `Cleaning up embeddings for interrupted session ${sessionId}`
+      );
+      await releaseSession(sessionId);
+    }
+
+    handleRunFailure(error, signal, pendingStages, onProgress);
+  }
+}
+
+/**
+ * Options for querying documents from the library
+ */
+export interface QueryStoredDocumentsOptions {
+  mode?: AnalysisMode;
+  signal?: AbortSignal;
+  timeBudgetMs?: number;
+  outputLanguage?: Language;
+}
+
+/**
+ * Answer new queries against documents kept in the library,
+ * without uploading or extracting them again
+ */
+export async function queryStoredDocuments(
+  documentIds: string[],
+  queries: QueryInput[],
+  onProgress?: ProgressCallback,
+  options: QueryStoredDocumentsOptions = {}
+): Promise<ProcessingResult> {
+  const { mode = "package", signal } = options;
+  const run = createRunContext(
+    onProgress,
+    signal,
+    options.timeBudgetMs,
+    options.outputLanguage
+  );
+  const { emitProgress } = run;
+  const pendingStages = new Set<string>();
+
+  try {
+    console.log(
+      `Querying ${documentIds.length} stored documents in ${mode} mode...`
+    );
+
+    const documents: StoredDocumentDetails[] = [];
+    for (const documentId of documentIds) {
+      const document = await getStoredDocument(documentId);
+      if (!document) {
+        throw new Error(`Stored document not found: ${documentId}`);
       }
+      documents.push(document);
+    }
 
-      // Add file result
-      fileResults.push({
-        filename: file.name,
-        answers: fileAnswers,
-      });
+    const scopes =
+      mode === "package"
+        ? ["package"]
+        : documents.map((document) => document.filename);
+    scopes.forEach((scope) => pendingStages.add(`Answering: ${scope}`));
 
-      // Clean up embeddings for this file
-      console.log(`\n=== CLEANING UP EMBEDDINGS FOR ${file.name} ===`);
-      console.log(`File Session ID: ${fileSessionId}`);
-      await cleanupEmbeddings(fileSessionId);
+    const answeringSteps =
+      mode === "package" ? queries.length : queries.length * documents.length;
+    emitProgress(
+      "starting",
+      `Answering ${queries.length} queries for ${documents.length} stored documents`,
+      undefined,
+      undefined,
+      answeringSteps + processingConfig.extraction.baseStepsCount
+    );
+
+    const results = await answerIndexedDocuments(
+      documents,
+      queries,
+      mode,
+      run,
+      pendingStages
+    );
+
+    for (const document of documents) {
+      await touchStoredDocument(document.id);
     }
 
-    console.log("Document processing completed");
-    emitProgress("completed", "All files processed successfully");
+    const tenderExtractions = getTenderExtractions(documents);
 
-    return { fileResults, debugInfo };
-  } catch (error) {
-    console.error("Error in parseDocuments:", error);
-    onProgress?.(
-      "error",
-      `Processing failed: ${
-        error instanceof Error ? error.message : "Unknown error"
-      }`
+    const timeLimitReached = run.wasTimeLimitReached();
+    console.log("Stored document query completed");
+    console.log("Embedding stats:", run.callOptions.embeddingStats);
+    emitProgress(
+      "completed",
+      timeLimitReached
+        ? "Time limit reached, returning partial results"
+        : "All queries answered successfully"
     );
-    throw new Error("Failed to process documents");
+
+    return {
+      status: timeLimitReached ? "time_limit_reached" : "completed",
+      mode,
+      ...results,
+      debugInfo: documents.flatMap((document) => document.extraction),
+      documentIds,
+      tenderExtractions,
+      deadlines: collectDeadlines(tenderExtractions),
+      outputLanguage: run.outputLanguage,
+      documentLanguages: getDocumentLanguages(documents),
+      embeddingStats: run.callOptions.embeddingStats,
+    };
+  } catch (error) {
+    handleRunFailure(error, signal, pendingStages, onProgress);
   }
 }
 
@@ -416,8 +1193,17 @@ export async function processSingleDocument(
     const chunks = await createPDFChunks(file);
     const chunk = chunks[0]; // Single chunk for entire document
 
-    const processedText = await processPDFChunk(file, chunk);
-    const paragraphs = splitTextIntoParagraphs(processedText);
+    const { text: processedText, language } = await processPDFChunk(
+      file,
+      chunk,
+      languagesConfig.fallbackDocumentLanguage
+    );
+    const paragraphs = splitTextIntoParagraphs(
+      processedText,
+      language ??
+        detectLanguage(processedText) ??
+        languagesConfig.fallbackDocumentLanguage
+    );
 
     return {
       filename: file.name,
@@ -0,0 +1,161 @@
+// Letters counted as vowels by the Snowball German stemmer
+const VOWELS = "aeiouyäöü";
+
+// Fugenelemente between the parts of a compound, e.g. "Angebot-s-frist"
+const LINKING_ELEMENTS = ["es", "s", "en", "n", "e"];
+
+// Shorter parts are too ambiguous to split on
+const MIN_COMPOUND_PART_LENGTH = 4;
+const MAX_COMPOUND_PARTS = 4;
+
+function isVowel(char: string | undefined): boolean {
+  return char !== undefined && VOWELS.includes(char);
+}
+
+// Start of the region after the first non-vowel that follows a vowel
+function regionStart(word: string, from: number): number {
+  for (let i = Math.max(from, 1); i < word.length; i++) {
+    if (isVowel(word[i - 1]) && !isVowel(word[i])) return i + 1;
+  }
+  return word.length;
+}
+
+/**
+ * Stem a German word with the Snowball German algorithm, e.g.
+ * "Versicherungen" -> "versicher", "Nachweise" -> "nachweis"
+ */
+export function stemGerman(word: string): string {
+  // u and y between vowels are treated as consonants
+  let stem = word
+    .toLowerCase()
+    .replace(/ß/g, "ss")
+    .replace(/(?<=[aeiouyäöü])([uy])(?=[aeiouyäöü])/g, (char) =>
+      char.toUpperCase()
+    );
+
+  const r1 = Math.max(regionStart(stem, 0), 3);
+  const r2 = regionStart(stem, r1 + 1);
+  const inR1 = (suffix: string) => stem.length - suffix.length >= r1;
+  const inR2 = (suffix: string) => stem.length - suffix.length >= r2;
+  const remove = (suffix: string) => {
+    stem = stem.slice(0, -suffix.length);
+  };
+
+  // Step 1: inflection endings
+  const step1 = ["ern", "em", "er", "en", "es", "e", "s"].find((suffix) =>
+    stem.endsWith(suffix)
+  );
+  if (step1 && inR1(step1)) {
+    if (step1 === "s") {
+      if ("bdfghklmnrt".includes(stem[stem.length - 2] ?? "")) remove(step1);
+    } else {
+      remove(step1);
+      if (["en", "es", "e"].includes(step1) && stem.endsWith("niss")) {
+        remove("s");
+      }
+    }
+  }
+
+  // Step 2: further endings, "st" only after a valid ending and 3 letters
+  const step2 = ["est", "en", "er", "st"].find((suffix) =>
+    stem.endsWith(suffix)
+  );
+  if (step2 && inR1(step2)) {
+    if (step2 !== "st") {
+      remove(step2);
+    } else if (
+      "bdfghklmnt".includes(stem[stem.length - 3] ?? "") &&
+      stem.length - 3 >= 3
+    ) {
+      remove(step2);
+    }
+  }
+
+  // Step 3: derivational suffixes
+  const step3 = ["isch", "lich", "heit", "keit", "end", "ung", "ig", "ik"].find(
+    (suffix) => stem.endsWith(suffix)
+  );
+  if (step3 && inR2(step3)) {
+    const precededByE = stem[stem.length - step3.length - 1] === "e";
+    switch (step3) {
+      case "end":
+      case "ung":
+        remove(step3);
+        if (
+          stem.endsWith("ig") &&
+          inR2("ig") &&
+          stem[stem.length - 3] !== "e"
+        ) {
+          remove("ig");
+        }
+        break;
+      case "ig":
+      case "ik":
+      case "isch":
+        if (!precededByE) remove(step3);
+        break;
+      case "lich":
+      case "heit": {
+        remove(step3);
+        const ending = ["er", "en"].find((suffix) => stem.endsWith(suffix));
+        if (ending && inR1(ending)) remove(ending);
+        break;
+      }
+      case "keit":
+        remove(step3);
+        if (stem.endsWith("lich") && inR2("lich")) remove("lich");
+        else if (stem.endsWith("ig") && inR2("ig")) remove("ig");
+        break;
+    }
+  }
+
+  return stem
+    .toLowerCase()
+    .replace(/ä/g, "a")
+    .replace(/ö/g, "o")
+    .replace(/ü/g, "u");
+}
+
+/**
+ * Split a German compound into the stems of its parts, using the stems
+ * known from the indexed text, e.g. "Angebotsfrist" -> ["angebot", "frist"].
+ * Returns null when the word cannot be split completely.
+ */
+export function splitGermanCompound(
+  word: string,
+  knownStems: Set<string>,
+  maxParts = MAX_COMPOUND_PARTS
+): string[] | null {
+  const lower = word.toLowerCase();
+  if (maxParts < 2 || lower.length < 2 * MIN_COMPOUND_PART_LENGTH) {
+    return null;
+  }
+
+  // Longest head first, so "Vergabenummer" prefers "vergabe" over "verga"
+  for (
+    let end = lower.length - MIN_COMPOUND_PART_LENGTH;
+    end >= MIN_COMPOUND_PART_LENGTH;
+    end--
+  ) {
+    const head = lower.slice(0, end);
+    const headStem = [
+      head,
+      ...LINKING_ELEMENTS.filter(
+        (element) =>
+          head.endsWith(element) &&
+          head.length - element.length >= MIN_COMPOUND_PART_LENGTH
+      ).map((element) => head.slice(0, -element.length)),
+    ]
+      .map(stemGerman)
+      .find((stem) => knownStems.has(stem));
+    if (!headStem) continue;
+
+    const tail = lower.slice(end);
+    const tailStem = stemGerman(tail);
+    if (knownStems.has(tailStem)) return [headStem, tailStem];
+
+    const tailParts = splitGermanCompound(tail, knownStems, maxParts - 1);
+    if (tailParts) return [headStem, ...tailParts];
+  }
+  return null;
+}
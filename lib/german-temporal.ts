@@ -0,0 +1,612 @@
+import type { Language } from "./types";
+import config from "./config";
+
+// Get configuration
+const textConfig = config.getTextConfig();
+const deadlinesConfig = config.getDeadlinesConfig();
+
+/**
+ * A date, time, week, range or relative period found in German text.
+ * Values are ISO 8601: "2025-12-31", "2025-12-31T12:00:00+01:00",
+ * "2026-W14" or a duration such as "P10D" for relative expressions.
+ */
+export interface TemporalExpression {
+  type: "date" | "date_time" | "week" | "range" | "relative";
+  // Matched text and its position in the input
+  text: string;
+  start: number;
+  end: number;
+  value: string;
+  // Last day or moment of a range
+  endValue?: string;
+  // Relative expressions: the event the period counts from ("Zuschlag")
+  anchor?: string;
+  direction?: "after" | "before";
+  // Counted in Werktage/Arbeitstage instead of calendar days
+  businessDays?: boolean;
+}
+
+export interface TemporalParseOptions {
+  // Zone of times without an explicit "MEZ"/"MESZ"
+  timeZone?: string;
+  // Also read the month names of this language ("March 31, 2026",
+  // "31 mars 2026"); German notations are always read
+  language?: Language;
+}
+
+interface PointInTime {
+  start: number;
+  end: number;
+  year: number;
+  month: number;
+  day: number;
+  hour?: number;
+  minute?: number;
+  // Explicit offset in minutes ("MEZ" = 60)
+  offset?: number;
+}
+
+const MONTH_PATTERN =
+  "januar|jänner|februar|märz|maerz|april|mai|juni|juli|august|september|oktober|november|dezember|jan|jän|feb|mär|mrz|apr|jun|jul|aug|sept|sep|okt|nov|dez";
+
+// Months by their first three letters
+const MONTHS: Record<string, number> = {
+  jan: 1,
+  jän: 1,
+  feb: 2,
+  mär: 3,
+  mae: 3,
+  mrz: 3,
+  apr: 4,
+  mai: 5,
+  jun: 6,
+  jul: 7,
+  aug: 8,
+  sep: 9,
+  okt: 10,
+  nov: 11,
+  dez: 12,
+};
+
+// English and French month names and abbreviations
+const FOREIGN_MONTHS: Record<
+  Exclude<Language, "de">,
+  Record<string, number>
+> = {
+  en: {
+    january: 1,
+    february: 2,
+    march: 3,
+    april: 4,
+    may: 5,
+    june: 6,
+    july: 7,
+    august: 8,
+    september: 9,
+    october: 10,
+    november: 11,
+    december: 12,
+    jan: 1,
+    feb: 2,
+    mar: 3,
+    apr: 4,
+    jun: 6,
+    jul: 7,
+    aug: 8,
+    sept: 9,
+    sep: 9,
+    oct: 10,
+    nov: 11,
+    dec: 12,
+  },
+  fr: {
+    janvier: 1,
+    février: 2,
+    fevrier: 2,
+    mars: 3,
+    avril: 4,
+    mai: 5,
+    juin: 6,
+    juillet: 7,
+    août: 8,
+    aout: 8,
+    septembre: 9,
+    octobre: 10,
+    novembre: 11,
+    décembre: 12,
+    decembre: 12,
+    janv: 1,
+    févr: 2,
+    fevr: 2,
+    avr: 4,
+    juil: 7,
+    sept: 9,
+    oct: 10,
+    nov: 11,
+    déc: 12,
+    dec: 12,
+  },
+};
+
+const ZONE_OFFSETS: Record<string, number> = {
+  mez: 60,
+  cet: 60,
+  mesz: 120,
+  cest: 120,
+  utc: 0,
+  gmt: 0,
+};
+
+const NUMBER_WORDS: Record<string, number> = {
+  ein: 1,
+  eine: 1,
+  einem: 1,
+  einer: 1,
+  zwei: 2,
+  drei: 3,
+  vier: 4,
+  fünf: 5,
+  sechs: 6,
+  sieben: 7,
+  acht: 8,
+  neun: 9,
+  zehn: 10,
+  zwölf: 12,
+  vierzehn: 14,
+  dreißig: 30,
+};
+
+// Numeric dates come from the configurable pattern (named groups day, month, year)
+const NUMERIC_DATE_SOURCE = textConfig.processing.dateRegex;
+// Numbers after these are identifiers, not dates ("Az. 12.3.45",
+// "Vergabe-Nr. 1.2.2024", "Version 2.1.10")
+const IDENTIFIER_PREFIX_REGEX =
+  /(?<!\p{L})(?:Az|Aktenzeichen|Nr|Nummer|Version|Ver|Ziffer|Ziff|Abschnitt|Kapitel|Anlage|§)\.?\s*:?\s*$/iu;
+const TEXTUAL_DATE_SOURCE = `(?<![\\p{L}\\d])(\\d{1,2})\\.?\\s*(${MONTH_PATTERN})\\.?\\s+(\\d{4}|\\d{2})(?!\\d)`;
+const ISO_DATE_SOURCE = "(?<![\\d.])(\\d{4})-(\\d{2})-(\\d{2})(?!\\d)";
+const WEEK_SOURCE =
+  "(?<!\\p{L})(?:KW|Kalenderwoche)\\s*(\\d{1,2})(?:\\s*[/.]\\s*|\\s+(?:des\\s+Jahres\\s+)?)(\\d{4}|\\d{2})(?!\\d)";
+const RELATIVE_SOURCE = `(?<!\\p{L})(?:(innerhalb\\s+(?:von\\s+)?|binnen\\s+))?(\\d+|${Object.keys(
+  NUMBER_WORDS
+).join(
+  "|"
+)})\\s+(Kalendertag(?:en|e)?|Werktag(?:en|e)?|Arbeitstag(?:en|e)?|Tag(?:en|e)?|Wochen?|Monat(?:en|e)?|Jahr(?:en|e)?)(?:\\s+(nach|vor|ab)\\s+(?:(?:dem|der|den|des)\\s+)?(\\p{L}[\\p{L}-]*(?:\\s+(?:der|des)\\s+\\p{L}[\\p{L}-]*)?))?`;
+
+// Time right after a date: ", 10:00 Uhr", " um 10.00 Uhr MEZ", " 12 Uhr"
+const TIME_AFTER_REGEX =
+  /^\s*,?\s*(?:(?:um|bis|ab|gegen|spätestens)\s+)?(?:(\d{1,2}):(\d{2})(?:\s*Uhr)?|(\d{1,2})\.(\d{2})\s*Uhr|(\d{1,2})\s*Uhr)(?:\s*\(?(MEZ|MESZ|CET|CEST|UTC|GMT)\)?)?(?!\p{L})/iu;
+// Time right before a date: "10:00 Uhr am 31.12.2025"
+const TIME_BEFORE_REGEX =
+  /(?<![\d.:])(?:(\d{1,2}):(\d{2})|(\d{1,2})\.(\d{2})(?=\s*Uhr)|(\d{1,2})(?=\s*Uhr))(?:\s*Uhr)?(?:\s*\(?(MEZ|MESZ|CET|CEST|UTC|GMT)\)?)?\s*,?\s*(?:am\s+)?$/iu;
+// Connectors between the two ends of a range
+const RANGE_CONNECTOR_REGEX =
+  /^\s*(?:-|–|—|bis(?:\s+(?:zum|einschließlich))?|und)(?:\s+dem)?\s*$/i;
+// Day (and month) before a range end: "01.–15.03.2025", "01.03. bis 15.03.2025"
+const PARTIAL_RANGE_START_REGEX =
+  /(?<![\d.])(\d{1,2})\.(?:\s*(\d{1,2})\.)?\s*(?:-|–|—|bis(?:\s+zum)?)\s*$/i;
+// The same after "zwischen": "zwischen dem 1. und 15. März 2025"
+const BETWEEN_RANGE_START_REGEX =
+  /(?<=zwischen(?:\s+dem)?\s+)(\d{1,2})\.(?:\s*(\d{1,2})\.)?\s*und(?:\s+dem)?\s*$/i;
+
+const pad = (value: number) => String(value).padStart(2, "0");
+
+/**
+ * Offset of a time zone from UTC in minutes at the given instant
+ */
+function getTimeZoneOffsetMinutes(utcMs: number, timeZone: string): number {
+  const parts = new Intl.DateTimeFormat("en-US", {
+    timeZone,
+    hourCycle: "h23",
+    year: "numeric",
+    month: "2-digit",
+    day: "2-digit",
+    hour: "2-digit",
+    minute: "2-digit",
+    second: "2-digit",
+  }).formatToParts(new Date(utcMs));
+  const get = (type: string) =>
+    Number(parts.find((part) => part.type === type)?.value);
+
+  const asUtc = Date.UTC(
+    get("year"),
+    get("month") - 1,
+    get("day"),
+    get("hour"),
+    get("minute"),
+    get("second")
+  );
+  return Math.round((asUtc - utcMs) / 60000);
+}
+
+function formatOffset(offset: number): string {
+  const sign = offset >= 0 ? "+" : "-";
+  const absolute = Math.abs(offset);
+  return `${sign}${pad(Math.floor(absolute / 60))}:${pad(absolute % 60)}`;
+}
+
+/**
+ * ISO 8601 date-time of a local wall-clock time in the given time zone,
+ * e.g. "2025-03-12T10:00:00+01:00"
+ */
+export function toZonedIsoString(
+  year: number,
+  month: number,
+  day: number,
+  hour: number,
+  minute: number,
+  timeZone: string = deadlinesConfig.timeZone
+): string {
+  const wallClockAsUtc = Date.UTC(year, month - 1, day, hour, minute);
+  // Two passes settle the offset around daylight saving transitions
+  let offset = getTimeZoneOffsetMinutes(wallClockAsUtc, timeZone);
+  offset = getTimeZoneOffsetMinutes(wallClockAsUtc - offset * 60000, timeZone);
+
+  return `${year}-${pad(month)}-${pad(day)}T${pad(hour)}:${pad(
+    minute
+  )}:00${formatOffset(offset)}`;
+}
+
+// Two-digit years up to this many years ahead are read as 20xx, later
+// ones as 19xx ("31.12.25" is 2025, "01.01.85" is 1985)
+const TWO_DIGIT_YEAR_LOOKAHEAD = 20;
+
+function toFullYear(year: string): number {
+  const value = Number(year);
+  if (year.length > 2) return value;
+
+  const currentYear = new Date().getUTCFullYear();
+  const century = Math.floor(currentYear / 100) * 100;
+  return value <= (currentYear % 100) + TWO_DIGIT_YEAR_LOOKAHEAD
+    ? century + value
+    : century - 100 + value;
+}
+
+function isValidDate(year: number, month: number, day: number): boolean {
+  const date = new Date(Date.UTC(year, month - 1, day));
+  return (
+    date.getUTCFullYear() === year &&
+    date.getUTCMonth() === month - 1 &&
+    date.getUTCDate() === day
+  );
+}
+
+function toIsoValue(point: PointInTime, timeZone: string): string {
+  const { year, month, day, hour, minute, offset } = point;
+  if (hour === undefined) {
+    return `${year}-${pad(month)}-${pad(day)}`;
+  }
+  if (offset !== undefined) {
+    return `${year}-${pad(month)}-${pad(day)}T${pad(hour)}:${pad(
+      minute ?? 0
+    )}:00${offset === 0 ? "Z" : formatOffset(offset)}`;
+  }
+  return toZonedIsoString(year, month, day, hour, minute ?? 0, timeZone);
+}
+
+/**
+ * Read a time from the groups of TIME_AFTER_REGEX / TIME_BEFORE_REGEX
+ */
+function readTime(
+  match: RegExpMatchArray
+): { hour: number; minute: number; offset?: number } | null {
+  const hour = Number(match[1] ?? match[3] ?? match[5]);
+  const minute = Number(match[2] ?? match[4] ?? 0);
+  if (hour > 24 || minute > 59 || (hour === 24 && minute > 0)) return null;
+
+  const zone = match[6]?.toLowerCase();
+  return {
+    // "24:00 Uhr" is the end of the day
+    hour: hour === 24 ? 23 : hour,
+    minute: hour === 24 ? 59 : minute,
+    offset: zone ? ZONE_OFFSETS[zone] : undefined,
+  };
+}
+
+/**
+ * Dates with English or French month names: "31 March 2026", "1er mars
+ * 2026" and, in English, "March 31, 2026"
+ */
+function findForeignDates(
+  text: string,
+  language: Exclude<Language, "de">
+): PointInTime[] {
+  const months = FOREIGN_MONTHS[language];
+  // Longest names first, so "mar" does not cut "march" short
+  const monthPattern = Object.keys(months)
+    .sort((a, b) => b.length - a.length)
+    .join("|");
+  const dates: PointInTime[] = [];
+
+  const dayFirst = `(?<![\\p{L}\\d])(\\d{1,2})(?:st|nd|rd|th|er)?\\s+(?:of\\s+)?(${monthPattern})\\.?,?\\s+(\\d{4})(?!\\d)`;
+  for (const match of text.matchAll(new RegExp(dayFirst, "giu"))) {
+    dates.push({
+      start: match.index!,
+      end: match.index! + match[0].length,
+      day: Number(match[1]),
+      month: months[match[2].toLowerCase()],
+      year: Number(match[3]),
+    });
+  }
+
+  if (language === "en") {
+    const monthFirst = `(?<![\\p{L}\\d])(${monthPattern})\\.?\\s+(\\d{1,2})(?:st|nd|rd|th)?,?\\s+(\\d{4})(?!\\d)`;
+    for (const match of text.matchAll(new RegExp(monthFirst, "giu"))) {
+      dates.push({
+        start: match.index!,
+        end: match.index! + match[0].length,
+        day: Number(match[2]),
+        month: months[match[1].toLowerCase()],
+        year: Number(match[3]),
+      });
+    }
+  }
+
+  return dates;
+}
+
+/**
+ * Calendar dates in all supported notations, without overlaps
+ */
+function findDates(text: string, language?: Language): PointInTime[] {
+  const dates: PointInTime[] = [];
+
+  for (const match of text.matchAll(new RegExp(NUMERIC_DATE_SOURCE, "gu"))) {
+    const groups = match.groups!;
+    // Short years only in the unambiguous form "31.12.25"
+    if (
+      groups.year.length === 2 &&
+      (groups.day.length !== 2 || groups.month.length !== 2)
+    ) {
+      continue;
+    }
+    if (IDENTIFIER_PREFIX_REGEX.test(text.slice(0, match.index!))) continue;
+
+    dates.push({
+      start: match.index!,
+      end: match.index! + match[0].length,
+      day: Number(groups.day),
+      month: Number(groups.month),
+      year: toFullYear(groups.year),
+    });
+  }
+
+  for (const match of text.matchAll(new RegExp(TEXTUAL_DATE_SOURCE, "giu"))) {
+    dates.push({
+      start: match.index!,
+      end: match.index! + match[0].length,
+      day: Number(match[1]),
+      month: MONTHS[match[2].toLowerCase().slice(0, 3)],
+      year: toFullYear(match[3]),
+    });
+  }
+
+  for (const match of text.matchAll(new RegExp(ISO_DATE_SOURCE, "g"))) {
+    dates.push({
+      start: match.index!,
+      end: match.index! + match[0].length,
+      year: Number(match[1]),
+      month: Number(match[2]),
+      day: Number(match[3]),
+    });
+  }
+
+  if (language && language !== "de") {
+    dates.push(...findForeignDates(text, language));
+  }
+
+  return removeOverlaps(
+    dates.filter((date) => isValidDate(date.year, date.month, date.day))
+  );
+}
+
+/**
+ * Attach a time of day written right after or before a date
+ */
+function attachTime(text: string, date: PointInTime): PointInTime {
+  const after = text.slice(date.end).match(TIME_AFTER_REGEX);
+  const afterTime = after ? readTime(after) : null;
+  if (after && afterTime) {
+    return { ...date, ...afterTime, end: date.end + after[0].length };
+  }
+
+  const before = text.slice(0, date.start).match(TIME_BEFORE_REGEX);
+  const beforeTime = before ? readTime(before) : null;
+  if (before && beforeTime) {
+    return { ...date, ...beforeTime, start: date.start - before[0].length };
+  }
+
+  return date;
+}
+
+/**
+ * Keep the earliest (and then longest) of overlapping matches
+ */
+function removeOverlaps<T extends { start: number; end: number }>(
+  matches: T[]
+): T[] {
+  const sorted = [...matches].sort(
+    (a, b) => a.start - b.start || b.end - a.end
+  );
+  const kept: T[] = [];
+
+  for (const match of sorted) {
+    const previous = kept[kept.length - 1];
+    if (!previous || match.start >= previous.end) {
+      kept.push(match);
+    }
+  }
+
+  return kept;
+}
+
+/**
+ * Combine neighbouring dates into ranges ("01.03.2025 bis 15.03.2025",
+ * "zwischen dem 1. und 15. März 2025" is read as "01.–15.03.2025")
+ */
+function buildDateExpressions(
+  text: string,
+  points: PointInTime[],
+  timeZone: string
+): TemporalExpression[] {
+  const expressions: TemporalExpression[] = [];
+  let previousEnd = 0;
+
+  const toExpression = (point: PointInTime): TemporalExpression => ({
+    type: point.hour === undefined ? "date" : "date_time",
+    text: text.slice(point.start, point.end),
+    start: point.start,
+    end: point.end,
+    value: toIsoValue(point, timeZone),
+  });
+
+  for (let index = 0; index < points.length; index++) {
+    const point = points[index];
+    const next = points[index + 1];
+    const connector = next ? text.slice(point.end, next.start) : "";
+
+    if (next && RANGE_CONNECTOR_REGEX.test(connector)) {
+      const isBetween = /^\s*und(?:\s+dem)?\s*$/i.test(connector);
+      const hasBetween = /zwischen(?:\s+dem)?\s*$/i.test(
+        text.slice(0, point.start)
+      );
+      if (!isBetween || hasBetween) {
+        expressions.push({
+          type: "range",
+          text: text.slice(point.start, next.end),
+          start: point.start,
+          end: next.end,
+          value: toIsoValue(point, timeZone),
+          endValue: toIsoValue(next, timeZone),
+        });
+        previousEnd = next.end;
+        index++;
+        continue;
+      }
+    }
+
+    // Range whose start only gives the day (and month) of the end date
+    const before = text.slice(previousEnd, point.start);
+    const partial =
+      before.match(PARTIAL_RANGE_START_REGEX) ??
+      before.match(BETWEEN_RANGE_START_REGEX);
+    if (partial) {
+      const startDay = Number(partial[1]);
+      const startMonth = partial[2] ? Number(partial[2]) : point.month;
+      if (isValidDate(point.year, startMonth, startDay)) {
+        const start = point.start - partial[0].length;
+        expressions.push({
+          type: "range",
+          text: text.slice(start, point.end),
+          start,
+          end: point.end,
+          value: `${point.year}-${pad(startMonth)}-${pad(startDay)}`,
+          endValue: toIsoValue(point, timeZone),
+        });
+        previousEnd = point.end;
+        continue;
+      }
+    }
+
+    expressions.push(toExpression(point));
+    previousEnd = point.end;
+  }
+
+  return expressions;
+}
+
+function findWeeks(text: string): TemporalExpression[] {
+  const weeks: TemporalExpression[] = [];
+
+  for (const match of text.matchAll(new RegExp(WEEK_SOURCE, "giu"))) {
+    const week = Number(match[1]);
+    if (week < 1 || week > 53) continue;
+
+    weeks.push({
+      type: "week",
+      text: match[0],
+      start: match.index!,
+      end: match.index! + match[0].length,
+      value: `${toFullYear(match[2])}-W${pad(week)}`,
+    });
+  }
+
+  return weeks;
+}
+
+function findRelativePeriods(text: string): TemporalExpression[] {
+  const periods: TemporalExpression[] = [];
+
+  for (const match of text.matchAll(new RegExp(RELATIVE_SOURCE, "giu"))) {
+    const [, within, amountText, unitText, direction, anchor] = match;
+    // Plain durations ("3 Jahre Erfahrung") are not temporal references
+    if (!within && !anchor) continue;
+
+    const amount = /^\d+$/.test(amountText)
+      ? Number(amountText)
+      : NUMBER_WORDS[amountText.toLowerCase()];
+    const unit = unitText.toLowerCase();
+    const designator = unit.startsWith("woche")
+      ? "W"
+      : unit.startsWith("monat")
+      ? "M"
+      : unit.startsWith("jahr")
+      ? "Y"
+      : "D";
+
+    periods.push({
+      type: "relative",
+      text: match[0],
+      start: match.index!,
+      end: match.index! + match[0].length,
+      value: `P${amount}${designator}`,
+      anchor: anchor || undefined,
+      direction: direction
+        ? direction.toLowerCase() === "vor"
+          ? "before"
+          : "after"
+        : undefined,
+      businessDays: /^(werk|arbeits)tag/.test(unit) || undefined,
+    });
+  }
+
+  return periods;
+}
+
+/**
+ * Find all temporal expressions in German text, in order of appearance.
+ * With options.language "en" or "fr", dates with English or French month
+ * names are read too; times, weeks, ranges and relative periods are only
+ * recognized in German wording.
+ */
+export function parseGermanTemporal(
+  text: string,
+  options: TemporalParseOptions = {}
+): TemporalExpression[] {
+  const timeZone = options.timeZone ?? deadlinesConfig.timeZone;
+  const points = findDates(text, options.language).map((date) =>
+    attachTime(text, date)
+  );
+
+  return removeOverlaps([
+    ...buildDateExpressions(text, points, timeZone),
+    ...findWeeks(text),
+    ...findRelativePeriods(text),
+  ]);
+}
+
+/**
+ * The first absolute date, date-time or range in the text
+ */
+export function parseGermanDate(
+  text: string,
+  options: TemporalParseOptions = {}
+): TemporalExpression | null {
+  return (
+    parseGermanTemporal(text, options).find(
+      (expression) =>
+        expression.type === "date" ||
+        expression.type === "date_time" ||
+        expression.type === "range"
+    ) ?? null
+  );
+}
@@ -3,8 +3,19 @@ export {
   parseDocuments,
   processSingleDocument,
   findSimilarContent,
+  queryStoredDocuments,
+  type ParseDocumentsOptions,
+  type QueryStoredDocumentsOptions,
 } from "./extraction";
 
+// Document library
+export {
+  listStoredDocuments,
+  getStoredDocument,
+  deleteStoredDocument,
+  getDocumentId,
+} from "./document-library";
+
 // PDF processing functions
 export {
   createPDFChunks,
@@ -21,14 +32,102 @@ export {
   bufferToFile,
   shouldSplitPdf,
   type SplitOptions,
+  type PdfSlice,
 } from "./pdf-splitter";
 
 // AI service functions
-export { processChunkWithClaude, answerQuestion } from "./ai-service";
+export {
+  processChunkWithClaude,
+  answerQuestion,
+  rerankPassages,
+  type QueryAnswer,
+} from "./ai-service";
+
+// Structured tender extraction
+export {
+  tenderExtractionSchema,
+  parseTenderExtraction,
+  mergeTenderExtractions,
+  DEADLINE_KIND_LABELS,
+  type TenderExtraction,
+  type DeadlineKind,
+} from "./tender-extraction";
+
+// German date and time parsing
+export {
+  parseGermanTemporal,
+  parseGermanDate,
+  toZonedIsoString,
+  type TemporalExpression,
+  type TemporalParseOptions,
+} from "./german-temporal";
+
+// Deterministic condition evaluation
+export {
+  parseComparisonCondition,
+  evaluateComparisonCondition,
+  parseGermanAmount,
+  type ComparisonCondition,
+} from "./condition-evaluator";
+
+// Query classification
+export {
+  QUERY_TYPES,
+  isQueryType,
+  expectsVerdict,
+  detectQueryType,
+  resolveQueryInputs,
+  getQueryTagRouting,
+} from "./query-classifier";
+
+// Languages of documents and answers
+export {
+  SUPPORTED_LANGUAGES,
+  LANGUAGE_NAMES,
+  isLanguage,
+  detectLanguage,
+  getPredominantLanguage,
+} from "./language";
+export { getLanguagePack, type LanguagePack } from "./language-packs";
+
+// LLM providers
+export {
+  getLlmProvider,
+  type LlmProvider,
+  type LlmRequest,
+  type LlmTask,
+  type LlmTool,
+} from "./llm-provider";
+
+// Deadlines and calendar export
+export {
+  collectDeadlines,
+  normalizeDeadlineDate,
+  classifyDeadlineKind,
+} from "./deadlines";
+export { buildDeadlineCalendar } from "./calendar";
+
+// Bidder checklist
+export { buildChecklist } from "./checklist";
+
+// Question catalogues
+export {
+  listCatalogues,
+  getCatalogue,
+  createCatalogue,
+  updateCatalogue,
+  restoreCatalogueVersion,
+  deleteCatalogue,
+  exportCatalogue,
+  parseCatalogueInput,
+  CatalogueValidationError,
+  type CatalogueInput,
+} from "./question-catalogues";
 
 // Text processing functions
 export {
   splitTextIntoParagraphs,
+  detectParagraphTags,
   normalizeText,
   extractMetadata,
   formatText,
@@ -43,6 +142,36 @@ export {
   embeddingsExist,
   createNamespace,
 } from "./embeddings";
+export {
+  getEmbeddingCacheKey,
+  getCachedEmbeddings,
+  setCachedEmbeddings,
+  clearEmbeddingCache,
+} from "./embedding-cache";
+export {
+  getEmbeddingProvider,
+  hashEmbedding,
+  assertEmbeddingDimensions,
+  type EmbeddingProvider,
+} from "./embedding-provider";
+export {
+  getVectorStore,
+  matchesFilter,
+  type VectorStore,
+  type VectorNamespace,
+  type VectorRecord,
+  type VectorMatch,
+  type VectorQuery,
+  type VectorFilter,
+} from "./vector-store";
+export {
+  saveLexicalIndex,
+  searchLexicalIndex,
+  deleteLexicalIndex,
+} from "./lexical-index";
+export { stemGerman, splitGermanCompound } from "./german-stemming";
+export { getReranker, rerankChunks, type Reranker } from "./reranker";
+export { selectContext, estimateTokens } from "./context-selection";
 
 // Types
 export type {
@@ -51,6 +180,31 @@ export type {
   QuestionAnswer,
   EmbeddingsMetadata,
   VectorSearchResult,
+  Retriever,
+  RetrieverHit,
+  ChunkTag,
+  ChunkFilter,
+  ChunkSearchOptions,
+  EmbeddingStats,
+  ContextChunk,
+  ContextDropReason,
+  ContextSelection,
+  SourceReference,
+  PageRange,
+  AnalysisMode,
+  PackageResult,
+  StoredDocument,
+  StoredDocumentDetails,
+  ChunkExtraction,
+  FileTenderExtraction,
+  Deadline,
+  ConditionVerdict,
+  EvidenceQuote,
+  VerdictResult,
+  VerdictCertainty,
+  VerdictComparison,
+  ComparisonOperator,
+  Language,
 } from "./types";
 
 // Configuration
@@ -0,0 +1,376 @@
+import type {
+  AnalysisMode,
+  JobSummary,
+  ProcessingResult,
+  ProgressUpdate,
+} from "./types";
+import { isCancellationError, ProcessingCancelledError } from "./cancellation";
+import config from "./config";
+
+// Get configuration
+const jobsConfig = config.getJobsConfig();
+
+/**
+ * Progress callback handed to a job task (same shape as parseDocuments uses)
+ */
+export type JobProgressCallback = (
+  step: string,
+  message: string,
+  filename?: string,
+  chunkId?: string,
+  updateTotalSteps?: number
+) => void;
+
+/**
+ * The work a job performs once it is picked from the queue.
+ * The signal is aborted when the job is cancelled.
+ */
+export type JobTask = (
+  onProgress: JobProgressCallback,
+  signal: AbortSignal
+) => Promise<ProcessingResult>;
+
+export interface JobInput {
+  mode: AnalysisMode;
+  filenames: string[];
+  queryCount: number;
+  // Initial estimate, refined by the task through onProgress
+  estimatedTotalSteps: number;
+}
+
+type JobListener = (update: ProgressUpdate) => void;
+
+interface Job extends JobSummary {
+  events: ProgressUpdate[];
+  result?: ProcessingResult;
+  listeners: Set<JobListener>;
+  task: JobTask;
+  controller: AbortController;
+  // Pending cancellation after the last client detached
+  orphanTimer?: ReturnType<typeof setTimeout>;
+}
+
+interface JobRegistry {
+  jobs: Map<string, Job>;
+  queue: string[];
+  running: number;
+}
+
+// Keep the registry on globalThis so every route handler (and dev-mode
+// reloads) share the same queue
+const globalForJobs = globalThis as typeof globalThis & {
+  __tenderJobRegistry?: JobRegistry;
+};
+
+const registry: JobRegistry =
+  globalForJobs.__tenderJobRegistry ??
+  (globalForJobs.__tenderJobRegistry = {
+    jobs: new Map(),
+    queue: [],
+    running: 0,
+  });
+
+/**
+ * Generate a unique job ID
+ */
+function generateJobId(): string {
+  return `job-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
+}
+
+/**
+ * Check if a job has reached a terminal state
+ */
+function isFinished(job: Job): boolean {
+  return (
+    job.status === "completed" ||
+    job.status === "failed" ||
+    job.status === "cancelled"
+  );
+}
+
+/**
+ * Strip internal fields so a job can be returned from the API
+ */
+function toSummary(job: Job): JobSummary {
+  return {
+    id: job.id,
+    status: job.status,
+    mode: job.mode,
+    filenames: job.filenames,
+    queryCount: job.queryCount,
+    currentStep: job.currentStep,
+    totalSteps: job.totalSteps,
+    lastMessage: job.lastMessage,
+    error: job.error,
+    cancelledStages: job.cancelledStages,
+    createdAt: job.createdAt,
+    startedAt: job.startedAt,
+    finishedAt: job.finishedAt,
+  };
+}
+
+/**
+ * Record an update on the job and forward it to all attached listeners
+ */
+function publish(job: Job, update: ProgressUpdate): void {
+  job.events.push(update);
+  job.lastMessage = update.message;
+
+  job.listeners.forEach((listener) => {
+    try {
+      listener(update);
+    } catch (error) {
+      console.warn(`Listener for job ${job.id} failed:`, error);
+    }
+  });
+}
+
+/**
+ * Drop the oldest finished jobs once the store grows beyond its limit
+ */
+function pruneJobs(): void {
+  const finished = Array.from(registry.jobs.values())
+    .filter(isFinished)
+    .sort((a, b) => a.createdAt - b.createdAt);
+
+  while (registry.jobs.size > jobsConfig.maxStoredJobs && finished.length > 0) {
+    const oldest = finished.shift()!;
+    registry.jobs.delete(oldest.id);
+  }
+}
+
+/**
+ * Mark a job as cancelled and tell listeners which stages were cut off
+ */
+function markCancelled(job: Job, cancelledStages: string[]): void {
+  console.log(`Job ${job.id} cancelled`, cancelledStages);
+
+  job.status = "cancelled";
+  job.finishedAt = Date.now();
+  job.cancelledStages = cancelledStages;
+
+  publish(job, {
+    type: "cancelled",
+    step: "cancelled",
+    message: "Processing was cancelled",
+    currentStep: job.currentStep,
+    totalSteps: job.totalSteps,
+    timestamp: Date.now(),
+    cancelledStages,
+  });
+}
+
+/**
+ * Run a single job and publish its progress, completion or failure
+ */
+async function runJob(job: Job): Promise<void> {
+  job.status = "running";
+  job.startedAt = Date.now();
+  console.log(`Starting job ${job.id}`);
+
+  const onProgress: JobProgressCallback = (
+    step,
+    message,
+    filename,
+    chunkId,
+    updateTotalSteps
+  ) => {
+    job.currentStep++;
+
+    // Update total steps if provided
+    if (updateTotalSteps !== undefined) {
+      job.totalSteps = updateTotalSteps;
+    }
+
+    publish(job, {
+      type: "progress",
+      step,
+      message,
+      filename,
+      chunkId,
+      currentStep: job.currentStep,
+      totalSteps: job.totalSteps,
+      timestamp: Date.now(),
+    });
+  };
+
+  try {
+    const result = await job.task(onProgress, job.controller.signal);
+
+    job.result = result;
+    job.status = "completed";
+    job.finishedAt = Date.now();
+    job.currentStep = job.totalSteps;
+
+    publish(job, {
+      type: "completion",
+      step: "completed",
+      message: "Processing completed successfully",
+      currentStep: job.totalSteps,
+      totalSteps: job.totalSteps,
+      timestamp: Date.now(),
+      results: result,
+    });
+  } catch (error) {
+    if (isCancellationError(error)) {
+      markCancelled(
+        job,
+        error instanceof ProcessingCancelledError ? error.cancelledStages : []
+      );
+      return;
+    }
+
+    console.error(`Job ${job.id} failed:`, error);
+
+    job.status = "failed";
+    job.finishedAt = Date.now();
+    job.error = error instanceof Error ? error.message : "Unknown error";
+
+    publish(job, {
+      type: "error",
+      step: "error",
+      message: "Processing failed",
+      currentStep: job.currentStep,
+      totalSteps: job.totalSteps,
+      timestamp: Date.now(),
+      error: job.error,
+    });
+  }
+}
+
+/**
+ * Start queued jobs while there is spare capacity
+ */
+function drainQueue(): void {
+  while (
+    registry.running < jobsConfig.maxConcurrentJobs &&
+    registry.queue.length > 0
+  ) {
+    const jobId = registry.queue.shift()!;
+    const job = registry.jobs.get(jobId);
+    if (!job) continue;
+
+    registry.running++;
+    runJob(job).finally(() => {
+      registry.running--;
+      pruneJobs();
+      drainQueue();
+    });
+  }
+}
+
+/**
+ * Add a job to the queue and return immediately with its summary
+ */
+export function submitJob(input: JobInput, task: JobTask): JobSummary {
+  const job: Job = {
+    id: generateJobId(),
+    status: "queued",
+    mode: input.mode,
+    filenames: input.filenames,
+    queryCount: input.queryCount,
+    currentStep: 0,
+    totalSteps: input.estimatedTotalSteps,
+    createdAt: Date.now(),
+    events: [],
+    listeners: new Set(),
+    task,
+    controller: new AbortController(),
+  };
+
+  registry.jobs.set(job.id, job);
+  registry.queue.push(job.id);
+  console.log(
+    `Queued job ${job.id} (${registry.queue.length} waiting, ${registry.running} running)`
+  );
+
+  drainQueue();
+  return toSummary(job);
+}
+
+/**
+ * Get the current status of a job
+ */
+export function getJob(jobId: string): JobSummary | null {
+  const job = registry.jobs.get(jobId);
+  return job ? toSummary(job) : null;
+}
+
+/**
+ * Get the final result of a completed job
+ */
+export function getJobResult(jobId: string): ProcessingResult | null {
+  return registry.jobs.get(jobId)?.result ?? null;
+}
+
+/**
+ * Cancel a job: queued jobs are dropped from the queue, running jobs are
+ * aborted and finish with a "cancelled" event once their work has stopped
+ */
+export function cancelJob(jobId: string): JobSummary | null {
+  const job = registry.jobs.get(jobId);
+  if (!job) return null;
+
+  if (job.status === "queued") {
+    registry.queue = registry.queue.filter((id) => id !== jobId);
+    markCancelled(job, ["Entire job (not started)"]);
+  } else if (job.status === "running" && !job.controller.signal.aborted) {
+    console.log(`Cancelling job ${job.id}`);
+    job.controller.abort();
+  }
+
+  return toSummary(job);
+}
+
+/**
+ * List the most recent jobs, newest first
+ */
+export function listJobs(
+  limit: number = jobsConfig.recentJobsLimit
+): JobSummary[] {
+  return Array.from(registry.jobs.values())
+    .sort((a, b) => b.createdAt - a.createdAt)
+    .slice(0, limit)
+    .map(toSummary);
+}
+
+/**
+ * Attach to a job's progress: replays every event emitted so far, then
+ * forwards new ones. Returns an unsubscribe function, or null if the job
+ * does not exist.
+ */
+export function subscribeToJob(
+  jobId: string,
+  listener: JobListener
+): (() => void) | null {
+  const job = registry.jobs.get(jobId);
+  if (!job) return null;
+
+  job.events.forEach((update) => listener(update));
+
+  if (isFinished(job)) {
+    return () => {};
+  }
+
+  // A client re-attached in time, keep the job alive
+  if (job.orphanTimer) {
+    clearTimeout(job.orphanTimer);
+    job.orphanTimer = undefined;
+  }
+
+  job.listeners.add(listener);
+  return () => {
+    job.listeners.delete(listener);
+
+    // Cancel the job if every client disconnected and none comes back
+    if (job.listeners.size === 0 && !isFinished(job) && !job.orphanTimer) {
+      job.orphanTimer = setTimeout(() => {
+        job.orphanTimer = undefined;
+        if (job.listeners.size === 0) {
+          console.log(`All clients detached from job ${job.id}`);
+          cancelJob(job.id);
+        }
+      }, jobsConfig.disconnectGraceMs);
+    }
+  };
+}
@@ -0,0 +1,747 @@
+import type { ComparisonOperator, Language, QueryType } from "./types";
+import { DEADLINE_KIND_LABELS, type DeadlineKind } from "./tender-extraction";
+import config from "./config";
+
+// Get configuration
+const aiConfig = config.getAiConfig();
+const textConfig = config.getTextConfig();
+
+/**
+ * Wording of one language: how queries are phrased, which keywords mark
+ * chunks and in which language prompts and answers are written
+ */
+export interface LanguagePack {
+  language: Language;
+  // Locale for numbers in generated text
+  locale: string;
+  queryPatterns: {
+    questionWord: RegExp;
+    date: RegExp;
+    amount: RegExp;
+    list: RegExp;
+    // Only applied to queries ending with "?"
+    yesNo: RegExp;
+  };
+  conditionKeywords: string[];
+  deadlineKeywords: string[];
+  // Chunks mentioning one of these get the matching retrieval tag
+  tagKeywords: {
+    submission: string[];
+    submissionForm: string[];
+    evaluation: string[];
+  };
+  prompts: {
+    source: (index: number, filename: string, pages: string) => string;
+    pages: (pageStart: number, pageEnd: number) => string;
+    answer: (
+      question: string,
+      sources: string,
+      answerFormat?: string
+    ) => string;
+    verdict: (
+      input: string,
+      sources: string,
+      isYesNo: boolean,
+      toolName: string
+    ) => string;
+    rerank: (query: string, sources: string, toolName: string) => string;
+    // Extraction of one PDF chunk; "[Seite N]" page tags stay German in
+    // every language because the paragraph page ranges are read from them
+    extraction: (
+      pageStart: number,
+      pageEnd: number,
+      chunkNumber: number,
+      totalChunks: number,
+      toolName: string
+    ) => string;
+    // Expected shape of the direct answer per query type
+    answerFormats: Partial<Record<QueryType, string>>;
+  };
+  messages: {
+    timeLimit: string;
+  };
+  comparison: {
+    operatorPhrases: Record<ComparisonOperator, string>;
+    amountSubject: string;
+    deadlineKindLabels: Record<DeadlineKind, string>;
+    justification: (
+      subject: string,
+      source: string,
+      extractedText: string,
+      holds: boolean,
+      operatorPhrase: string,
+      referenceText: string
+    ) => string;
+  };
+}
+
+type StaticLanguagePack = Omit<
+  LanguagePack,
+  "conditionKeywords" | "deadlineKeywords"
+>;
+
+const GERMAN: StaticLanguagePack = {
+  language: "de",
+  locale: "de-DE",
+  queryPatterns: {
+    questionWord:
+      /^(wer|was|wann|wo|wie|warum|weshalb|wieso|welche|welcher|welches|welchen|welchem|wessen|wem|wen|woraus|wofür|womit|wodurch)(?!\p{L})/iu,
+    date: /^(?:bis\s+|ab\s+|seit\s+)?wann(?!\p{L})|(?:welche[rsnm]?|was\s+ist\s+(?:das|der|die))\s+(?:\p{L}+\s+)?(?:frist|termin|datum|stichtag|zeitpunkt)|(?:an\s+welchem|zu\s+welchem)\s+(?:tag|datum|termin|zeitpunkt)/iu,
+    amount:
+      /^wie\s+(?:hoch|viel|teuer)(?!\p{L})|(?:welche[rsnm]?|was\s+ist\s+(?:das|der|die))\s+(?:\p{L}+\s+)?(?:betrag|summe|wert|auftragswert|preis|kosten|budget|vergütung|honorar)/iu,
+    list: /^(?:welche|nennen\s+sie|listen\s+sie|zählen\s+sie|was\s+sind)(?!\p{L})|(?:alle|sämtliche)\s+\p{L}+\s+(?:auf|an)\s*\??$/iu,
+    yesNo:
+      /^(ist|sind|hat|haben|gibt|gibt's|kann|können|muss|müssen|darf|dürfen|soll|sollen|wird|werden|wurde|wurden|besteht|bestehen|gilt|gelten|liegt|liegen|erfolgt|erfolgen|enthält|enthalten|sieht|sehen|braucht|benötigt|akzeptiert|erlaubt|verlangt|fordert)(?!\p{L})/iu,
+  },
+  tagKeywords: {
+    submission: ["einreichung", "abgabe"],
+    submissionForm: ["elektronisch", "schriftlich"],
+    evaluation: ["bewertung", "kriterien"],
+  },
+  prompts: {
+    source: (index, filename, pages) =>
+      `[Quelle ${index}: ${filename}, ${pages}]`,
+    pages: (pageStart, pageEnd) =>
+      pageStart === pageEnd ? `S. ${pageStart}` : `S. ${pageStart}–${pageEnd}`,
+    answer: (
+      question,
+      sources,
+      answerFormat = "Hauptantwort in 1-2 Sätzen"
+    ) => `Sie sind ein Experte für deutsche Ausschreibungen. Beantworten Sie die Frage basierend auf den nummerierten Quellen präzise und vollständig.
+
+**QUELLEN:**
+${sources}
+
+**FRAGE:** ${question}
+
+**ANTWORTFORMAT:**
+Geben Sie eine strukturierte Antwort mit:
+1. **Direkte Antwort:** [${answerFormat}]
+2. **Details:** [Relevante Einzelheiten aus dem Kontext]
+3. **Quelle:** [Verweis auf spezifische Dokumentstelle]
+
+**WICHTIGE REGELN:**
+- Antworten Sie auf Deutsch, auch wenn die Quellen in einer anderen Sprache verfasst sind
+- Seien Sie konkret und präzise
+- Verwenden Sie nur Informationen aus dem bereitgestellten Kontext
+- Wenn die Information nicht verfügbar ist, sagen Sie dies explizit
+- Geben Sie spezifische Zahlen, Daten und Details an
+- Strukturieren Sie die Antwort logisch und verständlich
+- Vermeiden Sie unnötige Wiederholungen
+
+Wenn die Information nicht im Kontext verfügbar ist, antworten Sie mit:
+**INFORMATION NICHT VERFÜGBAR:** [Spezifische Erklärung, was fehlt und wo es normalerweise stehen würde]`,
+    verdict: (
+      input,
+      sources,
+      isYesNo,
+      toolName
+    ) => `Sie sind ein Experte für deutsche Ausschreibungen. ${
+      isYesNo
+        ? "Beantworten Sie die folgende Ja/Nein-Frage"
+        : "Bewerten Sie die folgende Bedingung"
+    } ausschließlich anhand der nummerierten Quellen.
+
+**QUELLEN:**
+${sources}
+
+**${isYesNo ? "FRAGE" : "BEDINGUNG"}:** ${input}
+
+**WICHTIGE REGELN:**
+- ${
+      isYesNo
+        ? '"true" für Ja, "false" für Nein, "unknown", wenn die Quellen die Frage nicht eindeutig beantworten'
+        : '"true", wenn die Quellen die Bedingung ausdrücklich bestätigen, "false", wenn sie ihr widersprechen, sonst "unknown"'
+    }
+- Belegen Sie das Ergebnis mit einem oder mehreren wörtlichen Zitaten, exakt wie in der Quelle und ohne Auslassungen, jeweils mit der Nummer der Quelle und der Originalseite
+- Zitate bleiben in der Sprache der Quelle, die Begründung schreiben Sie auf Deutsch
+- Bei "unknown" erklären Sie in der Begründung, welche Information fehlt
+- Geben Sie eine kurze, aber vollständige Begründung
+
+**AUSGABE**: Rufen Sie das Werkzeug ${toolName} auf.`,
+    rerank: (
+      query,
+      sources,
+      toolName
+    ) => `Sie sind ein Experte für deutsche Ausschreibungen. Bewerten Sie für jede nummerierte Quelle, wie gut sie zur Beantwortung der Anfrage beiträgt.
+
+**QUELLEN:**
+${sources}
+
+**ANFRAGE:** ${query}
+
+**BEWERTUNG:**
+- 10: Die Quelle beantwortet die Anfrage direkt
+- 5: Die Quelle enthält nützliche Einzelheiten oder Zusammenhänge
+- 0: Die Quelle hat mit der Anfrage nichts zu tun
+- Bewerten Sie jede Quelle genau einmal, unabhängig von ihrer Reihenfolge
+
+**AUSGABE**: Rufen Sie das Werkzeug ${toolName} auf.`,
+    extraction: (pageStart, pageEnd, chunkNumber, totalChunks, toolName) => {
+      const chunkInfo =
+        totalChunks > 1 ? ` (Chunk ${chunkNumber} von ${totalChunks})` : "";
+      const pageInfo =
+        pageStart === pageEnd
+          ? `die Seite ${pageStart}`
+          : `die Seiten ${pageStart} bis ${pageEnd}`;
+
+      return `Extrahieren Sie ALLE wichtigen Informationen aus diesem Ausschreibungsdokument${chunkInfo}. Strukturieren Sie die Informationen klar und vollständig:
+
+**KRITISCHE INFORMATIONEN** (immer explizit angeben):
+- Titel der Ausschreibung
+- Referenznummer/Aktenzeichen
+- Auftraggeber (Name, Adresse, Kontakt)
+- Vergabestelle und Ansprechpartner
+- Leistungsumfang und Beschreibung
+- Geschätzter Auftragswert
+- Laufzeit/Vertragsdauer
+
+**FRISTEN UND TERMINE** (alle Daten vollständig):
+- Abgabefrist für Angebote (Datum, Uhrzeit, Ort)
+- Frist für Bieterfragen/Rückfragen
+- Angebotseröffnung (Datum, Uhrzeit, Ort)
+- Zuschlagstermin
+- Bindefrist der Angebote
+- Leistungsbeginn
+- Einwendungsfristen
+
+**FORMALE ANFORDERUNGEN** (präzise Details):
+- Einreichungsform (elektronisch/schriftlich)
+- Anzahl der Exemplare
+- Formatvorgaben
+- Erforderliche Unterlagen und Nachweise
+- Sprache der Angebote
+- Gültigkeitsdauer der Angebote
+
+**CHECKLISTE FÜR BIETER** (vollständig):
+- Einzureichende Formblätter, Nachweise und Eigenerklärungen
+- Unterschriften bzw. elektronische Signaturen
+- Muster, Proben und Referenzen
+- Ortsbesichtigungen und Registrierungen (z. B. auf der Vergabeplattform)
+- Jeweils: zwingend oder optional, Frist und Einreichungsweg
+
+**BEWERTUNG UND ZUSCHLAG**:
+- Zuschlagskriterien
+- Gewichtung der Kriterien
+- Bewertungsverfahren
+- Eignungsprüfung
+- Mindestanforderungen
+
+**TECHNISCHE SPEZIFIKATIONEN**:
+- Detaillierte Leistungsbeschreibung
+- Technische Anforderungen
+- Qualitätsstandards
+- Abnahmekriterien
+
+**VERTRAGLICHE BEDINGUNGEN**:
+- Zahlungsmodalitäten
+- Gewährleistung
+- Vertragsstrafen
+- Kündigungsregelungen
+
+**SEITENANGABEN** (für jede Angabe erforderlich):
+Dieses Dokument enthält ${pageInfo} des Originaldokuments; die erste Seite dieses Dokuments ist Seite ${pageStart} des Originals. Beginnen Sie jede Angabe und jeden Absatz mit der Originalseite, auf der die Information steht, im Format [Seite N], z. B. "[Seite ${pageStart}] Abgabefrist: ...". Verwenden Sie ausschließlich Seitenzahlen des Originaldokuments.
+
+Verwenden Sie eine klare, strukturierte Formatierung mit Überschriften und Aufzählungen. Bewahren Sie alle spezifischen Details, Zahlen, Daten und Kontaktinformationen exakt bei. Wenn Informationen fehlen, geben Sie dies explizit an.
+
+**SPRACHE**: Übernehmen Sie alle Inhalte in der Originalsprache des Dokuments und übersetzen Sie nichts; nur die [Seite N]-Angaben bleiben unverändert deutsch.
+
+**AUSGABE**: Rufen Sie das Werkzeug ${toolName} auf. Geben Sie in "text" die vollständige Extraktion wie oben beschrieben an. Tragen Sie in "data" dieselben Angaben als strukturierte Felder ein, jeweils mit der Originalseite; ordnen Sie jeder Frist in "kind" ihre Art zu (Abgabefrist, Bieterfragen-Frist, Bindefrist, Angebotseröffnung, Leistungsbeginn, sonst "other") und übernehmen Sie Datum und Uhrzeit vollständig. Führen Sie in "checklistItems" jede Unterlage und jede Handlung, die der Bieter liefern bzw. erledigen muss, einzeln auf. Felder, zu denen dieser Abschnitt keine Angaben enthält, setzen Sie auf null bzw. eine leere Liste; erfinden Sie keine Werte. Geben Sie in "language" die Hauptsprache des Abschnitts an ("other" für andere Sprachen).
+
+${
+  totalChunks > 1
+    ? `
+**HINWEIS**: Dies ist Teil ${chunkNumber} von ${totalChunks}. Extrahieren Sie alle verfügbaren Informationen aus diesem Abschnitt und kennzeichnen Sie fehlende Informationen mit "[Siehe andere Dokumentteile]".`
+    : ""
+}`;
+    },
+    answerFormats: {
+      date: "Nennen Sie das Datum (TT.MM.JJJJ) und, falls angegeben, die Uhrzeit; bei mehreren Terminen jeden mit seiner Bedeutung",
+      amount:
+        "Nennen Sie den Betrag mit Währung und ob er netto oder brutto angegeben ist",
+      list: "Geben Sie eine vollständige Aufzählung mit einem Punkt pro Eintrag",
+    },
+  },
+  messages: {
+    timeLimit:
+      "Nicht beantwortet: Das Zeitlimit der Verarbeitung wurde erreicht.",
+  },
+  comparison: {
+    operatorPhrases: {
+      before: "vor dem",
+      after: "nach dem",
+      on_or_before: "am oder vor dem",
+      on_or_after: "am oder nach dem",
+      greater: "über",
+      less: "unter",
+      at_least: "bei mindestens",
+      at_most: "bei höchstens",
+    },
+    amountSubject: "Geschätzter Auftragswert",
+    deadlineKindLabels: DEADLINE_KIND_LABELS,
+    justification: (
+      subject,
+      source,
+      extractedText,
+      holds,
+      operatorPhrase,
+      referenceText
+    ) =>
+      `${subject} laut ${source}: ${extractedText}. Der Wert liegt ${
+        holds ? "" : "nicht "
+      }${operatorPhrase} ${referenceText}.`,
+  },
+};
+
+const ENGLISH: StaticLanguagePack = {
+  language: "en",
+  locale: "en-GB",
+  queryPatterns: {
+    questionWord: /^(who|what|when|where|how|why|which|whose|whom)(?!\p{L})/iu,
+    date: /^(?:until\s+|by\s+|from\s+|since\s+)?when(?!\p{L})|(?:what|which)\s+(?:is\s+the\s+)?(?:\p{L}+\s+)?(?:deadline|date|time\s+limit|closing\s+date)|(?:on|by)\s+which\s+(?:day|date)/iu,
+    amount:
+      /^how\s+(?:much|high|expensive)(?!\p{L})|(?:what|which)\s+(?:is\s+the\s+)?(?:\p{L}+\s+)?(?:amount|sum|value|price|costs?|budget|fee)/iu,
+    list: /^(?:which|list|name|enumerate|what\s+are)(?!\p{L})|(?:list|name)\s+all\s+\p{L}+\s*\??$/iu,
+    yesNo:
+      /^(is|are|was|were|has|have|had|does|do|did|can|could|may|must|shall|should|will|would)(?!\p{L})/iu,
+  },
+  tagKeywords: {
+    submission: ["submission", "submit"],
+    submissionForm: ["electronic", "in writing"],
+    evaluation: ["evaluation", "criteria"],
+  },
+  prompts: {
+    source: (index, filename, pages) =>
+      `[Source ${index}: ${filename}, ${pages}]`,
+    pages: (pageStart, pageEnd) =>
+      pageStart === pageEnd ? `p. ${pageStart}` : `pp. ${pageStart}–${pageEnd}`,
+    answer: (
+      question,
+      sources,
+      answerFormat = "Main answer in 1-2 sentences"
+    ) => `You are an expert in public procurement tenders. Answer the question precisely and completely based on the numbered sources.
+
+**SOURCES:**
+${sources}
+
+**QUESTION:** ${question}
+
+**ANSWER FORMAT:**
+Give a structured answer with:
+1. **Direct answer:** [${answerFormat}]
+2. **Details:** [Relevant details from the context]
+3. **Source:** [Reference to the specific place in the document]
+
+**IMPORTANT RULES:**
+- Answer in English, even if the sources are written in another language
+- Be specific and precise
+- Only use information from the provided context
+- If the information is not available, say so explicitly
+- State specific figures, dates and details
+- Structure the answer logically and clearly
+- Avoid unnecessary repetition
+
+If the information is not available in the context, answer with:
+**INFORMATION NOT AVAILABLE:** [Specific explanation of what is missing and where it would usually be stated]`,
+    verdict: (
+      input,
+      sources,
+      isYesNo,
+      toolName
+    ) => `You are an expert in public procurement tenders. ${
+      isYesNo
+        ? "Answer the following yes/no question"
+        : "Evaluate the following condition"
+    } using only the numbered sources.
+
+**SOURCES:**
+${sources}
+
+**${isYesNo ? "QUESTION" : "CONDITION"}:** ${input}
+
+**IMPORTANT RULES:**
+- ${
+      isYesNo
+        ? '"true" for yes, "false" for no, "unknown" if the sources do not answer the question unambiguously'
+        : '"true" if the sources explicitly confirm the condition, "false" if they contradict it, otherwise "unknown"'
+    }
+- Support the result with one or more verbatim quotes, exactly as in the source and without omissions, each with the number of the source and the original page
+- Quotes stay in the language of the source; write the justification in English
+- For "unknown", explain in the justification which information is missing
+- Give a short but complete justification
+
+**OUTPUT**: Call the tool ${toolName}.`,
+    rerank: (
+      query,
+      sources,
+      toolName
+    ) => `You are an expert in public procurement tenders. Rate for every numbered source how well it helps to answer the query.
+
+**SOURCES:**
+${sources}
+
+**QUERY:** ${query}
+
+**RATING:**
+- 10: The source answers the query directly
+- 5: The source contains useful details or context
+- 0: The source has nothing to do with the query
+- Rate every source exactly once, regardless of its position
+
+**OUTPUT**: Call the tool ${toolName}.`,
+    extraction: (pageStart, pageEnd, chunkNumber, totalChunks, toolName) => {
+      const chunkInfo =
+        totalChunks > 1 ? ` (chunk ${chunkNumber} of ${totalChunks})` : "";
+      const pageInfo =
+        pageStart === pageEnd
+          ? `page ${pageStart}`
+          : `pages ${pageStart} to ${pageEnd}`;
+
+      return `Extract ALL important information from this tender document${chunkInfo}. Structure the information clearly and completely:
+
+**CRITICAL INFORMATION** (always state explicitly):
+- Title of the tender
+- Reference number/file number
+- Contracting authority (name, address, contact)
+- Awarding office and contact person
+- Scope and description of the services
+- Estimated contract value
+- Term/contract duration
+
+**DEADLINES AND DATES** (all dates in full):
+- Deadline for submitting tenders (date, time, place)
+- Deadline for bidder questions
+- Opening of tenders (date, time, place)
+- Award date
+- Tender validity period
+- Start of services
+- Objection periods
+
+**FORMAL REQUIREMENTS** (precise details):
+- Form of submission (electronic/written)
+- Number of copies
+- Format requirements
+- Required documents and evidence
+- Language of the tenders
+- Validity of the tenders
+
+**CHECKLIST FOR BIDDERS** (complete):
+- Forms, evidence and self-declarations to be submitted
+- Signatures or electronic signatures
+- Samples and references
+- Site visits and registrations (e.g. on the procurement platform)
+- For each: mandatory or optional, deadline and way of submission
+
+**EVALUATION AND AWARD**:
+- Award criteria
+- Weighting of the criteria
+- Evaluation method
+- Suitability check
+- Minimum requirements
+
+**TECHNICAL SPECIFICATIONS**:
+- Detailed description of the services
+- Technical requirements
+- Quality standards
+- Acceptance criteria
+
+**CONTRACT TERMS**:
+- Payment terms
+- Warranty
+- Contractual penalties
+- Termination provisions
+
+**PAGE REFERENCES** (required for every item):
+This document contains ${pageInfo} of the original document; the first page of this document is page ${pageStart} of the original. Start every item and every paragraph with the original page the information is on, in the format [Seite N], e.g. "[Seite ${pageStart}] Submission deadline: ...". Only use page numbers of the original document.
+
+Use clear, structured formatting with headings and bullet points. Keep all specific details, figures, dates and contact information exactly. If information is missing, say so explicitly.
+
+**LANGUAGE**: Keep all content in the original language of the document and do not translate anything; only the [Seite N] tags stay unchanged in German.
+
+**OUTPUT**: Call the tool ${toolName}. In "text", give the complete extraction as described above. In "data", enter the same information as structured fields, each with its original page; assign every deadline its kind in "kind" (submission, bidder questions, tender validity, opening of tenders, start of services, otherwise "other") and keep date and time in full. List every document and every action the bidder must deliver or complete separately in "checklistItems". Set fields this section has no information on to null or an empty list; do not invent values. In "language", give the main language of the section ("other" for other languages).
+
+${
+  totalChunks > 1
+    ? `
+**NOTE**: This is part ${chunkNumber} of ${totalChunks}. Extract all information available in this section and mark missing information with "[See other parts of the document]".`
+    : ""
+}`;
+    },
+    answerFormats: {
+      date: "State the date (DD.MM.YYYY) and, if given, the time; for several dates, each with its meaning",
+      amount: "State the amount with currency and whether it is net or gross",
+      list: "Give a complete enumeration with one bullet per item",
+    },
+  },
+  messages: {
+    timeLimit: "Not answered: the processing time limit was reached.",
+  },
+  comparison: {
+    operatorPhrases: {
+      before: "before",
+      after: "after",
+      on_or_before: "on or before",
+      on_or_after: "on or after",
+      greater: "above",
+      less: "below",
+      at_least: "at least",
+      at_most: "at most",
+    },
+    amountSubject: "Estimated contract value",
+    deadlineKindLabels: {
+      submission: "Submission deadline",
+      questions: "Deadline for bidder questions",
+      binding: "Bid validity period",
+      opening: "Bid opening",
+      service_start: "Start of services",
+      other: "Deadline",
+    },
+    justification: (
+      subject,
+      source,
+      extractedText,
+      holds,
+      operatorPhrase,
+      referenceText
+    ) =>
+      `${subject} according to ${source}: ${extractedText}. The value is ${
+        holds ? "" : "not "
+      }${operatorPhrase} ${referenceText}.`,
+  },
+};
+
+const FRENCH: StaticLanguagePack = {
+  language: "fr",
+  locale: "fr-FR",
+  queryPatterns: {
+    questionWord:
+      /^(?:qu['’]|(?:qui|que|quoi|quand|où|comment|pourquoi|quel|quelle|quels|quelles|combien|lequel|laquelle|lesquels|lesquelles)(?!\p{L}))/iu,
+    date: /^(?:jusqu['’]à\s+|à\s+partir\s+de\s+|depuis\s+)?quand(?!\p{L})|(?:quel(?:le)?s?|qu['’]est-ce\s+que)\s+(?:est\s+)?(?:la\s+|le\s+|l['’])?(?:\p{L}+\s+)?(?:date|délai|échéance|heure)|à\s+quel(?:le)?\s+(?:date|jour|moment)/iu,
+    amount:
+      /^combien(?!\p{L})|quel(?:le)?s?\s+(?:est\s+)?(?:le\s+|la\s+|l['’])?(?:\p{L}+\s+)?(?:montant|somme|valeur|prix|coûts?|budget|rémunération|honoraires)/iu,
+    list: /^(?:quels|quelles|énumérez|listez|citez|indiquez\s+tou(?:te)?s)(?!\p{L})/iu,
+    yesNo:
+      /^(?:est-ce\s+qu|y\s+a-t-il)|(?<!\p{L})\p{L}+(?:-t)?-(?:il|elle|on|ils|elles)(?!\p{L})/iu,
+  },
+  tagKeywords: {
+    submission: ["remise", "dépôt", "soumission"],
+    submissionForm: ["électronique", "par écrit"],
+    evaluation: ["évaluation", "critères"],
+  },
+  prompts: {
+    source: (index, filename, pages) =>
+      `[Source ${index} : ${filename}, ${pages}]`,
+    pages: (pageStart, pageEnd) =>
+      pageStart === pageEnd ? `p. ${pageStart}` : `p. ${pageStart}–${pageEnd}`,
+    answer: (
+      question,
+      sources,
+      answerFormat = "Réponse principale en 1 ou 2 phrases"
+    ) => `Vous êtes un expert des appels d'offres publics. Répondez à la question de manière précise et complète en vous fondant sur les sources numérotées.
+
+**SOURCES :**
+${sources}
+
+**QUESTION :** ${question}
+
+**FORMAT DE RÉPONSE :**
+Donnez une réponse structurée avec :
+1. **Réponse directe :** [${answerFormat}]
+2. **Détails :** [Précisions pertinentes tirées du contexte]
+3. **Source :** [Référence à l'endroit précis du document]
+
+**RÈGLES IMPORTANTES :**
+- Répondez en français, même si les sources sont rédigées dans une autre langue
+- Soyez concret et précis
+- N'utilisez que les informations du contexte fourni
+- Si l'information n'est pas disponible, dites-le explicitement
+- Indiquez des chiffres, dates et détails précis
+- Structurez la réponse de façon logique et claire
+- Évitez les répétitions inutiles
+
+Si l'information n'est pas disponible dans le contexte, répondez par :
+**INFORMATION NON DISPONIBLE :** [Explication précise de ce qui manque et de l'endroit où cela figurerait normalement]`,
+    verdict: (
+      input,
+      sources,
+      isYesNo,
+      toolName
+    ) => `Vous êtes un expert des appels d'offres publics. ${
+      isYesNo
+        ? "Répondez à la question fermée suivante"
+        : "Évaluez la condition suivante"
+    } uniquement à l'aide des sources numérotées.
+
+**SOURCES :**
+${sources}
+
+**${isYesNo ? "QUESTION" : "CONDITION"} :** ${input}
+
+**RÈGLES IMPORTANTES :**
+- ${
+      isYesNo
+        ? '"true" pour oui, "false" pour non, "unknown" si les sources ne répondent pas clairement à la question'
+        : '"true" si les sources confirment expressément la condition, "false" si elles la contredisent, sinon "unknown"'
+    }
+- Étayez le résultat par une ou plusieurs citations textuelles, exactement comme dans la source et sans omission, chacune avec le numéro de la source et la page d'origine
+- Les citations restent dans la langue de la source ; rédigez la justification en français
+- Pour "unknown", expliquez dans la justification quelle information manque
+- Donnez une justification courte mais complète
+
+**SORTIE** : Appelez l'outil ${toolName}.`,
+    rerank: (
+      query,
+      sources,
+      toolName
+    ) => `Vous êtes un expert des appels d'offres publics. Évaluez pour chaque source numérotée dans quelle mesure elle aide à répondre à la demande.
+
+**SOURCES :**
+${sources}
+
+**DEMANDE :** ${query}
+
+**ÉVALUATION :**
+- 10 : La source répond directement à la demande
+- 5 : La source contient des détails ou un contexte utiles
+- 0 : La source n'a aucun rapport avec la demande
+- Évaluez chaque source exactement une fois, quelle que soit sa position
+
+**SORTIE** : Appelez l'outil ${toolName}.`,
+    extraction: (pageStart, pageEnd, chunkNumber, totalChunks, toolName) => {
+      const chunkInfo =
+        totalChunks > 1 ? ` (partie ${chunkNumber} sur ${totalChunks})` : "";
+      const pageInfo =
+        pageStart === pageEnd
+          ? `la page ${pageStart}`
+          : `les pages ${pageStart} à ${pageEnd}`;
+
+      return `Extrayez TOUTES les informations importantes de ce dossier de consultation${chunkInfo}. Structurez les informations de manière claire et complète :
+
+**INFORMATIONS ESSENTIELLES** (toujours indiquer explicitement) :
+- Intitulé de la consultation
+- Numéro de référence
+- Pouvoir adjudicateur (nom, adresse, contact)
+- Service acheteur et interlocuteur
+- Étendue et description des prestations
+- Montant estimé du marché
+- Durée du marché
+
+**DÉLAIS ET DATES** (toutes les dates en entier) :
+- Date limite de remise des offres (date, heure, lieu)
+- Délai pour les questions des candidats
+- Ouverture des plis (date, heure, lieu)
+- Date d'attribution
+- Délai de validité des offres
+- Début des prestations
+- Délais de recours
+
+**EXIGENCES FORMELLES** (détails précis) :
+- Mode de remise (électronique/papier)
+- Nombre d'exemplaires
+- Exigences de format
+- Documents et justificatifs requis
+- Langue des offres
+- Durée de validité des offres
+
+**LISTE DE CONTRÔLE POUR LES CANDIDATS** (complète) :
+- Formulaires, justificatifs et déclarations sur l'honneur à remettre
+- Signatures ou signatures électroniques
+- Échantillons et références
+- Visites de site et inscriptions (p. ex. sur la plateforme de dématérialisation)
+- Pour chacun : obligatoire ou facultatif, délai et mode de remise
+
+**ÉVALUATION ET ATTRIBUTION** :
+- Critères d'attribution
+- Pondération des critères
+- Méthode d'évaluation
+- Examen des capacités
+- Exigences minimales
+
+**SPÉCIFICATIONS TECHNIQUES** :
+- Description détaillée des prestations
+- Exigences techniques
+- Normes de qualité
+- Critères de réception
+
+**CONDITIONS CONTRACTUELLES** :
+- Modalités de paiement
+- Garantie
+- Pénalités
+- Conditions de résiliation
+
+**RÉFÉRENCES DE PAGE** (obligatoires pour chaque information) :
+Ce document contient ${pageInfo} du document original ; la première page de ce document est la page ${pageStart} de l'original. Commencez chaque information et chaque paragraphe par la page originale où elle figure, au format [Seite N], p. ex. « [Seite ${pageStart}] Date limite de remise : ... ». Utilisez uniquement les numéros de page du document original.
+
+Utilisez une mise en forme claire et structurée avec des titres et des listes. Conservez exactement tous les détails, chiffres, dates et coordonnées. Si des informations manquent, indiquez-le explicitement.
+
+**LANGUE** : Reprenez tout le contenu dans la langue originale du document sans rien traduire ; seules les mentions [Seite N] restent telles quelles, en allemand.
+
+**SORTIE** : Appelez l'outil ${toolName}. Indiquez dans « text » l'extraction complète décrite ci-dessus. Reportez dans « data » les mêmes informations sous forme de champs structurés, chacun avec sa page originale ; attribuez à chaque délai son type dans « kind » (remise des offres, questions des candidats, validité des offres, ouverture des plis, début des prestations, sinon « other ») et reprenez la date et l'heure en entier. Listez séparément dans « checklistItems » chaque document et chaque démarche que le candidat doit fournir ou accomplir. Mettez à null ou à une liste vide les champs pour lesquels cette section ne contient aucune information ; n'inventez aucune valeur. Indiquez dans « language » la langue principale de la section (« other » pour les autres langues).
+
+${
+  totalChunks > 1
+    ? `
+**REMARQUE** : Ceci est la partie ${chunkNumber} sur ${totalChunks}. Extrayez toutes les informations disponibles dans cette section et signalez les informations manquantes par « [Voir les autres parties du document] ».`
+    : ""
+}`;
+    },
+    answerFormats: {
+      date: "Indiquez la date (JJ.MM.AAAA) et, le cas échéant, l'heure ; s'il y a plusieurs dates, chacune avec sa signification",
+      amount:
+        "Indiquez le montant avec la devise et s'il est exprimé hors taxes ou toutes taxes comprises",
+      list: "Donnez une énumération complète avec un point par élément",
+    },
+  },
+  messages: {
+    timeLimit: "Sans réponse : le délai maximal de traitement a été atteint.",
+  },
+  comparison: {
+    operatorPhrases: {
+      before: "avant le",
+      after: "après le",
+      on_or_before: "au plus tard le",
+      on_or_after: "au plus tôt le",
+      greater: "au-dessus de",
+      less: "en dessous de",
+      at_least: "d'au moins",
+      at_most: "d'au plus",
+    },
+    amountSubject: "Valeur estimée du marché",
+    deadlineKindLabels: {
+      submission: "Date limite de remise des offres",
+      questions: "Date limite des questions",
+      binding: "Délai de validité des offres",
+      opening: "Ouverture des offres",
+      service_start: "Début des prestations",
+      other: "Délai",
+    },
+    justification: (
+      subject,
+      source,
+      extractedText,
+      holds,
+      operatorPhrase,
+      referenceText
+    ) =>
+      `${subject} selon ${source} : ${extractedText}. La valeur ${
+        holds ? "se situe" : "ne se situe pas"
+      } ${operatorPhrase} ${referenceText}.`,
+  },
+};
+
+const LANGUAGE_PACKS: Record<Language, StaticLanguagePack> = {
+  de: GERMAN,
+  en: ENGLISH,
+  fr: FRENCH,
+};
+
+/**
+ * Language pack with the configured condition and deadline keywords
+ */
+export function getLanguagePack(language: Language): LanguagePack {
+  return {
+    ...LANGUAGE_PACKS[language],
+    conditionKeywords: aiConfig.claude.conditionKeywords[language],
+    deadlineKeywords: textConfig.processing.deadlineKeywords[language],
+  };
+}
@@ -0,0 +1,73 @@
+import type { Language } from "./types";
+
+export const SUPPORTED_LANGUAGES: Language[] = ["de", "en", "fr"];
+
+// Names of the languages in their own language, for selectors and badges
+export const LANGUAGE_NAMES: Record<Language, string> = {
+  de: "Deutsch",
+  en: "English",
+  fr: "Français",
+};
+
+// Frequent function words that rarely occur in the other languages
+const STOPWORDS: Record<Language, string[]> = {
+  de: "der die das und ist nicht mit auf für dem den des ein eine sind wird werden oder bei nach zum zur vom auch sich welche wann".split(
+    " "
+  ),
+  en: "the and of to is are for with be this that by from shall will not which or an on must any all have has what when how".split(
+    " "
+  ),
+  fr: "le la les des du et est une un pour dans par sur au aux que qui doit sont avec ne pas ou être cette il elle quels quelles".split(
+    " "
+  ),
+};
+
+// Fewer stopword hits than this are not enough to decide a longer text
+const MIN_STOPWORD_HITS = 3;
+
+export function isLanguage(value: unknown): value is Language {
+  return SUPPORTED_LANGUAGES.includes(value as Language);
+}
+
+/**
+ * Detect the language of a text by counting stopwords. Returns null when
+ * the text is too short or in another language; short texts such as
+ * queries can lower `minHits`.
+ */
+export function detectLanguage(
+  text: string,
+  minHits = MIN_STOPWORD_HITS
+): Language | null {
+  const words = text.toLowerCase().match(/\p{L}+/gu) ?? [];
+  const scores = SUPPORTED_LANGUAGES.map((language) => {
+    const stopwords = new Set(STOPWORDS[language]);
+    return {
+      language,
+      hits: words.filter((word) => stopwords.has(word)).length,
+    };
+  }).sort((a, b) => b.hits - a.hits);
+
+  return scores[0].hits >= minHits && scores[0].hits > scores[1].hits
+    ? scores[0].language
+    : null;
+}
+
+/**
+ * Language most chunks of a document are written in
+ */
+export function getPredominantLanguage(
+  languages: (Language | null)[]
+): Language | null {
+  const counts = new Map<Language, number>();
+  for (const language of languages) {
+    if (language) counts.set(language, (counts.get(language) ?? 0) + 1);
+  }
+
+  let predominant: Language | null = null;
+  for (const [language, count] of Array.from(counts)) {
+    if (!predominant || count > counts.get(predominant)!) {
+      predominant = language;
+    }
+  }
+  return predominant;
+}
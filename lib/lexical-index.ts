@@ -0,0 +1,207 @@
+import { promises as fs } from "fs";
+import path from "path";
+import type { EmbeddingsMetadata, VectorSearchResult } from "./types";
+import { splitGermanCompound, stemGerman } from "./german-stemming";
+import { matchesFilter, type VectorFilter } from "./vector-store";
+import config from "./config";
+
+// Get configuration
+const retrievalConfig = config.getRetrievalConfig();
+
+// Namespaces become file names
+const NAMESPACE_REGEX = /^[\w.-]+$/;
+
+const WORD_REGEX = /[\p{L}\p{N}]+/gu;
+// Kept whole in addition to their parts, e.g. "1032-SL" or "2024/S"
+const IDENTIFIER_REGEX = /[\p{L}\p{N}]+(?:[-/.][\p{L}\p{N}]+)+/gu;
+
+export interface LexicalEntry {
+  // Same ID as the paragraph's vector
+  id: string;
+  metadata: EmbeddingsMetadata;
+}
+
+interface IndexedEntry extends LexicalEntry {
+  terms: string[];
+}
+
+interface LexicalIndexFile {
+  namespace: string;
+  entries: IndexedEntry[];
+}
+
+function getIndexPath(namespace: string): string {
+  if (!NAMESPACE_REGEX.test(namespace)) {
+    throw new Error(`Invalid namespace for keyword index: ${namespace}`);
+  }
+  return path.resolve(
+    process.cwd(),
+    retrievalConfig.lexical.directory,
+    `${namespace}.json`
+  );
+}
+
+/**
+ * Turns texts into BM25 terms: stemmed words, identifiers with digits and
+ * the stemmed parts of compounds. Splits are cached per instance.
+ */
+function createTermExtractor(knownStems: Set<string>) {
+  for (const part of retrievalConfig.lexical.compoundParts) {
+    knownStems.add(stemGerman(part));
+  }
+  const compoundParts = new Map<string, string[] | null>();
+
+  return (text: string): string[] => {
+    const lower = text.toLowerCase();
+    const words = lower.match(WORD_REGEX) ?? [];
+    const identifiers = (lower.match(IDENTIFIER_REGEX) ?? []).filter((id) =>
+      /\d/.test(id)
+    );
+
+    const terms = [...words.map(stemGerman), ...identifiers];
+    for (const word of words) {
+      if (/\d/.test(word)) continue;
+      if (!compoundParts.has(word)) {
+        compoundParts.set(word, splitGermanCompound(word, knownStems));
+      }
+      terms.push(...(compoundParts.get(word) ?? []));
+    }
+    return terms;
+  };
+}
+
+function getWordStems(texts: string[]): Set<string> {
+  return new Set(
+    texts.flatMap((text) =>
+      (text.toLowerCase().match(WORD_REGEX) ?? []).map(stemGerman)
+    )
+  );
+}
+
+/**
+ * Index the paragraphs of a namespace for keyword search
+ */
+export async function saveLexicalIndex(
+  namespace: string,
+  entries: LexicalEntry[]
+): Promise<void> {
+  try {
+    const extractTerms = createTermExtractor(
+      getWordStems(entries.map((entry) => entry.metadata.text))
+    );
+    const index: LexicalIndexFile = {
+      namespace,
+      // ISO dates let "2025-12-31" match "31. Dezember 2025"
+      entries: entries.map((entry) => ({
+        ...entry,
+        terms: [
+          ...extractTerms(entry.metadata.text),
+          ...(entry.metadata.dates ?? []),
+        ],
+      })),
+    };
+
+    const indexPath = getIndexPath(namespace);
+    await fs.mkdir(path.dirname(indexPath), { recursive: true });
+    const tempPath = `${indexPath}.${process.pid}.tmp`;
+    await fs.writeFile(tempPath, JSON.stringify(index), "utf-8");
+    await fs.rename(tempPath, indexPath);
+    console.log(
+      `Saved keyword index for ${namespace} (${entries.length} paragraphs)`
+    );
+  } catch (error) {
+    console.error(`Error saving keyword index for ${namespace}:`, error);
+    throw new Error("Failed to save keyword index");
+  }
+}
+
+/**
+ * Read the index of a namespace, returns null for namespaces indexed
+ * before keyword search existed
+ */
+async function loadLexicalIndex(
+  namespace: string
+): Promise<LexicalIndexFile | null> {
+  try {
+    const content = await fs.readFile(getIndexPath(namespace), "utf-8");
+    return JSON.parse(content) as LexicalIndexFile;
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "ENOENT") return null;
+    console.error(`Error reading keyword index for ${namespace}:`, error);
+    throw new Error("Failed to read keyword index");
+  }
+}
+
+/**
+ * Rank the paragraphs of the namespaces by BM25. Term statistics are
+ * computed over all given namespaces, so a package is ranked as a whole;
+ * the filter only limits which paragraphs are returned.
+ */
+export async function searchLexicalIndex(
+  query: string,
+  namespaces: string[],
+  topK: number,
+  filter?: VectorFilter
+): Promise<VectorSearchResult[]> {
+  const indexes = await Promise.all(namespaces.map(loadLexicalIndex));
+  const entries = indexes.flatMap((index) => index?.entries ?? []);
+  if (entries.length === 0) return [];
+
+  const extractTerms = createTermExtractor(
+    new Set(entries.flatMap((entry) => entry.terms))
+  );
+  const queryTerms = [...new Set(extractTerms(query))];
+
+  const documentFrequency = new Map<string, number>();
+  for (const entry of entries) {
+    for (const term of new Set(entry.terms)) {
+      documentFrequency.set(term, (documentFrequency.get(term) ?? 0) + 1);
+    }
+  }
+
+  const { k1, b } = retrievalConfig.lexical;
+  const averageLength =
+    entries.reduce((sum, entry) => sum + entry.terms.length, 0) /
+    entries.length;
+
+  const results: VectorSearchResult[] = [];
+  for (const entry of entries) {
+    if (!matchesFilter(entry.metadata, filter)) continue;
+    const termFrequency = new Map<string, number>();
+    for (const term of entry.terms) {
+      termFrequency.set(term, (termFrequency.get(term) ?? 0) + 1);
+    }
+
+    let score = 0;
+    for (const term of queryTerms) {
+      const frequency = termFrequency.get(term) ?? 0;
+      if (frequency === 0) continue;
+      const df = documentFrequency.get(term) ?? 0;
+      const idf = Math.log(1 + (entries.length - df + 0.5) / (df + 0.5));
+      score +=
+        (idf * frequency * (k1 + 1)) /
+        (frequency +
+          k1 * (1 - b + (b * entry.terms.length) / (averageLength || 1)));
+    }
+
+    if (score > 0) {
+      results.push({ id: entry.id, score, metadata: entry.metadata });
+    }
+  }
+
+  return results.sort((left, right) => right.score - left.score).slice(0, topK);
+}
+
+/**
+ * Remove the keyword index of a namespace
+ */
+export async function deleteLexicalIndex(namespace: string): Promise<void> {
+  try {
+    await fs.unlink(getIndexPath(namespace));
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code !== "ENOENT") {
+      console.error(`Error deleting keyword index for ${namespace}:`, error);
+      throw new Error("Failed to delete keyword index");
+    }
+  }
+}
@@ -0,0 +1,235 @@
+import { validatePDFFile } from "./pdf-parser";
+import config from "./config";
+import type { QueryInput } from "./types";
+
+// Get configuration
+const limitsConfig = config.getLimitsConfig();
+const pdfConfig = config.getPdfConfig();
+
+export type Locale = "de" | "en";
+
+export type LimitErrorCode =
+  | "NO_QUESTIONS"
+  | "NO_FILES"
+  | "TOO_MANY_QUESTIONS"
+  | "TOO_MANY_FILES"
+  | "TOTAL_SIZE_EXCEEDED"
+  | "FILE_TOO_LARGE"
+  | "EMPTY_FILE"
+  | "INVALID_FILE_TYPE"
+  | "INVALID_FILE_EXTENSION"
+  | "INVALID_PDF_SIGNATURE";
+
+/**
+ * A single violated limit, with a message in the requested locale
+ */
+export interface LimitViolation {
+  code: LimitErrorCode;
+  message: string;
+  filename?: string;
+}
+
+type MessageParams = {
+  filename?: string;
+  limit?: number;
+  actual?: number;
+};
+
+const formatMB = (bytes?: number) =>
+  bytes === undefined ? "?" : (bytes / 1024 / 1024).toFixed(1);
+
+const messages: Record<
+  Locale,
+  Record<LimitErrorCode, (params: MessageParams) => string>
+> = {
+  de: {
+    NO_QUESTIONS: () =>
+      "Mindestens eine Frage oder Bedingung ist erforderlich.",
+    NO_FILES: () => "Mindestens eine PDF-Datei ist erforderlich.",
+    TOO_MANY_QUESTIONS: ({ limit, actual }) =>
+      `Zu viele Fragen: ${actual} angegeben, höchstens ${limit} pro Analyse erlaubt.`,
+    TOO_MANY_FILES: ({ limit, actual }) =>
+      `Zu viele Dateien: ${actual} hochgeladen, höchstens ${limit} pro Analyse erlaubt.`,
+    TOTAL_SIZE_EXCEEDED: ({ limit, actual }) =>
+      `Die Dateien sind zusammen ${formatMB(
+        actual
+      )} MB groß, erlaubt sind höchstens ${formatMB(limit)} MB.`,
+    FILE_TOO_LARGE: ({ filename, limit }) =>
+      `"${filename}" ist größer als ${formatMB(limit)} MB.`,
+    EMPTY_FILE: ({ filename }) => `"${filename}" ist leer.`,
+    INVALID_FILE_TYPE: ({ filename }) => `"${filename}" ist keine PDF-Datei.`,
+    INVALID_FILE_EXTENSION: ({ filename }) =>
+      `"${filename}" muss die Endung .pdf haben.`,
+    INVALID_PDF_SIGNATURE: ({ filename }) =>
+      `"${filename}" ist keine gültige PDF-Datei (PDF-Kennung fehlt).`,
+  },
+  en: {
+    NO_QUESTIONS: () => "At least one question or condition is required.",
+    NO_FILES: () => "At least one PDF file is required.",
+    TOO_MANY_QUESTIONS: ({ limit, actual }) =>
+      `Too many questions: ${actual} given, at most ${limit} allowed per analysis.`,
+    TOO_MANY_FILES: ({ limit, actual }) =>
+      `Too many files: ${actual} uploaded, at most ${limit} allowed per analysis.`,
+    TOTAL_SIZE_EXCEEDED: ({ limit, actual }) =>
+      `The files total ${formatMB(actual)} MB, at most ${formatMB(
+        limit
+      )} MB are allowed.`,
+    FILE_TOO_LARGE: ({ filename, limit }) =>
+      `"${filename}" is larger than ${formatMB(limit)} MB.`,
+    EMPTY_FILE: ({ filename }) => `"${filename}" is empty.`,
+    INVALID_FILE_TYPE: ({ filename }) => `"${filename}" is not a PDF file.`,
+    INVALID_FILE_EXTENSION: ({ filename }) =>
+      `"${filename}" must have a .pdf extension.`,
+    INVALID_PDF_SIGNATURE: ({ filename }) =>
+      `"${filename}" is not a valid PDF (missing PDF signature).`,
+  },
+};
+
+/**
+ * Raised when a request exceeds the limits configured in config.limits
+ */
+export class LimitExceededError extends Error {
+  violations: LimitViolation[];
+
+  constructor(violations: LimitViolation[]) {
+    super(violations.map((violation) => violation.message).join(" "));
+    this.name = "LimitExceededError";
+    this.violations = violations;
+  }
+}
+
+/**
+ * Build a localized violation
+ */
+export function createViolation(
+  code: LimitErrorCode,
+  params: MessageParams = {},
+  locale: Locale = "de"
+): LimitViolation {
+  return {
+    code,
+    message: messages[locale][code](params),
+    filename: params.filename,
+  };
+}
+
+/**
+ * Pick the response locale from an Accept-Language header (German default)
+ */
+export function resolveLocale(acceptLanguage?: string | null): Locale {
+  if (!acceptLanguage) return "de";
+
+  const preferred = acceptLanguage
+    .split(",")
+    .map((part) => part.split(";")[0].trim().toLowerCase());
+
+  for (const language of preferred) {
+    if (language.startsWith("de")) return "de";
+    if (language.startsWith("en")) return "en";
+  }
+
+  return "de";
+}
+
+/**
+ * Check the number of queries against config.limits
+ */
+export function validateQueryLimits(
+  queryCount: number,
+  locale: Locale = "de",
+  requireQueries = true
+): LimitViolation[] {
+  if (queryCount === 0 && requireQueries) {
+    return [createViolation("NO_QUESTIONS", {}, locale)];
+  }
+
+  if (queryCount > limitsConfig.maxQuestionsPerSession) {
+    return [
+      createViolation(
+        "TOO_MANY_QUESTIONS",
+        {
+          limit: limitsConfig.maxQuestionsPerSession,
+          actual: queryCount,
+        },
+        locale
+      ),
+    ];
+  }
+
+  return [];
+}
+
+/**
+ * Check files and queries against config.limits and the per-file PDF rules
+ */
+export async function validateSessionLimits(
+  files: File[],
+  queries: QueryInput[],
+  locale: Locale = "de",
+  requireQueries = true
+): Promise<LimitViolation[]> {
+  const violations = validateQueryLimits(
+    queries.length,
+    locale,
+    requireQueries
+  );
+
+  if (files.length === 0) {
+    violations.push(createViolation("NO_FILES", {}, locale));
+  } else if (files.length > limitsConfig.maxFilesPerSession) {
+    violations.push(
+      createViolation(
+        "TOO_MANY_FILES",
+        { limit: limitsConfig.maxFilesPerSession, actual: files.length },
+        locale
+      )
+    );
+  }
+
+  const totalSize = files.reduce((sum, file) => sum + file.size, 0);
+  if (totalSize > limitsConfig.maxTotalFileSize) {
+    violations.push(
+      createViolation(
+        "TOTAL_SIZE_EXCEEDED",
+        { limit: limitsConfig.maxTotalFileSize, actual: totalSize },
+        locale
+      )
+    );
+  }
+
+  for (const file of files) {
+    const validation = await validatePDFFile(file);
+    if (!validation.isValid && validation.code) {
+      violations.push(
+        createViolation(
+          validation.code,
+          {
+            filename: file.name,
+            limit: pdfConfig.validation.maxFileSizeBytes,
+          },
+          locale
+        )
+      );
+    }
+  }
+
+  return violations;
+}
+
+/**
+ * Tracks the wall-clock budget of a processing run
+ */
+export interface ProcessingBudget {
+  deadline: number;
+  isExhausted: () => boolean;
+}
+
+export function createProcessingBudget(
+  budgetMs: number = limitsConfig.maxProcessingTimeMs
+): ProcessingBudget {
+  const deadline = Date.now() + budgetMs;
+  return {
+    deadline,
+    isExhausted: () => Date.now() >= deadline,
+  };
+}
@@ -0,0 +1,239 @@
+import Anthropic from "@anthropic-ai/sdk";
+import OpenAI from "openai";
+import type { CallOptions, VectorSearchResult } from "./types";
+import { createMockLlmProvider } from "./mock-llm-provider";
+import config, { type LlmProviderName } from "./config";
+
+// Get configuration
+const aiConfig = config.getAiConfig();
+const llmConfig = config.getLlmConfig();
+
+/**
+ * What a request is for. Model providers only need the prompt; the mock
+ * builds its response from the task.
+ */
+export type LlmTask =
+  | {
+      kind: "extraction";
+      filename: string;
+      pageStart: number;
+      pageEnd: number;
+    }
+  | {
+      kind: "answer" | "verdict" | "rerank";
+      query: string;
+      passages: VectorSearchResult[];
+    };
+
+export interface LlmRequest {
+  task: LlmTask;
+  prompt: string;
+  // PDF sent along with the prompt, base64 encoded
+  pdfBase64?: string;
+  maxTokens: number;
+}
+
+// Tool the model must call; its input is the structured response
+export interface LlmTool {
+  name: string;
+  description: string;
+  inputSchema: { type: "object"; [key: string]: unknown };
+}
+
+/**
+ * Backend for document extraction and answering. Retries are handled by
+ * the callers through withRetry, so providers make a single attempt.
+ */
+export interface LlmProvider {
+  name: LlmProviderName;
+  // Recorded with cached extractions and stored documents
+  model: string;
+  generateText(request: LlmRequest, options?: CallOptions): Promise<string>;
+  // Forces a call of the tool and returns its input without validation
+  callTool(
+    request: LlmRequest,
+    tool: LlmTool,
+    options?: CallOptions
+  ): Promise<unknown>;
+}
+
+function createAnthropicProvider(): LlmProvider {
+  const anthropic = new Anthropic({
+    apiKey: process.env.ANTHROPIC_API_KEY!,
+    maxRetries: 0,
+  });
+  const model = aiConfig.claude.model;
+
+  const toContent = (request: LlmRequest): Anthropic.ContentBlockParam[] => [
+    ...(request.pdfBase64
+      ? [
+          {
+            type: "document" as const,
+            source: {
+              media_type: "application/pdf" as const,
+              type: "base64" as const,
+              data: request.pdfBase64,
+            },
+            cache_control: { type: "ephemeral" as const },
+          },
+        ]
+      : []),
+    { type: "text", text: request.prompt },
+  ];
+
+  return {
+    name: "anthropic",
+    model,
+    async generateText(request, options = {}) {
+      const response = await anthropic.messages.create(
+        {
+          model,
+          max_tokens: request.maxTokens,
+          messages: [{ role: "user", content: toContent(request) }],
+        },
+        { signal: options.signal }
+      );
+
+      const content = response.content[0];
+      if (content?.type !== "text") {
+        throw new Error("Unexpected response type from Claude");
+      }
+      return content.text;
+    },
+    async callTool(request, tool, options = {}) {
+      const response = await anthropic.messages.create(
+        {
+          model,
+          max_tokens: request.maxTokens,
+          tools: [
+            {
+              name: tool.name,
+              description: tool.description,
+              input_schema: tool.inputSchema,
+            },
+          ],
+          tool_choice: { type: "tool", name: tool.name },
+          messages: [{ role: "user", content: toContent(request) }],
+        },
+        { signal: options.signal }
+      );
+
+      const toolUse = response.content.find(
+        (content) => content.type === "tool_use"
+      );
+      if (!toolUse || toolUse.type !== "tool_use") {
+        throw new Error("Unexpected response type from Claude");
+      }
+      return toolUse.input;
+    },
+  };
+}
+
+function createOpenAiCompatibleProvider(): LlmProvider {
+  const { baseUrl, model, apiKeyEnvVar } = llmConfig.openaiCompatible;
+  const client = new OpenAI({
+    baseURL: baseUrl,
+    // Local servers usually accept any key
+    apiKey: process.env[apiKeyEnvVar] || "unused",
+    maxRetries: 0,
+  });
+
+  // PDFs are sent as file parts; the endpoint must accept them
+  const toMessages = (
+    request: LlmRequest
+  ): OpenAI.Chat.ChatCompletionMessageParam[] => [
+    {
+      role: "user",
+      content: [
+        ...(request.pdfBase64
+          ? [
+              {
+                type: "file" as const,
+                file: {
+                  filename:
+                    request.task.kind === "extraction"
+                      ? request.task.filename
+                      : "document.pdf",
+                  file_data: `data:application/pdf;base64,${request.pdfBase64}`,
+                },
+              },
+            ]
+          : []),
+        { type: "text", text: request.prompt },
+      ],
+    },
+  ];
+
+  return {
+    name: "openai-compatible",
+    model,
+    async generateText(request, options = {}) {
+      const response = await client.chat.completions.create(
+        {
+          model,
+          max_tokens: request.maxTokens,
+          messages: toMessages(request),
+        },
+        { signal: options.signal }
+      );
+
+      const text = response.choices[0]?.message.content;
+      if (typeof text !== "string") {
+        throw new Error(`Unexpected response from LLM endpoint ${baseUrl}`);
+      }
+      return text;
+    },
+    async callTool(request, tool, options = {}) {
+      const response = await client.chat.completions.create(
+        {
+          model,
+          max_tokens: request.maxTokens,
+          tools: [
+            {
+              type: "function",
+              function: {
+                name: tool.name,
+                description: tool.description,
+                parameters: tool.inputSchema,
+              },
+            },
+          ],
+          tool_choice: { type: "function", function: { name: tool.name } },
+          messages: toMessages(request),
+        },
+        { signal: options.signal }
+      );
+
+      const toolCall = response.choices[0]?.message.tool_calls?.find(
+        (call) => call.function.name === tool.name
+      );
+      if (!toolCall) {
+        throw new Error(`Unexpected response from LLM endpoint ${baseUrl}`);
+      }
+      return JSON.parse(toolCall.function.arguments);
+    },
+  };
+}
+
+let provider: LlmProvider | null = null;
+
+/**
+ * The provider selected by config.llm.provider, created on first use
+ */
+export function getLlmProvider(): LlmProvider {
+  if (!provider) {
+    switch (llmConfig.provider) {
+      case "anthropic":
+        provider = createAnthropicProvider();
+        break;
+      case "openai-compatible":
+        provider = createOpenAiCompatibleProvider();
+        break;
+      case "mock":
+        provider = createMockLlmProvider(llmConfig.mock);
+        break;
+    }
+    console.log(`Using LLM provider ${provider.name} (${provider.model})`);
+  }
+  return provider;
+}
@@ -0,0 +1,232 @@
+import { promises as fs } from "fs";
+import path from "path";
+import { z } from "zod";
+import type { VectorSearchResult } from "./types";
+import type { LlmProvider, LlmRequest, LlmTask } from "./llm-provider";
+import { createEmptyTenderExtraction } from "./tender-extraction";
+import type { Config } from "./config";
+
+// Responses of the mock, read from config.llm.mock.scriptPath
+const mockScriptSchema = z.object({
+  // Extracted text per file and original page
+  extractions: z
+    .array(
+      z.object({
+        filename: z.string(),
+        page: z.number().int().positive(),
+        text: z.string(),
+        // Partial TenderExtraction, merged over an empty one
+        data: z.record(z.string(), z.unknown()).optional(),
+        language: z.string().optional(),
+      })
+    )
+    .default([]),
+  // First entry whose pattern matches the query wins
+  answers: z
+    .array(
+      z.object({
+        match: z.string(),
+        answer: z.string(),
+        verdict: z
+          .object({
+            result: z.enum(["true", "false", "unknown"]),
+            justification: z.string(),
+            // Cited from the retrieved passage that contains it
+            quote: z.string().optional(),
+            certainty: z.enum(["high", "medium", "low"]).default("high"),
+          })
+          .optional(),
+      })
+    )
+    .default([]),
+});
+
+type MockScript = z.infer<typeof mockScriptSchema>;
+type MockAnswer = MockScript["answers"][number];
+
+/**
+ * Read the script; a missing file leaves every response at its fallback
+ */
+async function loadScript(scriptPath: string): Promise<MockScript> {
+  const resolvedPath = path.resolve(process.cwd(), scriptPath);
+  try {
+    const content = await fs.readFile(resolvedPath, "utf-8");
+    return mockScriptSchema.parse(JSON.parse(content));
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code !== "ENOENT") {
+      console.error(`Error reading mock LLM script ${resolvedPath}:`, error);
+      throw new Error(`Failed to load mock LLM script: ${scriptPath}`);
+    }
+    console.warn(`Mock LLM script ${resolvedPath} not found, using fallbacks`);
+    return mockScriptSchema.parse({});
+  }
+}
+
+function findAnswer(script: MockScript, query: string): MockAnswer | null {
+  return (
+    script.answers.find((entry) => new RegExp(entry.match, "i").test(query)) ??
+    null
+  );
+}
+
+// Lists of several pages are appended, other fields are overwritten
+function mergeData(
+  data: Record<string, unknown>,
+  update: Record<string, unknown> = {}
+): Record<string, unknown> {
+  const merged = { ...data };
+  for (const [key, value] of Object.entries(update)) {
+    const current = merged[key];
+    merged[key] =
+      Array.isArray(current) && Array.isArray(value)
+        ? [...current, ...value]
+        : value;
+  }
+  return merged;
+}
+
+function extract(
+  script: MockScript,
+  task: Extract<LlmTask, { kind: "extraction" }>
+) {
+  const pages: string[] = [];
+  let data: Record<string, unknown> = {};
+  let language = "de";
+
+  for (let page = task.pageStart; page <= task.pageEnd; page++) {
+    const entries = script.extractions.filter(
+      (entry) => entry.filename === task.filename && entry.page === page
+    );
+    if (entries.length === 0) {
+      pages.push(
+        `[Seite ${page}] Offline-Extraktion ohne Sprachmodell: Für ${task.filename}, Seite ${page}, enthält das Mock-Skript keinen Text.`
+      );
+      continue;
+    }
+    for (const entry of entries) {
+      pages.push(entry.text);
+      data = mergeData(data, entry.data);
+      language = entry.language ?? language;
+    }
+  }
+
+  return {
+    text: pages.join("\n\n"),
+    data: { ...createEmptyTenderExtraction(), ...data },
+    language,
+  };
+}
+
+function answer(
+  script: MockScript,
+  query: string,
+  passages: VectorSearchResult[]
+) {
+  const scripted = findAnswer(script, query);
+  if (scripted) return scripted.answer;
+
+  const passage = passages[0]?.metadata;
+  if (!passage) {
+    return "**INFORMATION NICHT VERFÜGBAR:** Offline-Antwort ohne Sprachmodell, es wurden keine passenden Abschnitte gefunden.";
+  }
+  return `**Direkte Antwort:** Offline-Antwort ohne Sprachmodell, siehe bester Treffer.
+
+**Details:** ${(passage.text ?? "").slice(0, 300)}
+
+**Quelle:** ${passage.filename}, S. ${passage.pageStart}`;
+}
+
+function verdict(
+  script: MockScript,
+  query: string,
+  passages: VectorSearchResult[]
+) {
+  const scripted = findAnswer(script, query)?.verdict;
+  if (!scripted) {
+    return {
+      result: "unknown",
+      justification:
+        "Offline-Antwort ohne Sprachmodell: Die Bedingung wurde nicht geprüft.",
+      evidence: [],
+      certainty: "low",
+    };
+  }
+
+  const { quote } = scripted;
+  const sourceIndex = quote
+    ? passages.findIndex((passage) => passage.metadata.text?.includes(quote))
+    : -1;
+
+  return {
+    result: scripted.result,
+    justification: scripted.justification,
+    evidence:
+      quote && sourceIndex !== -1
+        ? [
+            {
+              source: sourceIndex + 1,
+              quote,
+              page: passages[sourceIndex].metadata.pageStart,
+            },
+          ]
+        : [],
+    certainty: scripted.certainty,
+  };
+}
+
+// Rates by retrieval score, so the retrieval order is kept
+function rerank(passages: VectorSearchResult[]) {
+  const best = Math.max(0, ...passages.map((passage) => passage.score));
+  return {
+    ratings: passages.map((passage, index) => ({
+      source: index + 1,
+      relevance: best > 0 ? (10 * passage.score) / best : 0,
+    })),
+  };
+}
+
+/**
+ * Deterministic provider that answers from a script instead of a model,
+ * so the pipeline runs offline. Unscripted requests get fixed fallbacks.
+ */
+export function createMockLlmProvider(
+  mockConfig: Config["llm"]["mock"]
+): LlmProvider {
+  let script: Promise<MockScript> | null = null;
+  const getScript = () => (script ??= loadScript(mockConfig.scriptPath));
+
+  const respond = async ({ task }: LlmRequest) => {
+    const loaded = await getScript();
+    switch (task.kind) {
+      case "extraction":
+        return extract(loaded, task);
+      case "verdict":
+        return verdict(loaded, task.query, task.passages);
+      case "answer":
+        return answer(loaded, task.query, task.passages);
+      case "rerank":
+        return rerank(task.passages);
+    }
+  };
+
+  return {
+    name: "mock",
+    model: mockConfig.model,
+    async generateText(request) {
+      const response = await respond(request);
+      if (typeof response === "string") return response;
+      if ("text" in response) return response.text;
+      if ("justification" in response) return response.justification;
+      throw new Error(`Mock LLM has no text response for ${request.task.kind}`);
+    },
+    async callTool(request) {
+      const response = await respond(request);
+      if (typeof response === "string") {
+        throw new Error(
+          `Mock LLM has no tool response for ${request.task.kind}`
+        );
+      }
+      return response;
+    },
+  };
+}
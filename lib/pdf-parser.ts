@@ -1,4 +1,10 @@
-import type { DocumentChunk } from "./types";
+import type {
+  CallOptions,
+  ChunkExtraction,
+  DocumentChunk,
+  Language,
+} from "./types";
+import type { LimitErrorCode } from "./limits";
 import {
   splitPdfChunks,
   getPdfPageCount,
@@ -6,6 +12,7 @@ import {
   type SplitOptions,
 } from "./pdf-splitter";
 import { processChunkWithClaude } from "./ai-service";
+import { rethrowIfCancelled } from "./cancellation";
 import config from "./config";
 
 /**
@@ -42,21 +49,24 @@ export async function createPDFChunks(
 
     if (needsSplitting) {
       // Split the PDF into smaller chunks
-      const splitBuffers = await splitPdfChunks(arrayBuffer, splitOptions);
+      const slices = await splitPdfChunks(arrayBuffer, splitOptions);
 
-      console.log(`Split PDF into ${splitBuffers.length} chunks`);
+      console.log(`Split PDF into ${slices.length} chunks`);
 
       // Create DocumentChunk objects for each split
-      splitBuffers.forEach((buffer, index) => {
+      slices.forEach(({ buffer, pageIndices }, index) => {
         const chunkId = `${file.name}-chunk-${index}`;
+        const pageNumbers = pageIndices.map((pageIndex) => pageIndex + 1);
         chunks.push({
           id: chunkId,
           text: "", // Will be filled by Claude processing
           metadata: {
             filename: file.name,
-            page: index + 1, // Approximate page number
+            pageStart: pageNumbers[0],
+            pageEnd: pageNumbers[pageNumbers.length - 1],
+            pageNumbers,
             chunkIndex: index,
-            totalChunks: splitBuffers.length,
+            totalChunks: slices.length,
             pdfBuffer: buffer, // Store the PDF chunk buffer
           },
         });
@@ -69,7 +79,9 @@ export async function createPDFChunks(
         text: "", // Will be filled by Claude processing
         metadata: {
           filename: file.name,
-          page: 1,
+          pageStart: 1,
+          pageEnd: pageCount,
+          pageNumbers: Array.from({ length: pageCount }, (_, i) => i + 1),
           chunkIndex: 0,
           totalChunks: 1,
           pdfBuffer: Buffer.from(arrayBuffer), // Store the entire PDF buffer
@@ -93,8 +105,10 @@ export async function createPDFChunks(
  */
 export async function processPDFChunk(
   file: File,
-  chunk: DocumentChunk
-): Promise<string> {
+  chunk: DocumentChunk,
+  promptLanguage: Language,
+  options: CallOptions = {}
+): Promise<ChunkExtraction> {
   try {
     // Use the stored PDF buffer if available, otherwise use the original file
     const pdfBase64 = chunk.metadata.pdfBuffer
@@ -102,8 +116,14 @@ export async function processPDFChunk(
       : await fileToBase64(file);
 
     // Call the AI service to process the chunk
-    return await processChunkWithClaude(pdfBase64, chunk);
+    return await processChunkWithClaude(
+      pdfBase64,
+      chunk,
+      promptLanguage,
+      options
+    );
   } catch (error) {
+    rethrowIfCancelled(error, options.signal);
     console.error("Error processing PDF chunk:", error);
     throw new Error(`Failed to process PDF chunk: ${chunk.id}`);
   }
@@ -135,31 +155,73 @@ export async function getPDFInfo(file: File): Promise<{
   }
 }
 
+// Every PDF starts with "%PDF-"
+const PDF_MAGIC_BYTES = [0x25, 0x50, 0x44, 0x46, 0x2d];
+
+/**
+ * Check the file content starts with the PDF signature, not just its MIME type
+ */
+async function hasPdfSignature(file: File): Promise<boolean> {
+  const header = new Uint8Array(
+    await file.slice(0, PDF_MAGIC_BYTES.length).arrayBuffer()
+  );
+  return PDF_MAGIC_BYTES.every((byte, index) => header[index] === byte);
+}
+
 /**
  * Validate PDF file
  */
-export function validatePDFFile(file: File): {
+export async function validatePDFFile(file: File): Promise<{
   isValid: boolean;
+  code?: LimitErrorCode;
   error?: string;
-} {
+}> {
+  const pdfConfig = config.getPdfConfig();
+
   // Check file type
-  if (file.type !== "application/pdf") {
-    return { isValid: false, error: "File must be a PDF" };
+  if (!pdfConfig.validation.allowedMimeTypes.includes(file.type)) {
+    return {
+      isValid: false,
+      code: "INVALID_FILE_TYPE",
+      error: "File must be a PDF",
+    };
+  }
+
+  // Check filename
+  const lowercaseName = file.name.toLowerCase();
+  if (
+    !pdfConfig.validation.allowedExtensions.some((extension) =>
+      lowercaseName.endsWith(extension)
+    )
+  ) {
+    return {
+      isValid: false,
+      code: "INVALID_FILE_EXTENSION",
+      error: "File must have .pdf extension",
+    };
   }
 
   // Check file size
-  const pdfConfig = config.getPdfConfig();
+  if (file.size === 0) {
+    return { isValid: false, code: "EMPTY_FILE", error: "File is empty" };
+  }
+
   const maxSize = pdfConfig.validation.maxFileSizeBytes;
   if (file.size > maxSize) {
     return {
       isValid: false,
+      code: "FILE_TOO_LARGE",
       error: `File size must be less than ${pdfConfig.validation.maxFileSizeMB}MB`,
     };
   }
 
-  // Check filename
-  if (!file.name.toLowerCase().endsWith(".pdf")) {
-    return { isValid: false, error: "File must have .pdf extension" };
+  // Check file content
+  if (!(await hasPdfSignature(file))) {
+    return {
+      isValid: false,
+      code: "INVALID_PDF_SIGNATURE",
+      error: "File content is not a PDF",
+    };
   }
 
   return { isValid: true };
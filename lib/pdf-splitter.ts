@@ -6,6 +6,11 @@ export interface SplitOptions {
   overlap?: number; // how many pages of overlap
 }
 
+export interface PdfSlice {
+  buffer: Buffer;
+  pageIndices: number[]; // 0-based source page indices, including overlap
+}
+
 // Get configuration
 const pdfConfig = config.getPdfConfig();
 
@@ -14,19 +19,19 @@ const pdfConfig = config.getPdfConfig();
  *
  * @param buffer    - the ArrayBuffer of the source PDF
  * @param opts      - chunkSize (pages per slice) and overlap (pages to repeat)
- * @returns         - an array of Buffers, one per chunk
+ * @returns         - one slice per chunk with the source pages it contains
  */
 export async function splitPdfChunks(
   buffer: ArrayBuffer,
   opts: SplitOptions = {}
-): Promise<Buffer[]> {
+): Promise<PdfSlice[]> {
   const {
     chunkSize = pdfConfig.splitting.defaultChunkSize,
     overlap = pdfConfig.splitting.defaultOverlap,
   } = opts;
   const srcDoc = await PDFDocument.load(buffer);
   const total = srcDoc.getPageCount();
-  const slices: Buffer[] = [];
+  const slices: PdfSlice[] = [];
 
   console.log(`\n=== PDF SPLITTING DEBUG ===`);
   console.log(`Total pages: ${total}`);
@@ -62,12 +67,14 @@ export async function splitPdfChunks(
       `Creating chunk ${slices.length + 1}: pages [${unique.join(", ")}]`
     );
 
-    const newDoc = await PDFDocument.create();
+    // Without the creation/modification dates the slice bytes are stable,
+    // so identical pages hash to the same extraction cache key
+    const newDoc = await PDFDocument.create({ updateMetadata: false });
     const copied = await newDoc.copyPages(srcDoc, unique);
     copied.forEach((p) => newDoc.addPage(p));
 
     const bytes = await newDoc.save();
-    slices.push(Buffer.from(bytes));
+    slices.push({ buffer: Buffer.from(bytes), pageIndices: unique });
 
     // advance by chunkSize (not counting overlap)
     start += chunkSize;
@@ -0,0 +1,123 @@
+import type {
+  ChunkSearchOptions,
+  ChunkTag,
+  Language,
+  QueryInput,
+  QueryType,
+} from "./types";
+import { parseComparisonCondition } from "./condition-evaluator";
+import { detectLanguage } from "./language";
+import { getLanguagePack } from "./language-packs";
+import { detectParagraphTags } from "./text-processing";
+import config from "./config";
+
+// Get configuration
+const languagesConfig = config.getLanguagesConfig();
+const retrievalConfig = config.getRetrievalConfig();
+
+export const QUERY_TYPES: QueryType[] = [
+  "question",
+  "condition",
+  "date",
+  "amount",
+  "list",
+  "yes_no",
+];
+
+// Query types answered with a typed verdict instead of free text
+const VERDICT_QUERY_TYPES: QueryType[] = ["condition", "yes_no"];
+
+export function isQueryType(value: unknown): value is QueryType {
+  return QUERY_TYPES.includes(value as QueryType);
+}
+
+/**
+ * Whether a query is answered with a verdict (true/false/unknown)
+ */
+export function expectsVerdict(type: QueryType): boolean {
+  return VERDICT_QUERY_TYPES.includes(type);
+}
+
+/**
+ * Classify a query by its wording. Comparisons against dates or amounts
+ * are conditions; statements without a question count as conditions when
+ * they contain a condition keyword. The wording is matched in the language
+ * of the query unless one is given.
+ */
+export function detectQueryType(input: string, language?: Language): QueryType {
+  const text = input.trim();
+  const { queryPatterns, conditionKeywords } = getLanguagePack(
+    language ?? detectLanguage(text, 1) ?? languagesConfig.defaultOutputLanguage
+  );
+  const isQuestion =
+    text.endsWith("?") || queryPatterns.questionWord.test(text);
+
+  if (parseComparisonCondition(text)) {
+    return "condition";
+  }
+
+  if (queryPatterns.date.test(text)) {
+    return "date";
+  }
+
+  if (queryPatterns.amount.test(text)) {
+    return "amount";
+  }
+
+  if (queryPatterns.list.test(text)) {
+    return "list";
+  }
+
+  if (queryPatterns.yesNo.test(text) && text.endsWith("?")) {
+    return "yes_no";
+  }
+
+  if (!isQuestion) {
+    const lowercaseText = text.toLowerCase();
+    const hasConditionKeyword = conditionKeywords.some((keyword) =>
+      new RegExp(`(?<!\\p{L})${keyword}(?!\\p{L})`, "u").test(lowercaseText)
+    );
+    if (hasConditionKeyword) {
+      return "condition";
+    }
+  }
+
+  return "question";
+}
+
+/**
+ * Use the type chosen by the user, or detect it from the wording
+ */
+export function resolveQueryInputs(
+  queries: { text: string; type?: unknown }[]
+): QueryInput[] {
+  return queries.map(({ text, type }) => ({
+    text,
+    type: isQueryType(type) ? type : detectQueryType(text),
+  }));
+}
+
+/**
+ * Tags a query searches for: those configured for its type in
+ * retrieval.tags.queryTypes, which restrict or boost, and those detected
+ * in its wording, which only boost
+ */
+export function getQueryTagRouting(
+  input: string,
+  type: QueryType
+): ChunkSearchOptions {
+  const rule = retrievalConfig.tags.queryTypes[type];
+  const language =
+    detectLanguage(input, 1) ?? languagesConfig.defaultOutputLanguage;
+  const boostTags = new Set<ChunkTag>(
+    detectParagraphTags(input, language).tags
+  );
+  if (rule && !rule.restrict) {
+    rule.tags.forEach((tag) => boostTags.add(tag));
+  }
+
+  return {
+    ...(rule?.restrict ? { filter: { tags: rule.tags } } : {}),
+    ...(boostTags.size > 0 ? { boostTags: Array.from(boostTags) } : {}),
+  };
+}
@@ -0,0 +1,246 @@
+import { randomBytes } from "crypto";
+import { promises as fs } from "fs";
+import path from "path";
+import { z } from "zod";
+import type {
+  CatalogueVersion,
+  QuestionCatalogue,
+  QuestionCatalogueDetails,
+} from "./types";
+import { resolveQueryInputs } from "./query-classifier";
+import config from "./config";
+
+// Get configuration
+const cataloguesConfig = config.getCataloguesConfig();
+
+// Body of create/update requests and of exported catalogue files
+const catalogueInputSchema = z.object({
+  name: z.string().trim().min(1, "Name ist erforderlich").max(100),
+  description: z.string().trim().max(500).nullish(),
+  entries: z
+    .array(
+      z.object({
+        text: z.string().trim().min(1, "Fragetext ist erforderlich"),
+        // Unknown or missing types are detected from the text
+        type: z.string().nullish(),
+        category: z.string().trim().nullish(),
+      })
+    )
+    .min(1, "Mindestens eine Frage ist erforderlich"),
+});
+
+export type CatalogueInput = Omit<CatalogueVersion, "version" | "createdAt">;
+
+/**
+ * Raised when a catalogue sent by a client is malformed
+ */
+export class CatalogueValidationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "CatalogueValidationError";
+  }
+}
+
+/**
+ * Validate a catalogue from a request body or an imported file
+ */
+export function parseCatalogueInput(value: unknown): CatalogueInput {
+  const parsed = catalogueInputSchema.safeParse(value);
+  if (!parsed.success) {
+    throw new CatalogueValidationError(
+      parsed.error.issues
+        .map((issue) => `${issue.path.join(".")}: ${issue.message}`)
+        .join("; ")
+    );
+  }
+
+  const { name, description, entries } = parsed.data;
+  const queries = resolveQueryInputs(entries);
+
+  return {
+    name,
+    description: description || null,
+    entries: entries.map((entry, index) => ({
+      text: queries[index].text,
+      type: queries[index].type,
+      category: entry.category || null,
+    })),
+  };
+}
+
+/**
+ * Resolve the catalogue directory relative to the project root
+ */
+function getCatalogueDirectory(): string {
+  return path.resolve(process.cwd(), cataloguesConfig.directory);
+}
+
+function getCataloguePath(catalogueId: string): string {
+  return path.join(getCatalogueDirectory(), `${catalogueId}.json`);
+}
+
+function generateCatalogueId(): string {
+  return `cat-${randomBytes(8).toString("hex")}`;
+}
+
+/**
+ * Current state of a catalogue without its history
+ */
+function toSummary(catalogue: QuestionCatalogueDetails): QuestionCatalogue {
+  const summary: QuestionCatalogue & Partial<QuestionCatalogueDetails> = {
+    ...catalogue,
+  };
+  delete summary.versions;
+  return summary;
+}
+
+/**
+ * Load a catalogue with its version history, null if unknown
+ */
+export async function getCatalogue(
+  catalogueId: string
+): Promise<QuestionCatalogueDetails | null> {
+  // IDs end up in file paths, so only accept the generated format
+  if (!/^cat-[a-f0-9]{16}$/.test(catalogueId)) return null;
+
+  try {
+    const content = await fs.readFile(getCataloguePath(catalogueId), "utf-8");
+    return JSON.parse(content) as QuestionCatalogueDetails;
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code !== "ENOENT") {
+      console.error(`Error reading catalogue ${catalogueId}:`, error);
+    }
+    return null;
+  }
+}
+
+async function saveCatalogue(
+  catalogue: QuestionCatalogueDetails
+): Promise<void> {
+  try {
+    await fs.mkdir(getCatalogueDirectory(), { recursive: true });
+
+    // Write to a temp file first so readers never see a partial catalogue
+    const cataloguePath = getCataloguePath(catalogue.id);
+    const tempPath = `${cataloguePath}.${process.pid}.tmp`;
+    await fs.writeFile(tempPath, JSON.stringify(catalogue), "utf-8");
+    await fs.rename(tempPath, cataloguePath);
+  } catch (error) {
+    console.error(`Error storing catalogue ${catalogue.id}:`, error);
+    throw new Error(`Failed to store catalogue: ${catalogue.name}`);
+  }
+}
+
+/**
+ * List all catalogues without their history, sorted by name
+ */
+export async function listCatalogues(): Promise<QuestionCatalogue[]> {
+  let filenames: string[];
+  try {
+    filenames = await fs.readdir(getCatalogueDirectory());
+  } catch {
+    return [];
+  }
+
+  const catalogues: QuestionCatalogue[] = [];
+  for (const filename of filenames.filter((name) => name.endsWith(".json"))) {
+    const catalogue = await getCatalogue(filename.replace(/\.json$/, ""));
+    if (catalogue) {
+      catalogues.push(toSummary(catalogue));
+    }
+  }
+
+  return catalogues.sort((a, b) => a.name.localeCompare(b.name, "de"));
+}
+
+/**
+ * Create a catalogue with its first version
+ */
+export async function createCatalogue(
+  input: CatalogueInput
+): Promise<QuestionCatalogueDetails> {
+  const now = Date.now();
+  const catalogue: QuestionCatalogueDetails = {
+    id: generateCatalogueId(),
+    ...input,
+    version: 1,
+    createdAt: now,
+    updatedAt: now,
+    versions: [{ ...input, version: 1, createdAt: now }],
+  };
+
+  await saveCatalogue(catalogue);
+  console.log(`Created catalogue ${catalogue.id} (${catalogue.name})`);
+  return catalogue;
+}
+
+/**
+ * Save a new version of a catalogue, null if it is unknown
+ */
+export async function updateCatalogue(
+  catalogueId: string,
+  input: CatalogueInput
+): Promise<QuestionCatalogueDetails | null> {
+  const catalogue = await getCatalogue(catalogueId);
+  if (!catalogue) return null;
+
+  const now = Date.now();
+  const version = catalogue.version + 1;
+  const updated: QuestionCatalogueDetails = {
+    ...catalogue,
+    ...input,
+    version,
+    updatedAt: now,
+    versions: [
+      ...catalogue.versions,
+      { ...input, version, createdAt: now },
+    ].slice(-cataloguesConfig.maxVersions),
+  };
+
+  await saveCatalogue(updated);
+  console.log(`Saved version ${version} of catalogue ${catalogueId}`);
+  return updated;
+}
+
+/**
+ * Make an earlier version the current one by saving it as a new version
+ */
+export async function restoreCatalogueVersion(
+  catalogueId: string,
+  version: number
+): Promise<QuestionCatalogueDetails | null> {
+  const catalogue = await getCatalogue(catalogueId);
+  const restored = catalogue?.versions.find(
+    (entry) => entry.version === version
+  );
+  if (!restored) return null;
+
+  const { name, description, entries } = restored;
+  return updateCatalogue(catalogueId, { name, description, entries });
+}
+
+/**
+ * Remove a catalogue with its history, returns false if it was unknown
+ */
+export async function deleteCatalogue(catalogueId: string): Promise<boolean> {
+  const catalogue = await getCatalogue(catalogueId);
+  if (!catalogue) return false;
+
+  await fs.unlink(getCataloguePath(catalogueId));
+  console.log(`Deleted catalogue ${catalogueId} (${catalogue.name})`);
+  return true;
+}
+
+/**
+ * Portable JSON of the current version, accepted again by the import
+ */
+export function exportCatalogue(
+  catalogue: QuestionCatalogue
+): CatalogueInput & { exportedAt: string } {
+  return {
+    name: catalogue.name,
+    description: catalogue.description,
+    entries: catalogue.entries,
+    exportedAt: new Date().toISOString(),
+  };
+}
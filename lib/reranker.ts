@@ -0,0 +1,178 @@
+import path from "path";
+import type {
+  PreTrainedModel,
+  PreTrainedTokenizer,
+} from "@huggingface/transformers";
+import type { CallOptions, Language, VectorSearchResult } from "./types";
+import { rerankPassages } from "./ai-service";
+import { rethrowIfCancelled, throwIfCancelled } from "./cancellation";
+import config, { type RerankerName } from "./config";
+
+// Get configuration
+const rerankingConfig = config.getRerankingConfig();
+
+/**
+ * Rescores retrieved chunks against the query: one score between 0 and 1
+ * per passage, in the order of the passages
+ */
+export interface Reranker {
+  name: RerankerName;
+  score(
+    query: string,
+    passages: VectorSearchResult[],
+    language: Language,
+    options?: CallOptions
+  ): Promise<number[]>;
+}
+
+// Retrieval scores relative to the best chunk
+function getRelativeScores(passages: VectorSearchResult[]): number[] {
+  const best = Math.max(0, ...passages.map((passage) => passage.score));
+  return passages.map((passage) => (best > 0 ? passage.score / best : 0));
+}
+
+function createRetrievalReranker(): Reranker {
+  return {
+    name: "none",
+    async score(_query, passages) {
+      return getRelativeScores(passages);
+    },
+  };
+}
+
+function createLlmReranker(): Reranker {
+  return {
+    name: "llm",
+    score: rerankPassages,
+  };
+}
+
+interface CrossEncoder {
+  tokenizer: PreTrainedTokenizer;
+  classifier: PreTrainedModel;
+}
+
+function createLocalReranker(): Reranker {
+  const { model, cacheDirectory, allowRemoteModels } = rerankingConfig.local;
+  let crossEncoder: Promise<CrossEncoder> | null = null;
+
+  // The model is loaded once, on first use
+  const getCrossEncoder = () =>
+    (crossEncoder ??= import("@huggingface/transformers")
+      .then(async ({ AutoTokenizer, AutoModelForSequenceClassification }) => {
+        const options = {
+          cache_dir: path.resolve(process.cwd(), cacheDirectory),
+          local_files_only: !allowRemoteModels,
+        };
+
+        console.log(`Loading local reranking model ${model}`);
+        const [tokenizer, classifier] = await Promise.all([
+          AutoTokenizer.from_pretrained(model, options),
+          AutoModelForSequenceClassification.from_pretrained(model, options),
+        ]);
+        return { tokenizer, classifier };
+      })
+      .catch((error) => {
+        crossEncoder = null;
+        console.error(`Error loading local reranking model ${model}:`, error);
+        throw new Error(`Failed to load local reranking model: ${model}`);
+      }));
+
+  return {
+    name: "local",
+    async score(query, passages, _language, options = {}) {
+      const { tokenizer, classifier } = await getCrossEncoder();
+      throwIfCancelled(options.signal);
+      const inputs = tokenizer(
+        passages.map(() => query),
+        {
+          text_pair: passages.map((passage) => passage.metadata.text || ""),
+          padding: true,
+          truncation: true,
+        }
+      );
+      // One relevance logit per query and passage pair
+      const { logits } = await classifier(inputs);
+      return (logits.sigmoid().tolist() as number[][]).map(([score]) => score);
+    },
+  };
+}
+
+let reranker: Reranker | null = null;
+
+/**
+ * The reranker selected by config.reranking.provider, created on first use
+ */
+export function getReranker(): Reranker {
+  if (!reranker) {
+    switch (rerankingConfig.provider) {
+      case "none":
+        reranker = createRetrievalReranker();
+        break;
+      case "llm":
+        reranker = createLlmReranker();
+        break;
+      case "local":
+        reranker = createLocalReranker();
+        break;
+    }
+    console.log(`Using reranker ${reranker.name}`);
+  }
+  return reranker;
+}
+
+/**
+ * Rescore the retrieved chunks, best first. Chunks beyond maxCandidates
+ * score 0. If the reranker fails, the retrieval order is kept and the
+ * returned name is "none".
+ */
+export async function rerankChunks(
+  query: string,
+  chunks: VectorSearchResult[],
+  language: Language,
+  options: CallOptions = {}
+): Promise<{ chunks: VectorSearchResult[]; reranker: RerankerName }> {
+  const { maxCandidates } = rerankingConfig;
+  const candidates = chunks.slice(0, maxCandidates);
+  let used = getReranker();
+  let scores: number[];
+
+  try {
+    scores =
+      candidates.length > 0
+        ? await used.score(query, candidates, language, options)
+        : [];
+  } catch (error) {
+    rethrowIfCancelled(error, options.signal);
+    console.error(
+      `Reranker ${used.name} failed, keeping the retrieval order:`,
+      error
+    );
+    used = createRetrievalReranker();
+    scores = getRelativeScores(candidates);
+  }
+
+  // Stable sort, so ties keep their retrieval order
+  const reranked = candidates
+    .map((chunk, index) => ({ ...chunk, rerankScore: scores[index] ?? 0 }))
+    .sort((a, b) => b.rerankScore - a.rerankScore);
+
+  console.log(
+    `Reranked ${candidates.length} chunks with ${used.name}:`,
+    reranked.map((chunk) => ({
+      id: chunk.id,
+      score: chunk.score,
+      rerankScore: chunk.rerankScore,
+    }))
+  );
+
+  return {
+    chunks: [
+      ...reranked,
+      ...chunks
+        .slice(maxCandidates)
+        .map((chunk) => ({ ...chunk, rerankScore: 0 })),
+    ],
+    reranker: used.name,
+  };
+}
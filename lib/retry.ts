@@ -0,0 +1,186 @@
+import type { CallOptions } from "./types";
+import { ProcessingCancelledError, throwIfCancelled } from "./cancellation";
+import config from "./config";
+
+// Get configuration
+const retryConfig = config.getProcessingConfig().retry;
+
+// HTTP statuses worth another attempt (529 = Anthropic "overloaded")
+const RETRYABLE_STATUSES = new Set([408, 425, 429, 500, 502, 503, 504, 529]);
+
+// Error names used by the provider SDKs for network failures
+const RETRYABLE_ERROR_NAMES = new Set([
+  "APIConnectionError",
+  "APIConnectionTimeoutError",
+  "FetchError",
+]);
+
+// Upstash only reports the error text of a failed request
+const RETRYABLE_MESSAGE_PATTERN =
+  /rate limit|too many requests|timed? ?out|temporarily|unavailable|overloaded|fetch failed|ECONNRESET|ETIMEDOUT|socket hang up/i;
+
+export interface RetryOptions extends CallOptions {
+  label: string;
+}
+
+/**
+ * Read the HTTP status from provider errors (Anthropic, OpenAI)
+ */
+function getErrorStatus(error: unknown): number | undefined {
+  if (error && typeof error === "object" && "status" in error) {
+    const status = (error as { status: unknown }).status;
+    return typeof status === "number" ? status : undefined;
+  }
+  return undefined;
+}
+
+/**
+ * Read a header from either a Headers instance or a plain object
+ */
+function getHeader(error: unknown, name: string): string | undefined {
+  if (!error || typeof error !== "object" || !("headers" in error)) {
+    return undefined;
+  }
+
+  const headers = (error as { headers: unknown }).headers;
+  if (!headers) return undefined;
+
+  if (typeof (headers as Headers).get === "function") {
+    return (headers as Headers).get(name) ?? undefined;
+  }
+
+  const value = (headers as Record<string, string | undefined>)[name];
+  return typeof value === "string" ? value : undefined;
+}
+
+/**
+ * Delay requested by the server via retry-after-ms / retry-after headers
+ */
+export function getRetryAfterMs(error: unknown): number | undefined {
+  const retryAfterMs = getHeader(error, "retry-after-ms");
+  if (retryAfterMs && !isNaN(Number(retryAfterMs))) {
+    return Number(retryAfterMs);
+  }
+
+  const retryAfter = getHeader(error, "retry-after");
+  if (!retryAfter) return undefined;
+
+  // Either delay-seconds or an HTTP date
+  const seconds = Number(retryAfter);
+  if (!isNaN(seconds)) {
+    return seconds * 1000;
+  }
+
+  const date = Date.parse(retryAfter);
+  return isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
+
+/**
+ * Classify whether an error is transient and the call should be retried
+ */
+export function isRetryableError(error: unknown): boolean {
+  if (error instanceof ProcessingCancelledError) return false;
+
+  const status = getErrorStatus(error);
+  if (status !== undefined) {
+    return RETRYABLE_STATUSES.has(status) || status >= 500;
+  }
+
+  if (error instanceof Error) {
+    if (error.name === "AbortError" || error.name === "APIUserAbortError") {
+      return false;
+    }
+    return (
+      RETRYABLE_ERROR_NAMES.has(error.name) ||
+      RETRYABLE_MESSAGE_PATTERN.test(error.message)
+    );
+  }
+
+  return false;
+}
+
+/**
+ * Exponential backoff with jitter, capped at maxDelayMs
+ */
+export function getBackoffDelayMs(attempt: number): number {
+  const exponential = retryConfig.baseDelayMs * Math.pow(2, attempt - 1);
+  const capped = Math.min(exponential, retryConfig.maxDelayMs);
+  // Equal jitter: keep half the delay, randomize the other half
+  return Math.round(capped / 2 + Math.random() * (capped / 2));
+}
+
+/**
+ * Sleep that wakes up early with a cancellation error when aborted
+ */
+export function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    throwIfCancelled(signal);
+
+    const timer = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(new ProcessingCancelledError());
+    };
+
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
+}
+
+/**
+ * Describe why a call failed for progress messages
+ */
+function describeError(error: unknown): string {
+  const status = getErrorStatus(error);
+  const message = error instanceof Error ? error.message : String(error);
+  return status !== undefined ? `${status} ${message}` : message;
+}
+
+/**
+ * Run a provider call with the configured retry policy
+ */
+export async function withRetry<T>(
+  operation: () => Promise<T>,
+  options: RetryOptions
+): Promise<T> {
+  const { label, signal, onRetry } = options;
+  const maxRetries = retryConfig.maxRetries;
+
+  for (let attempt = 0; ; attempt++) {
+    throwIfCancelled(signal);
+
+    try {
+      return await operation();
+    } catch (error) {
+      if (attempt >= maxRetries || !isRetryableError(error)) {
+        throw error;
+      }
+
+      const retryNumber = attempt + 1;
+      // Server-requested delays are capped too, so one long retry-after
+      // cannot stall a job past its time budget
+      const retryAfterMs = getRetryAfterMs(error);
+      const delayMs =
+        retryAfterMs !== undefined
+          ? Math.min(retryAfterMs, retryConfig.maxDelayMs)
+          : getBackoffDelayMs(retryNumber);
+      const reason = describeError(error);
+
+      console.warn(
+        `${label} failed (${reason}), retry ${retryNumber}/${maxRetries} in ${delayMs}ms`
+      );
+      onRetry?.({
+        label,
+        attempt: retryNumber,
+        maxRetries,
+        delayMs,
+        reason,
+      });
+
+      await sleep(delayMs, signal);
+    }
+  }
+}
@@ -0,0 +1,365 @@
+import { z } from "zod";
+
+// Original page an item was found on (from the "[Seite N]" numbering)
+const pageSchema = z
+  .number()
+  .int()
+  .positive()
+  .nullable()
+  .describe("Seite im Originaldokument, auf der die Angabe steht");
+
+const contactSchema = z.object({
+  name: z.string().nullable().describe("Name der Person oder Stelle"),
+  role: z
+    .string()
+    .nullable()
+    .describe("Funktion, z. B. Vergabestelle oder Ansprechpartner"),
+  organization: z.string().nullable(),
+  address: z.string().nullable(),
+  email: z.string().nullable(),
+  phone: z.string().nullable(),
+  page: pageSchema,
+});
+
+/**
+ * Kinds of deadlines the timeline and calendar export distinguish
+ */
+export const deadlineKindSchema = z
+  .enum([
+    "submission",
+    "questions",
+    "binding",
+    "opening",
+    "service_start",
+    "other",
+  ])
+  .describe(
+    "submission = Abgabefrist, questions = Bieterfragen-Frist, binding = Bindefrist, opening = Angebotseröffnung, service_start = Leistungsbeginn"
+  );
+
+// German names of the deadline kinds for the timeline and calendar
+export const DEADLINE_KIND_LABELS: Record<
+  z.infer<typeof deadlineKindSchema>,
+  string
+> = {
+  submission: "Abgabefrist",
+  questions: "Bieterfragen-Frist",
+  binding: "Bindefrist",
+  opening: "Angebotseröffnung",
+  service_start: "Leistungsbeginn",
+  other: "Frist",
+};
+
+const deadlineSchema = z.object({
+  kind: deadlineKindSchema,
+  label: z
+    .string()
+    .describe("Art der Frist, z. B. Angebotsfrist oder Frist für Bieterfragen"),
+  date: z
+    .string()
+    .describe("Datum und ggf. Uhrzeit exakt wie im Dokument angegeben"),
+  location: z.string().nullable().describe("Ort oder Plattform, falls genannt"),
+  page: pageSchema,
+});
+
+const awardCriterionSchema = z.object({
+  criterion: z.string().describe("Zuschlagskriterium, z. B. Preis"),
+  weightPercent: z
+    .number()
+    .min(0)
+    .max(100)
+    .nullable()
+    .describe("Gewichtung in Prozent, falls angegeben"),
+  page: pageSchema,
+});
+
+const requiredEvidenceSchema = z.object({
+  name: z.string().describe("Bezeichnung des Nachweises oder der Unterlage"),
+  description: z.string().nullable(),
+  page: pageSchema,
+});
+
+/**
+ * Kinds of things a bidder has to deliver or do
+ */
+export const checklistCategorySchema = z
+  .enum([
+    "form",
+    "evidence",
+    "declaration",
+    "signature",
+    "sample",
+    "site_visit",
+    "registration",
+    "other",
+  ])
+  .describe(
+    "form = Formblatt, evidence = Nachweis, declaration = Eigenerklärung, signature = Unterschrift/Signatur, sample = Muster/Probe, site_visit = Ortsbesichtigung, registration = Registrierung/Anmeldung"
+  );
+
+// German names of the checklist categories
+export const CHECKLIST_CATEGORY_LABELS: Record<
+  z.infer<typeof checklistCategorySchema>,
+  string
+> = {
+  form: "Formblatt",
+  evidence: "Nachweis",
+  declaration: "Erklärung",
+  signature: "Unterschrift",
+  sample: "Muster",
+  site_visit: "Ortsbesichtigung",
+  registration: "Registrierung",
+  other: "Sonstiges",
+};
+
+const checklistItemSchema = z.object({
+  title: z
+    .string()
+    .describe("Was der Bieter einreichen oder tun muss, kurz benannt"),
+  category: checklistCategorySchema,
+  mandatory: z
+    .boolean()
+    .describe("true, wenn zwingend gefordert; false, wenn optional"),
+  description: z
+    .string()
+    .nullable()
+    .describe("Einzelheiten, z. B. Formblattnummer oder Mindestanforderung"),
+  deadline: z
+    .string()
+    .nullable()
+    .describe("Frist wie im Dokument angegeben, z. B. mit dem Angebot"),
+  channel: z
+    .string()
+    .nullable()
+    .describe("Einreichungsweg, z. B. Vergabeplattform, E-Mail oder Post"),
+  page: pageSchema,
+});
+
+/**
+ * Structured facts of a tender, produced per chunk by Claude and merged
+ * into one record per document
+ */
+export const tenderExtractionSchema = z.object({
+  title: z.string().nullable().describe("Titel der Ausschreibung"),
+  referenceNumber: z
+    .string()
+    .nullable()
+    .describe("Referenznummer bzw. Aktenzeichen der Vergabe"),
+  contractingAuthority: contactSchema
+    .nullable()
+    .describe("Auftraggeber mit Name, Adresse und Kontakt"),
+  contacts: z
+    .array(contactSchema)
+    .describe("Vergabestelle und Ansprechpartner"),
+  scope: z
+    .string()
+    .nullable()
+    .describe("Leistungsumfang, kurz zusammengefasst"),
+  estimatedValue: z
+    .object({
+      amount: z.number().nullable().describe("Betrag als Zahl"),
+      currency: z.string().nullable().describe("Währung, z. B. EUR"),
+      text: z.string().describe("Angabe wie im Dokument"),
+      page: pageSchema,
+    })
+    .nullable()
+    .describe("Geschätzter Auftragswert"),
+  duration: z
+    .string()
+    .nullable()
+    .describe("Laufzeit bzw. Vertragsdauer wie im Dokument angegeben"),
+  deadlines: z.array(deadlineSchema).describe("Alle Fristen und Termine"),
+  submissionForm: z
+    .string()
+    .nullable()
+    .describe("Form der Angebotsabgabe, z. B. elektronisch über Plattform"),
+  awardCriteria: z
+    .array(awardCriterionSchema)
+    .describe("Zuschlagskriterien mit Gewichtung"),
+  requiredEvidence: z
+    .array(requiredEvidenceSchema)
+    .describe("Geforderte Nachweise, Erklärungen und Unterlagen"),
+  checklistItems: z
+    .array(checklistItemSchema)
+    .describe(
+      "Alles, was der Bieter einreichen oder tun muss: Formblätter, Nachweise, Erklärungen, Unterschriften, Muster, Ortsbesichtigungen, Registrierungen"
+    ),
+});
+
+export type TenderExtraction = z.infer<typeof tenderExtractionSchema>;
+export type TenderContact = z.infer<typeof contactSchema>;
+export type TenderDeadline = z.infer<typeof deadlineSchema>;
+export type DeadlineKind = z.infer<typeof deadlineKindSchema>;
+export type TenderAwardCriterion = z.infer<typeof awardCriterionSchema>;
+export type TenderRequiredEvidence = z.infer<typeof requiredEvidenceSchema>;
+export type TenderChecklistItem = z.infer<typeof checklistItemSchema>;
+export type ChecklistCategory = z.infer<typeof checklistCategorySchema>;
+
+/**
+ * JSON schema of the extraction for Claude tool-use
+ */
+export function getTenderExtractionJsonSchema(): Record<string, unknown> {
+  const jsonSchema: Record<string, unknown> = {
+    ...z.toJSONSchema(tenderExtractionSchema),
+  };
+  // Anthropic tool schemas must not carry a $schema declaration
+  delete jsonSchema.$schema;
+  return jsonSchema;
+}
+
+/**
+ * Extraction without any findings
+ */
+export function createEmptyTenderExtraction(): TenderExtraction {
+  return {
+    title: null,
+    referenceNumber: null,
+    contractingAuthority: null,
+    contacts: [],
+    scope: null,
+    estimatedValue: null,
+    duration: null,
+    deadlines: [],
+    submissionForm: null,
+    awardCriteria: [],
+    requiredEvidence: [],
+    checklistItems: [],
+  };
+}
+
+/**
+ * Parse the structured data of a chunk field by field: an invalid value
+ * or list item is dropped on its own instead of discarding the whole
+ * extraction. Returns the paths of everything that was dropped.
+ */
+export function parseTenderExtraction(data: unknown): {
+  extraction: TenderExtraction;
+  invalidPaths: string[];
+} {
+  const input =
+    data && typeof data === "object" ? (data as Record<string, unknown>) : {};
+  const invalidPaths: string[] = [];
+  const { shape } = tenderExtractionSchema;
+
+  // Missing fields count as "no finding", not as invalid
+  const parseValue = <T>(schema: z.ZodType<T>, field: string, fallback: T) => {
+    if (input[field] === undefined) return fallback;
+    const result = schema.safeParse(input[field]);
+    if (result.success) return result.data;
+    invalidPaths.push(field);
+    return fallback;
+  };
+
+  const parseList = <T>(schema: z.ZodType<T>, field: string): T[] => {
+    const value = input[field];
+    if (value === undefined || value === null) return [];
+    if (!Array.isArray(value)) {
+      invalidPaths.push(field);
+      return [];
+    }
+    return value.flatMap((item, index) => {
+      const result = schema.safeParse(item);
+      if (result.success) return [result.data];
+      invalidPaths.push(`${field}[${index}]`);
+      return [];
+    });
+  };
+
+  return {
+    extraction: {
+      title: parseValue(shape.title, "title", null),
+      referenceNumber: parseValue(
+        shape.referenceNumber,
+        "referenceNumber",
+        null
+      ),
+      contractingAuthority: parseValue(
+        shape.contractingAuthority,
+        "contractingAuthority",
+        null
+      ),
+      contacts: parseList(contactSchema, "contacts"),
+      scope: parseValue(shape.scope, "scope", null),
+      estimatedValue: parseValue(shape.estimatedValue, "estimatedValue", null),
+      duration: parseValue(shape.duration, "duration", null),
+      deadlines: parseList(deadlineSchema, "deadlines"),
+      submissionForm: parseValue(shape.submissionForm, "submissionForm", null),
+      awardCriteria: parseList(awardCriterionSchema, "awardCriteria"),
+      requiredEvidence: parseList(requiredEvidenceSchema, "requiredEvidence"),
+      checklistItems: parseList(checklistItemSchema, "checklistItems"),
+    },
+    invalidPaths,
+  };
+}
+
+const normalizeKey = (value: string | null | undefined) =>
+  (value ?? "").toLowerCase().replace(/\s+/g, " ").trim();
+
+/**
+ * Append items whose key has not been seen yet, keeping the first occurrence
+ */
+function mergeUnique<T>(items: T[][], getKey: (item: T) => string): T[] {
+  const seen = new Set<string>();
+  const merged: T[] = [];
+
+  for (const item of items.flat()) {
+    const key = getKey(item);
+    if (!seen.has(key)) {
+      seen.add(key);
+      merged.push(item);
+    }
+  }
+
+  return merged;
+}
+
+/**
+ * Merge the per-chunk extractions of one document in chunk order.
+ * Single values keep the first finding (the longest for the scope),
+ * lists are combined and de-duplicated.
+ */
+export function mergeTenderExtractions(
+  extractions: TenderExtraction[]
+): TenderExtraction {
+  const first = <T>(pick: (extraction: TenderExtraction) => T | null) =>
+    extractions.map(pick).find((value) => value !== null) ?? null;
+
+  const scopes = extractions
+    .map((extraction) => extraction.scope)
+    .filter((scope): scope is string => !!scope);
+
+  return {
+    title: first((extraction) => extraction.title),
+    referenceNumber: first((extraction) => extraction.referenceNumber),
+    contractingAuthority: first(
+      (extraction) => extraction.contractingAuthority
+    ),
+    contacts: mergeUnique(
+      extractions.map((extraction) => extraction.contacts),
+      (contact) =>
+        normalizeKey(contact.email) ||
+        `${normalizeKey(contact.name)}|${normalizeKey(contact.organization)}`
+    ),
+    scope: scopes.sort((a, b) => b.length - a.length)[0] ?? null,
+    estimatedValue: first((extraction) => extraction.estimatedValue),
+    duration: first((extraction) => extraction.duration),
+    deadlines: mergeUnique(
+      extractions.map((extraction) => extraction.deadlines),
+      (deadline) =>
+        `${normalizeKey(deadline.label)}|${normalizeKey(deadline.date)}`
+    ),
+    submissionForm: first((extraction) => extraction.submissionForm),
+    awardCriteria: mergeUnique(
+      extractions.map((extraction) => extraction.awardCriteria),
+      (criterion) => normalizeKey(criterion.criterion)
+    ),
+    requiredEvidence: mergeUnique(
+      extractions.map((extraction) => extraction.requiredEvidence),
+      (evidence) => normalizeKey(evidence.name)
+    ),
+    checklistItems: mergeUnique(
+      extractions.map((extraction) => extraction.checklistItems),
+      (item) => `${item.category}|${normalizeKey(item.title)}`
+    ),
+  };
+}
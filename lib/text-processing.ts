@@ -1,14 +1,27 @@
+import type { ChunkTag, Language, PageRange } from "./types";
+import {
+  parseGermanTemporal,
+  type TemporalExpression,
+} from "./german-temporal";
+import { getLanguagePack } from "./language-packs";
 import config from "./config";
 
 // Get configuration
 const textConfig = config.getTextConfig();
+const languagesConfig = config.getLanguagesConfig();
+
+// Page tags the extraction prompt asks Claude to put before every item
+const PAGE_TAG_REGEX = /\[Seite (\d+)\]/g;
 
 /**
  * Split text into overlapping chunks for better embedding and retrieval
  */
-export function splitTextIntoParagraphs(text: string): string[] {
+export function splitTextIntoParagraphs(
+  text: string,
+  language: Language = languagesConfig.fallbackDocumentLanguage
+): string[] {
   console.log(`\n=== SPLITTING TEXT INTO PARAGRAPHS ===`);
-  console.log(`Original text length: ${text.length}`);
+  console.log(`Original text length: ${text.length} (${language})`);
 
   // Clean and normalize text first
   const cleanText = normalizeText(text);
@@ -71,8 +84,7 @@ export function splitTextIntoParagraphs(text: string): string[] {
   // Post-process chunks to ensure quality
   const finalChunks = chunks
     .map((chunk) => chunk.trim())
-    .filter((chunk) => chunk.length >= textConfig.processing.minTextLength)
-    .map((chunk) => addContextualInfo(chunk));
+    .filter((chunk) => chunk.length >= textConfig.processing.minTextLength);
 
   console.log(`Final chunks count: ${finalChunks.length}`);
   console.log(`Final chunk lengths: ${finalChunks.map((c) => c.length)}`);
@@ -95,43 +107,49 @@ export function splitTextIntoParagraphs(text: string): string[] {
 }
 
 /**
- * Add contextual information to chunks for better retrieval
+ * Detect the retrieval tags of a paragraph with the keywords of its
+ * language, plus the ISO dates it mentions ("2025-12-31" or ranges as
+ * "2025-12-01/2025-12-31")
  */
-function addContextualInfo(chunk: string): string {
-  // Extract key information patterns
-  const metadata = extractMetadata(chunk);
-  let enhancedChunk = chunk;
-
-  // Add context markers for better retrieval
-  if (metadata.dates.length > 0) {
-    enhancedChunk = `[TERMINE/FRISTEN] ${enhancedChunk}`;
-  }
-  if (metadata.emails.length > 0 || metadata.phones.length > 0) {
-    enhancedChunk = `[KONTAKT] ${enhancedChunk}`;
-  }
-  if (metadata.deadlines.length > 0) {
-    enhancedChunk = `[FRISTEN] ${enhancedChunk}`;
-  }
-  if (
-    chunk.toLowerCase().includes("einreichung") ||
-    chunk.toLowerCase().includes("abgabe")
-  ) {
-    enhancedChunk = `[EINREICHUNG] ${enhancedChunk}`;
-  }
+export function detectParagraphTags(
+  paragraph: string,
+  language: Language = languagesConfig.fallbackDocumentLanguage
+): { tags: ChunkTag[]; dates: string[] } {
+  const { tagKeywords } = getLanguagePack(language);
+  const metadata = extractMetadata(paragraph, language);
+  const lowercaseParagraph = paragraph.toLowerCase();
+  const mentionsAny = (keywords: string[]) =>
+    keywords.some((keyword) => lowercaseParagraph.includes(keyword));
+
+  // Normalized dates let "2025-12-31" match "31. Dezember 2025"
+  const dates = [
+    ...new Set(
+      metadata.dates
+        .filter((date) => date.type !== "relative")
+        .map((date) =>
+          date.endValue
+            ? `${date.value.slice(0, 10)}/${date.endValue.slice(0, 10)}`
+            : date.value.slice(0, 10)
+        )
+    ),
+  ];
+
+  const tags: ChunkTag[] = [];
+  if (dates.length > 0) tags.push("dates");
   if (
-    chunk.toLowerCase().includes("elektronisch") ||
-    chunk.toLowerCase().includes("schriftlich")
+    metadata.deadlines.length > 0 ||
+    metadata.dates.some((date) => date.type === "relative")
   ) {
-    enhancedChunk = `[EINREICHUNGSFORM] ${enhancedChunk}`;
+    tags.push("deadlines");
   }
-  if (
-    chunk.toLowerCase().includes("bewertung") ||
-    chunk.toLowerCase().includes("kriterien")
-  ) {
-    enhancedChunk = `[BEWERTUNG] ${enhancedChunk}`;
+  if (metadata.emails.length > 0 || metadata.phones.length > 0) {
+    tags.push("contact");
   }
+  if (mentionsAny(tagKeywords.submission)) tags.push("submission");
+  if (mentionsAny(tagKeywords.submissionForm)) tags.push("submission_form");
+  if (mentionsAny(tagKeywords.evaluation)) tags.push("evaluation");
 
-  return enhancedChunk;
+  return { tags, dates };
 }
 
 /**
@@ -151,24 +169,25 @@ export function normalizeText(text: string): string {
 /**
  * Extract metadata from text content (e.g., dates, deadlines, contact info)
  */
-export function extractMetadata(text: string): {
-  dates: string[];
+export function extractMetadata(
+  text: string,
+  language: Language = languagesConfig.fallbackDocumentLanguage
+): {
+  dates: TemporalExpression[];
   emails: string[];
   phones: string[];
   deadlines: string[];
 } {
   const metadata = {
-    dates: [] as string[],
+    dates: [] as TemporalExpression[],
     emails: [] as string[],
     phones: [] as string[],
     deadlines: [] as string[],
   };
 
-  // Extract dates (German format) - improved regex
-  const dateRegex =
-    /\b\d{1,2}\.?\s*\d{1,2}\.?\s*\d{2,4}\b|\b\d{1,2}\.\d{1,2}\.\d{4}\b/g;
-  const dates = text.match(dateRegex) || [];
-  metadata.dates = [...new Set(dates.map((d) => d.trim()))];
+  // Extract dates, times, weeks and relative periods (German formats, plus
+  // the month names of the document language)
+  metadata.dates = parseGermanTemporal(text, { language });
 
   // Extract emails
   const emailRegex = new RegExp(textConfig.processing.emailRegex, "g");
@@ -180,21 +199,16 @@ export function extractMetadata(text: string): {
   const phones = text.match(phoneRegex) || [];
   metadata.phones = [...new Set(phones)];
 
-  // Extract deadlines (German keywords) - improved detection
-  const deadlineKeywords = [
-    ...textConfig.processing.deadlineKeywords,
-    "termin",
-    "zeitpunkt",
-    "datum",
-    "bis",
-    "spätestens",
-    "ende",
-    "ablauf",
-  ];
+  // Extract deadlines by the keywords of the document language
+  const { deadlineKeywords } = getLanguagePack(language);
   const deadlines: string[] = [];
 
   deadlineKeywords.forEach((keyword) => {
-    const regex = new RegExp(`[^.!?]*${keyword}[^.!?]*[.!?]`, "gi");
+    // Whole words only, so "bis zum" does not match inside "Ergebnis zum"
+    const regex = new RegExp(
+      `[^.!?]*(?<!\\p{L})${keyword}(?!\\p{L})[^.!?]*[.!?]`,
+      "giu"
+    );
     const matches = text.match(regex) || [];
     deadlines.push(...matches.map((m) => m.trim()));
   });
@@ -215,3 +229,50 @@ export function formatText(text: string): string {
     .replace(/^\s+|\s+$/g, "") // Trim whitespace
     .replace(/\n{3,}/g, "\n\n"); // Limit to maximum 2 consecutive newlines
 }
+
+/**
+ * Page range of every paragraph from the "[Seite N]" tags of an extraction.
+ * A tag applies until the next one; untagged text and tags outside the
+ * chunk's pages fall back to the chunk's page range.
+ */
+export function getParagraphPageRanges(
+  paragraphs: string[],
+  chunkRange: PageRange
+): PageRange[] {
+  let currentPage: number | null = null;
+
+  return paragraphs.map((paragraph) => {
+    const tags = Array.from(paragraph.matchAll(PAGE_TAG_REGEX));
+    const taggedPages = tags
+      .map((tag) => parseInt(tag[1], 10))
+      .filter(
+        (page) => page >= chunkRange.pageStart && page <= chunkRange.pageEnd
+      );
+
+    // Text before the first tag still belongs to the previous page
+    const leadingText = paragraph
+      .slice(0, tags[0]?.index ?? paragraph.length)
+      .replace(/\[[^\]]*\]/g, "")
+      .replace(/[^\p{L}\p{N}]/gu, "");
+    const pages =
+      currentPage !== null && leadingText.length > 0
+        ? [currentPage, ...taggedPages]
+        : taggedPages;
+
+    if (taggedPages.length > 0) {
+      currentPage = taggedPages[taggedPages.length - 1];
+    }
+
+    if (pages.length === 0) {
+      return {
+        pageStart: chunkRange.pageStart,
+        pageEnd: chunkRange.pageEnd,
+      };
+    }
+
+    return {
+      pageStart: Math.min(...pages),
+      pageEnd: Math.max(...pages),
+    };
+  });
+}
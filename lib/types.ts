@@ -1,68 +1,421 @@
+import type { VectorStoreName } from "./config";
+import type {
+  ChecklistCategory,
+  DeadlineKind,
+  TenderExtraction,
+} from "./tender-extraction";
+
+// Information about a provider call retry that is about to happen
+export interface RetryAttempt {
+  label: string;
+  attempt: number; // 1-based number of the retry
+  maxRetries: number;
+  delayMs: number;
+  reason: string;
+}
+
+// Options passed down to every provider call of a processing run
+export interface CallOptions {
+  signal?: AbortSignal;
+  onRetry?: (attempt: RetryAttempt) => void;
+  // Counts the embedding work of a run
+  embeddingStats?: EmbeddingStats;
+}
+
+// Embedding work of one processing run
+export interface EmbeddingStats {
+  // Texts passed in, including repeated ones
+  texts: number;
+  // Served from the cache or repeated within a request
+  cacheHits: number;
+  // Texts sent to the provider
+  embedded: number;
+  batches: number;
+  // Summed over all requests, which may overlap
+  elapsedMs: number;
+}
+
+// 1-based, inclusive page range in the original PDF
+export interface PageRange {
+  pageStart: number;
+  pageEnd: number;
+}
+
 // Core document processing types
 export interface DocumentChunk {
   id: string;
   text: string;
-  metadata: {
+  metadata: PageRange & {
     filename: string;
-    page: number;
+    pageNumbers: number[]; // Original page numbers contained in this chunk
     chunkIndex: number;
     totalChunks: number;
     pdfBuffer?: Buffer; // For storing split PDF chunks
   };
 }
 
+// Result of extracting one chunk with Claude
+export interface ChunkExtraction {
+  text: string; // Tagged text that is split into paragraphs and embedded
+  data: TenderExtraction;
+  // Language reported by Claude, null if unsupported or not stated
+  language: Language | null;
+}
+
 export interface ProcessedChunk {
   id: string;
   text: string;
   embedding: number[];
   metadata: DocumentChunk["metadata"];
+  tags: ChunkTag[];
+  // ISO dates mentioned in the paragraph
+  dates: string[];
+}
+
+// Retrieval tag of a paragraph, detected from its content
+export type ChunkTag =
+  | "dates"
+  | "deadlines"
+  | "contact"
+  | "submission"
+  | "submission_form"
+  | "evaluation";
+
+// Restricts a chunk search by metadata; all given conditions must hold
+export interface ChunkFilter {
+  // At least one of the tags
+  tags?: ChunkTag[];
+  filenames?: string[];
+  // Chunks overlapping the page range
+  pageStart?: number;
+  pageEnd?: number;
+}
+
+export interface ChunkSearchOptions {
+  filter?: ChunkFilter;
+  // Chunks with one of these tags score higher
+  boostTags?: ChunkTag[];
 }
 
-export type QueryType = "question" | "condition";
+// Languages with prompt and keyword packs
+export type Language = "de" | "en" | "fr";
+
+export type QueryType =
+  | "question"
+  | "condition"
+  | "date"
+  | "amount"
+  | "list"
+  | "yes_no";
 
 export interface QueryInput {
   text: string;
   type: QueryType;
 }
 
+// Where an answer's supporting context came from
+export interface SourceReference extends PageRange {
+  filename: string;
+}
+
 export interface QuestionAnswer {
   query: string;
   answer: string;
   confidence: number;
-  sources: string[];
+  sources: SourceReference[];
   type: QueryType;
+  // Typed evaluation, set for conditions
+  verdict?: ConditionVerdict;
   debugInfo?: {
     relevantChunks: VectorSearchResult[];
     contextUsed: string[];
+    // Which reranked chunks made it into the prompt and which did not
+    contextSelection?: ContextSelection;
   };
 }
 
+export type VerdictResult = "true" | "false" | "unknown";
+export type VerdictCertainty = "high" | "medium" | "low";
+
+// Verbatim passage from a document that supports a verdict
+export interface EvidenceQuote extends SourceReference {
+  quote: string;
+}
+
+export type ComparisonOperator =
+  | "before"
+  | "after"
+  | "on_or_before"
+  | "on_or_after"
+  | "greater"
+  | "less"
+  | "at_least"
+  | "at_most";
+
+// Extracted value a condition was compared against, and where it came from
+export interface VerdictComparison {
+  // What was compared, e.g. "Abgabefrist" or "Geschätzter Auftragswert"
+  subject: string;
+  operator: ComparisonOperator;
+  // Value as written in the document and normalized (ISO date-time or amount)
+  extractedText: string;
+  extractedValue: string | number;
+  // Value from the condition ("31.12.2025" and "2025-12-31")
+  referenceText: string;
+  referenceValue: string | number;
+  filename: string;
+  page: number | null;
+}
+
+// Outcome of evaluating a condition against the documents
+export interface ConditionVerdict {
+  result: VerdictResult;
+  justification: string;
+  evidence: EvidenceQuote[];
+  // Certainty stated by the model, independent of the retrieval score
+  certainty: VerdictCertainty;
+  // "deterministic" verdicts were computed from extracted facts
+  method: "deterministic" | "llm";
+  comparison?: VerdictComparison;
+}
+
 // New type for file-specific results
 export interface FileResult {
   filename: string;
+  // Predominant language of the document
+  language?: Language;
+  answers: QuestionAnswer[];
+}
+
+// "package" answers every query once against all files of a tender,
+// "per_file" answers every query separately for each file
+export type AnalysisMode = "package" | "per_file";
+
+// Consolidated result for all files of one tender package
+export interface PackageResult {
+  filenames: string[];
   answers: QuestionAnswer[];
 }
 
+// "time_limit_reached" means processing stopped early with partial results
+export type ProcessingStatus = "completed" | "time_limit_reached";
+
 // Updated main result structure
 export interface ProcessingResult {
+  status: ProcessingStatus;
+  mode: AnalysisMode;
+  packageResult?: PackageResult;
   fileResults: FileResult[];
   debugInfo: DocumentExtractionDebug[];
+  // Library IDs of the analysed documents when they were kept for later queries
+  documentIds?: string[];
+  // Structured facts merged per document ("Steckbrief")
+  tenderExtractions?: FileTenderExtraction[];
+  // Deadlines of all documents normalized to ISO date-times, sorted by date
+  deadlines?: Deadline[];
+  // Generated bidder checklist ("Checkliste erstellen")
+  checklist?: ChecklistResult;
+  // Language the answers were written in
+  outputLanguage?: Language;
+  // Predominant language per analysed file
+  documentLanguages?: Record<string, Language>;
+  embeddingStats?: EmbeddingStats;
+}
+
+export interface FileTenderExtraction {
+  filename: string;
+  extraction: TenderExtraction;
+  // Predominant language of the file, for reading its dates
+  language?: Language;
+}
+
+// A deadline from the documents, normalized for the timeline and calendar
+export interface Deadline {
+  kind: DeadlineKind;
+  label: string;
+  // ISO 8601 with the offset of the configured time zone, null if unreadable
+  dateTime: string | null;
+  // No time of day was given, the deadline covers the whole day
+  allDay: boolean;
+  // Date exactly as written in the document
+  sourceText: string;
+  location: string | null;
+  filename: string;
+  page: number | null;
+}
+
+// Something the bidder must deliver or do, merged across all documents
+export interface ChecklistItem {
+  // Stable across runs so tick-off state survives a reload
+  id: string;
+  title: string;
+  category: ChecklistCategory;
+  mandatory: boolean;
+  description: string | null;
+  // Deadline as written and, if readable, as ISO date-time
+  deadline: string | null;
+  deadlineDateTime: string | null;
+  channel: string | null;
+  sources: SourceReference[];
+}
+
+// Checklist generated from all documents of a run
+export interface ChecklistResult {
+  filenames: string[];
+  items: ChecklistItem[];
+}
+
+// One query of a question catalogue
+export interface CatalogueEntry {
+  text: string;
+  type: QueryType;
+  // Free grouping within the catalogue, e.g. "Fristen" or "Nachweise"
+  category: string | null;
+}
+
+// Saved state of a catalogue; every change adds a new version
+export interface CatalogueVersion {
+  version: number;
+  name: string;
+  description: string | null;
+  entries: CatalogueEntry[];
+  createdAt: number;
+}
+
+// A named, reusable set of queries ("Fragenkatalog") with its current state
+export interface QuestionCatalogue {
+  id: string;
+  name: string;
+  description: string | null;
+  version: number;
+  entries: CatalogueEntry[];
+  createdAt: number;
+  updatedAt: number;
+}
+
+export interface QuestionCatalogueDetails extends QuestionCatalogue {
+  // Versions in ascending order, the last one is the current state
+  versions: CatalogueVersion[];
+}
+
+// A document kept in the library together with its vector namespace
+export interface StoredDocument {
+  id: string;
+  filename: string;
+  size: number;
+  namespace: string;
+  chunkCount: number;
+  paragraphCount: number;
+  model: string;
+  embeddingModel: string;
+  promptVersion: string;
+  // Vector store holding the embeddings; missing on documents stored
+  // before it was recorded
+  vectorStore?: VectorStoreName;
+  // Predominant language of the document
+  language?: Language;
+  createdAt: number;
+  lastUsedAt: number;
+}
+
+export interface StoredDocumentDetails extends StoredDocument {
+  extraction: DocumentExtractionDebug[];
+  tenderExtraction?: TenderExtraction;
+}
+
+// Progress streaming types
+export interface ProgressUpdate {
+  type: "progress" | "completion" | "error" | "cancelled";
+  step: string;
+  message: string;
+  filename?: string;
+  chunkId?: string;
+  currentStep: number;
+  totalSteps: number;
+  timestamp: number;
+  results?: ProcessingResult;
+  error?: string;
+  cancelledStages?: string[];
+}
+
+// Background job types
+export type JobStatus =
+  | "queued"
+  | "running"
+  | "completed"
+  | "failed"
+  | "cancelled";
+
+export interface JobSummary {
+  id: string;
+  status: JobStatus;
+  mode: AnalysisMode;
+  filenames: string[];
+  queryCount: number;
+  currentStep: number;
+  totalSteps: number;
+  lastMessage?: string;
+  error?: string;
+  cancelledStages?: string[];
+  createdAt: number;
+  startedAt?: number;
+  finishedAt?: number;
 }
 
 // Embeddings types
 export interface EmbeddingsMetadata {
   text: string;
   filename: string;
-  page: number;
+  pageStart: number;
+  pageEnd: number;
   chunkIndex: number;
   totalChunks: number;
-  [key: string]: string | number | boolean | undefined; // Add index signature for compatibility
+  // Missing for documents stored before tags were metadata
+  tags?: ChunkTag[];
+  dates?: string[];
+  [key: string]: string | number | boolean | string[] | undefined; // Add index signature for compatibility
+}
+
+export type Retriever = "vector" | "lexical";
+
+// Position of a chunk in one retriever's ranking, with that retriever's score
+export interface RetrieverHit {
+  rank: number;
+  score: number;
 }
 
 export interface VectorSearchResult {
   id: string;
   score: number;
   metadata: EmbeddingsMetadata;
+  // Retrievers that surfaced the chunk in a hybrid search
+  retrievers?: Partial<Record<Retriever, RetrieverHit>>;
+  // Relevance to the query from the reranker, 0..1
+  rerankScore?: number;
+}
+
+export type ContextDropReason = "low_score" | "budget";
+
+// Reranked chunk considered for the answering prompt
+export interface ContextChunk {
+  id: string;
+  filename: string;
+  pageStart: number;
+  pageEnd: number;
+  rerankScore: number;
+  // Estimated from the text length
+  tokens: number;
+  // Passage an adjacent paragraph of the same page was merged into
+  mergedInto?: string;
+  dropReason?: ContextDropReason;
+}
+
+export interface ContextSelection {
+  reranker: string;
+  tokenBudget: number;
+  tokensUsed: number;
+  selected: ContextChunk[];
+  dropped: ContextChunk[];
 }
 
 // Debug types
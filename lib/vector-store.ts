@@ -0,0 +1,457 @@
+import { Index } from "@upstash/vector";
+import initSqlJs, { type Database } from "sql.js";
+import { promises as fs } from "fs";
+import path from "path";
+import type { EmbeddingsMetadata } from "./types";
+import config, { type VectorStoreName } from "./config";
+
+// Get configuration
+const vectorStoreConfig = config.getVectorStoreConfig();
+
+export interface VectorRecord {
+  id: string;
+  vector: number[];
+  metadata: EmbeddingsMetadata;
+}
+
+export interface VectorMatch {
+  id: string;
+  score: number;
+  metadata?: EmbeddingsMetadata;
+}
+
+/**
+ * Condition on one metadata field: a value to equal, a list of allowed
+ * values, a numeric range or values a list field must contain
+ */
+export type VectorFilterCondition =
+  | string
+  | number
+  | boolean
+  | { in: (string | number)[] }
+  | { gte?: number; lte?: number }
+  | { contains: string }
+  | { containsAny: string[] };
+
+// All conditions must hold
+export type VectorFilter = Record<string, VectorFilterCondition>;
+
+export interface VectorQuery {
+  vector: number[];
+  topK: number;
+  filter?: VectorFilter;
+}
+
+export interface VectorNamespace {
+  upsert(records: VectorRecord[]): Promise<void>;
+  // Best matches first; scores are cosine similarities mapped to 0..1
+  query(query: VectorQuery): Promise<VectorMatch[]>;
+  // null for ids that are not stored
+  fetch(ids: string[]): Promise<(VectorRecord | null)[]>;
+  // Vectors visible to queries; lags behind upserts while a store indexes
+  count(): Promise<number>;
+  reset(): Promise<void>;
+}
+
+/**
+ * Backend for the embeddings. Every document or session gets its own
+ * namespace.
+ */
+export interface VectorStore {
+  name: VectorStoreName;
+  namespace(name: string): VectorNamespace;
+  listNamespaces(): Promise<string[]>;
+}
+
+/**
+ * Whether metadata satisfies every condition of the filter
+ */
+export function matchesFilter(
+  metadata: EmbeddingsMetadata,
+  filter: VectorFilter = {}
+): boolean {
+  return Object.entries(filter).every(([key, condition]) => {
+    const value = metadata[key];
+    if (typeof condition !== "object") return value === condition;
+    if ("in" in condition) {
+      return condition.in.some((allowed) => allowed === value);
+    }
+    if ("contains" in condition) {
+      return Array.isArray(value) && value.includes(condition.contains);
+    }
+    if ("containsAny" in condition) {
+      return (
+        Array.isArray(value) &&
+        condition.containsAny.some((item) => value.includes(item))
+      );
+    }
+    return (
+      typeof value === "number" &&
+      (condition.gte === undefined || value >= condition.gte) &&
+      (condition.lte === undefined || value <= condition.lte)
+    );
+  });
+}
+
+// Same scale as Upstash cosine indexes: (1 + cosine) / 2
+function cosineScore(a: number[], b: number[]): number {
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let i = 0; i < a.length; i++) {
+    dot += a[i] * b[i];
+    normA += a[i] ** 2;
+    normB += b[i] ** 2;
+  }
+  if (normA === 0 || normB === 0) return 0;
+  return (1 + dot / Math.sqrt(normA * normB)) / 2;
+}
+
+function rankRecords(
+  records: Iterable<VectorRecord>,
+  { vector, topK, filter }: VectorQuery
+): VectorMatch[] {
+  const matches: VectorMatch[] = [];
+  for (const record of records) {
+    if (!matchesFilter(record.metadata, filter)) continue;
+    matches.push({
+      id: record.id,
+      score: cosineScore(vector, record.vector),
+      metadata: record.metadata,
+    });
+  }
+  return matches.sort((a, b) => b.score - a.score).slice(0, topK);
+}
+
+// Upstash metadata filter syntax, e.g. "filename = 'a.pdf' AND pageStart >= 3"
+// or "(tags CONTAINS 'dates' OR tags CONTAINS 'deadlines')"
+function toUpstashFilter(filter: VectorFilter = {}): string | undefined {
+  const literal = (value: string | number | boolean) =>
+    typeof value === "string"
+      ? `'${value.replace(/\\/g, "\\\\").replace(/'/g, "\\'")}'`
+      : String(value);
+
+  const clauses = Object.entries(filter).flatMap(([key, condition]) => {
+    if (typeof condition !== "object") {
+      return [`${key} = ${literal(condition)}`];
+    }
+    if ("in" in condition) {
+      return [`${key} IN (${condition.in.map(literal).join(", ")})`];
+    }
+    if ("contains" in condition) {
+      return [`${key} CONTAINS ${literal(condition.contains)}`];
+    }
+    if ("containsAny" in condition) {
+      return [
+        `(${condition.containsAny
+          .map((item) => `${key} CONTAINS ${literal(item)}`)
+          .join(" OR ")})`,
+      ];
+    }
+    return [
+      ...(condition.gte !== undefined ? [`${key} >= ${condition.gte}`] : []),
+      ...(condition.lte !== undefined ? [`${key} <= ${condition.lte}`] : []),
+    ];
+  });
+  return clauses.length > 0 ? clauses.join(" AND ") : undefined;
+}
+
+function createUpstashVectorStore(): VectorStore {
+  // Retries are handled by withRetry so they follow config.processing.retry
+  const index = new Index<EmbeddingsMetadata>({
+    url: process.env.UPSTASH_VECTOR_REST_URL!,
+    token: process.env.UPSTASH_VECTOR_REST_TOKEN!,
+    retry: false,
+  });
+
+  return {
+    name: "upstash",
+    namespace(name) {
+      const namespace = index.namespace(name);
+      return {
+        async upsert(records) {
+          await namespace.upsert(records);
+        },
+        async query(query) {
+          const results = await namespace.query({
+            vector: query.vector,
+            topK: query.topK,
+            filter: toUpstashFilter(query.filter),
+            includeMetadata: true,
+          });
+          return results.map((result) => ({
+            id: String(result.id),
+            score: result.score,
+            metadata: result.metadata,
+          }));
+        },
+        async fetch(ids) {
+          const results = await namespace.fetch(ids, {
+            includeMetadata: true,
+            includeVectors: true,
+          });
+          return results.map((result) =>
+            result
+              ? {
+                  id: String(result.id),
+                  vector: result.vector ?? [],
+                  metadata: result.metadata as EmbeddingsMetadata,
+                }
+              : null
+          );
+        },
+        async count() {
+          const info = await index.info();
+          return info.namespaces[name]?.vectorCount ?? 0;
+        },
+        async reset() {
+          await namespace.reset();
+        },
+      };
+    },
+    listNamespaces: () => index.listNamespaces(),
+  };
+}
+
+// Keep in-process stores on globalThis so every route handler (and
+// dev-mode reloads) see the same vectors
+const globalForVectorStores = globalThis as typeof globalThis & {
+  __tenderMemoryVectors?: Map<string, Map<string, VectorRecord>>;
+  __tenderSqliteVectors?: SqliteState;
+};
+
+function createMemoryVectorStore(): VectorStore {
+  const namespaces = (globalForVectorStores.__tenderMemoryVectors ??=
+    new Map());
+  const getRecords = (name: string) => {
+    let records = namespaces.get(name);
+    if (!records) {
+      records = new Map();
+      namespaces.set(name, records);
+    }
+    return records;
+  };
+
+  return {
+    name: "memory",
+    namespace(name) {
+      return {
+        async upsert(records) {
+          const stored = getRecords(name);
+          for (const record of records) {
+            stored.set(record.id, structuredClone(record));
+          }
+        },
+        async query(query) {
+          return rankRecords(namespaces.get(name)?.values() ?? [], query);
+        },
+        async fetch(ids) {
+          const stored = namespaces.get(name);
+          return ids.map((id) => stored?.get(id) ?? null);
+        },
+        async count() {
+          return namespaces.get(name)?.size ?? 0;
+        },
+        async reset() {
+          namespaces.delete(name);
+        },
+      };
+    },
+    async listNamespaces() {
+      return Array.from(namespaces.entries())
+        .filter(([, records]) => records.size > 0)
+        .map(([name]) => name);
+    },
+  };
+}
+
+interface SqliteState {
+  database: Promise<Database>;
+  // Writes of the database file run one after another
+  lastWrite: Promise<void>;
+}
+
+async function openSqliteDatabase(filePath: string): Promise<Database> {
+  const SQL = await initSqlJs();
+  let database: Database;
+  try {
+    database = new SQL.Database(await fs.readFile(filePath));
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code !== "ENOENT") {
+      console.error(`Error opening vector database ${filePath}:`, error);
+      throw new Error(`Failed to open vector database: ${filePath}`);
+    }
+    database = new SQL.Database();
+  }
+
+  database.run(
+    `CREATE TABLE IF NOT EXISTS vectors (
+      namespace TEXT NOT NULL,
+      id TEXT NOT NULL,
+      vector BLOB NOT NULL,
+      metadata TEXT NOT NULL,
+      PRIMARY KEY (namespace, id)
+    )`
+  );
+  return database;
+}
+
+function toRecord(row: Record<string, unknown>): VectorRecord {
+  const blob = row.vector as Uint8Array;
+  return {
+    id: String(row.id),
+    // Copied so the bytes are aligned for the float view
+    vector: Array.from(new Float32Array(blob.slice().buffer)),
+    metadata: JSON.parse(String(row.metadata)),
+  };
+}
+
+function selectRecords(
+  database: Database,
+  sql: string,
+  params: string[]
+): VectorRecord[] {
+  const statement = database.prepare(sql, params);
+  const records: VectorRecord[] = [];
+  try {
+    while (statement.step()) {
+      records.push(toRecord(statement.getAsObject()));
+    }
+  } finally {
+    statement.free();
+  }
+  return records;
+}
+
+/**
+ * SQLite database in a local file, run in-process with sql.js. Queries
+ * scan the namespace, which is fine for the size of a tender.
+ */
+function createSqliteVectorStore(): VectorStore {
+  const filePath = path.resolve(process.cwd(), vectorStoreConfig.sqlite.path);
+  const state = (globalForVectorStores.__tenderSqliteVectors ??= {
+    database: openSqliteDatabase(filePath),
+    lastWrite: Promise.resolve(),
+  });
+
+  const getDatabase = () =>
+    state.database.catch((error) => {
+      // Retried on the next call
+      state.database = openSqliteDatabase(filePath);
+      throw error;
+    });
+
+  // Snapshot taken right after the change, written in order
+  const persist = (database: Database) => {
+    const data = database.export();
+    const write = state.lastWrite.then(async () => {
+      await fs.mkdir(path.dirname(filePath), { recursive: true });
+      const tempPath = `${filePath}.${process.pid}.tmp`;
+      await fs.writeFile(tempPath, data);
+      await fs.rename(tempPath, filePath);
+    });
+    state.lastWrite = write.catch((error) => {
+      console.error(`Error writing vector database ${filePath}:`, error);
+    });
+    return write;
+  };
+
+  return {
+    name: "sqlite",
+    namespace(name) {
+      return {
+        async upsert(records) {
+          const database = await getDatabase();
+          const statement = database.prepare(
+            "INSERT OR REPLACE INTO vectors (namespace, id, vector, metadata) VALUES (?, ?, ?, ?)"
+          );
+          try {
+            database.run("BEGIN");
+            for (const record of records) {
+              statement.run([
+                name,
+                record.id,
+                new Uint8Array(Float32Array.from(record.vector).buffer),
+                JSON.stringify(record.metadata),
+              ]);
+            }
+            database.run("COMMIT");
+          } catch (error) {
+            database.run("ROLLBACK");
+            throw error;
+          } finally {
+            statement.free();
+          }
+          await persist(database);
+        },
+        async query(query) {
+          const database = await getDatabase();
+          return rankRecords(
+            selectRecords(
+              database,
+              "SELECT id, vector, metadata FROM vectors WHERE namespace = ?",
+              [name]
+            ),
+            query
+          );
+        },
+        async fetch(ids) {
+          const database = await getDatabase();
+          const records = new Map(
+            selectRecords(
+              database,
+              `SELECT id, vector, metadata FROM vectors WHERE namespace = ? AND id IN (${ids
+                .map(() => "?")
+                .join(", ")})`,
+              [name, ...ids]
+            ).map((record) => [record.id, record])
+          );
+          return ids.map((id) => records.get(id) ?? null);
+        },
+        async count() {
+          const database = await getDatabase();
+          const [result] = database.exec(
+            "SELECT COUNT(*) FROM vectors WHERE namespace = ?",
+            [name]
+          );
+          return Number(result?.values[0]?.[0] ?? 0);
+        },
+        async reset() {
+          const database = await getDatabase();
+          database.run("DELETE FROM vectors WHERE namespace = ?", [name]);
+          await persist(database);
+        },
+      };
+    },
+    async listNamespaces() {
+      const database = await getDatabase();
+      const [result] = database.exec(
+        "SELECT DISTINCT namespace FROM vectors ORDER BY namespace"
+      );
+      return result?.values.map(([name]) => String(name)) ?? [];
+    },
+  };
+}
+
+let store: VectorStore | null = null;
+
+/**
+ * The store selected by config.vectorStore.provider, created on first use
+ */
+export function getVectorStore(): VectorStore {
+  if (!store) {
+    switch (vectorStoreConfig.provider) {
+      case "upstash":
+        store = createUpstashVectorStore();
+        break;
+      case "memory":
+        store = createMemoryVectorStore();
+        break;
+      case "sqlite":
+        store = createSqliteVectorStore();
+        break;
+    }
+    console.log(`Using vector store ${store.name}`);
+  }
+  return store;
+}
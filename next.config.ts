@@ -1,7 +1,8 @@
 import type { NextConfig } from "next";
 
 const nextConfig: NextConfig = {
-  /* config options here */
+  // Loads its WebAssembly binary from the package directory at runtime
+  serverExternalPackages: ["sql.js"],
 };
 
 export default nextConfig;